@@ -1,58 +1,286 @@
 
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { Message, ConversationSession } from './types';
-import { LEVELS, TOPICS, COACH_VOICES } from './constants';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { DrillAttempt, DrillSource, Message, MessageModality, MessageRole, ConversationSession, ReviewCard, ReviewGrade, ReviewSchedule, SavedWord, Scenario, LearnerProfile, LevelAssessment, LevelAssessmentSource, FeedbackSettings, FeedbackStyle, SpeakingPace, CorrectionCategory, CourseUnitRef, UnitCompletion, Learner, TeacherReview, GoalSettings, PracticeModeId, SessionGoal, SessionGoalResult, ExamPart, ExamRecord } from './types';
+import { LEVELS, TOPICS, COACH_VOICES, NATIVE_LANGUAGES } from './constants';
+import { createGeminiBackend, decodeAudioData } from './services/geminiService';
+import { createMockBackend } from './services/mockBackend';
+import { BackendErrorKind, BackendEvent, BackendId, ConversationBackend, LiveConnection } from './services/conversationBackend';
+import { extractCorrections, getSessionCorrections } from './services/correctionService';
+import { buildReviewCards, getDueCards, scheduleReview } from './services/reviewService';
 import {
-  initializeAi,
-  connectToLiveSession,
-  decode,
-  decodeAudioData,
-  createPcmBlob
-} from './services/geminiService';
-import { Settings, X, Menu, Mic, MicOff, Volume2, HelpCircle, Key, History, ClipboardList } from './components/icons';
-import { LiveSession, LiveServerMessage, ErrorEvent, CloseEvent, GoogleGenAI } from '@google/genai';
+  listSessions,
+  listSessionIds,
+  searchSessions,
+  upsertSession,
+  deleteSession,
+  clearSessions,
+  saveAudioClip,
+  listSavedWords,
+  saveWord,
+  deleteSavedWord,
+  deleteLearnerData,
+  SessionPage,
+  SessionStoreError
+} from './services/sessionStore';
+import { floatTo16BitPcm, concatPcm, trimSilence, encodeWav, createAudioClipId } from './services/audioService';
+import {
+  InputMode,
+  InputSettings,
+  INPUT_MODES,
+  MicrophoneCapture,
+  VAD_HANGOVER_MS,
+  listMicrophones,
+  loadInputSettings,
+  openMicrophone,
+  saveInputSettings,
+  startMicrophoneCapture,
+} from './services/microphoneService';
+import {
+  downloadSessionsExport,
+  parseSessionsJson,
+  hasTurnTimestamps,
+  ExportFormat,
+  EXPORT_FORMATS,
+  SessionImportError
+} from './services/exportService';
+import { loadScenarios, saveScenarios } from './services/scenarioService';
+import { buildDrillPrompt, buildExaminerPrompt, buildPlacementPrompt, buildSystemPrompt } from './services/promptService';
+import { DRILL_TARGET_PREFIX, createDrillAttempt, getDrillTargets, loadDrillAttempts, saveDrillAttempts } from './services/drillService';
+import { generateSessionReport } from './services/reportService';
+import { DictionaryLookup, lookupWord } from './services/vocabularyService';
+import {
+  PLACEMENT_TOPIC,
+  PLACEMENT_TURNS,
+  assessSession,
+  getLevelCode,
+  getLevelOption,
+  loadLevelHistory,
+  recommendLevel,
+  saveLevelHistory,
+} from './services/levelService';
+import {
+  FEEDBACK_REVIEW_PREFIX,
+  FEEDBACK_STYLES,
+  FLAGGABLE_CATEGORIES,
+  SPEAKING_PACES,
+  loadFeedbackSettings,
+  saveFeedbackSettings,
+} from './services/feedbackService';
+import { LOCALES, loadLocale, saveLocale, setLocale, t } from './services/i18nService';
+import { buildLearnerProfile, isProfileEmpty, loadLearnerProfile, saveLearnerProfile } from './services/profileService';
+import { evaluateUnit, findCourseUnit, loadCourseProgress, saveCourseProgress } from './services/courseService';
+import { formatRubric } from './services/teacherReviewService';
+import { computeTalkTime, createTurnTimer, isTimingEmpty } from './services/timingService';
+import { PRACTICE_MODES, PracticeLog, SessionTimer, advanceSessionTimer, evaluateGoal, getDailyProgress, getSessionGoal, loadGoalSettings, loadPracticeLog, recordPractice, saveGoalSettings, savePracticeLog, startSessionTimer } from './services/goalService';
+import { EXAM_TOPIC, ExamState, advanceExam, finishExam, scoreExam, startExam } from './services/examService';
+import { deleteLearnerSettings, getCurrentLearnerId, isLearnerUnlocked, learnerKey, loadLearners, markLearnerUnlocked, saveLearners, setCurrentLearnerId } from './services/learnerService';
+import ReviewPanel from './components/ReviewPanel';
+import ProgressDashboard from './components/ProgressDashboard';
+import AudioClipButton from './components/AudioClipButton';
+import ScenarioEditor from './components/ScenarioEditor';
+import ReportCard from './components/ReportCard';
+import DrillPanel from './components/DrillPanel';
+import CorrectionDiff from './components/CorrectionDiff';
+import CoachFeedback from './components/CoachFeedback';
+import WordPopover from './components/WordPopover';
+import WordListPanel from './components/WordListPanel';
+import LearnerProfileEditor from './components/LearnerProfileEditor';
+import CoursePanel from './components/CoursePanel';
+import LearnerSwitcher from './components/LearnerSwitcher';
+import SessionReviewer from './components/SessionReviewer';
+import ExamResults from './components/ExamResults';
+import { Settings, X, Menu, Mic, MicOff, Volume2, HelpCircle, Key, History, ClipboardList, Layers, BarChart2, Send, Keyboard, Target, BookOpen, GraduationCap, User } from './components/icons';
 
 const INPUT_SAMPLE_RATE = 16000;
 const OUTPUT_SAMPLE_RATE = 24000;
-const SCRIPT_PROCESSOR_BUFFER_SIZE = 4096;
+// RMS level shown as a full input meter; speech rarely goes above it.
+const METER_FULL_SCALE = 0.3;
+const HISTORY_PAGE_SIZE = 20;
+const MAX_RECONNECT_ATTEMPTS = 5;
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 16000;
+const SCENARIO_OPTION_PREFIX = 'scenario:';
+const GOAL_MINUTE_OPTIONS = [5, 10, 15, 20, 30];
+const GOAL_TURN_OPTIONS = [5, 10, 15, 20];
+
+type SessionKind = 'conversation' | 'drill' | 'placement' | 'exam';
+
+function formatCountdown(ms: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+}
+
+function describeGoal(goal: SessionGoal): string {
+  if (goal.mode === 'ielts-part2') return t('goal.ieltsPart2');
+  return goal.minutes ? t('goal.minutes', { minutes: goal.minutes }) : t('goal.turns', { turns: goal.turns ?? 0 });
+}
+
+interface TappedWord {
+  lookup: DictionaryLookup;
+  position: { x: number; y: number };
+  context: string;
+}
+
+/** The word under a click in the transcript, with the text of the bubble it is in. */
+function getWordAtPoint(x: number, y: number): { word: string; rect: DOMRect; context: string } | null {
+  let node: Node | null = null;
+  let offset = 0;
+  if (document.caretPositionFromPoint) {
+    const position = document.caretPositionFromPoint(x, y);
+    node = position?.offsetNode ?? null;
+    offset = position?.offset ?? 0;
+  } else if (document.caretRangeFromPoint) {
+    const range = document.caretRangeFromPoint(x, y);
+    node = range?.startContainer ?? null;
+    offset = range?.startOffset ?? 0;
+  }
+  if (!node || node.nodeType !== Node.TEXT_NODE) return null;
+
+  const text = node.textContent ?? '';
+  const isWordChar = (char: string) => /[\p{L}']/u.test(char);
+  let start = offset;
+  let end = offset;
+  while (start > 0 && isWordChar(text[start - 1])) start--;
+  while (end < text.length && isWordChar(text[end])) end++;
+  const word = text.slice(start, end).replace(/^'+|'+$/g, '');
+  if (!/\p{L}/u.test(word)) return null;
+
+  const range = document.createRange();
+  range.setStart(node, start);
+  range.setEnd(node, end);
+  const bubble = node.parentElement?.closest('[data-message]');
+  return { word, rect: range.getBoundingClientRect(), context: (bubble?.textContent ?? text).trim() };
+}
 
 const App: React.FC = () => {
+  const [uiLocale, setUiLocale] = useState(() => {
+    const locale = loadLocale();
+    setLocale(locale);
+    return locale;
+  });
+  const [learners, setLearners] = useState<Learner[]>(loadLearners);
+  const currentLearnerId = getCurrentLearnerId();
+  const currentLearner = learners.find(learner => learner.id === currentLearnerId) ?? learners[0];
+  const [isLearnerLocked, setIsLearnerLocked] = useState(() => !isLearnerUnlocked(currentLearner));
   const [isSettingsOpen, setIsSettingsOpen] = useState(true);
   const [isNotesOpen, setIsNotesOpen] = useState(false);
   const [isHelpModalOpen, setIsHelpModalOpen] = useState(false);
   const [isApiKeyModalOpen, setIsApiKeyModalOpen] = useState(false);
   const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isReviewOpen, setIsReviewOpen] = useState(false);
+  const [isProgressOpen, setIsProgressOpen] = useState(false);
+  const [isScenarioEditorOpen, setIsScenarioEditorOpen] = useState(false);
+  const [isDrillOpen, setIsDrillOpen] = useState(false);
+  const [isWordListOpen, setIsWordListOpen] = useState(false);
+  const [isProfileEditorOpen, setIsProfileEditorOpen] = useState(false);
+  const [isCourseOpen, setIsCourseOpen] = useState(false);
+  const [isLearnerSwitcherOpen, setIsLearnerSwitcherOpen] = useState(false);
+  const [reviewSessionId, setReviewSessionId] = useState<number | null>(null);
+  const [examResultsSessionId, setExamResultsSessionId] = useState<number | null>(null);
 
-  const [level, setLevel] = useState<string>(LEVELS[0]);
-  const [topic, setTopic] = useState<string>(TOPICS[0]);
-  const [coachVoice, setCoachVoice] = useState<string>(COACH_VOICES[0]);
+  const [levelHistory, setLevelHistory] = useState<LevelAssessment[]>(loadLevelHistory);
+  // Start from the learner's last placement result rather than asking them to self-assess.
+  const [level, setLevel] = useState<string>(() => {
+    const placement = [...levelHistory].reverse().find(assessment => assessment.source === 'placement');
+    return placement ? getLevelOption(placement.level) : currentLearner.defaultLevel ?? LEVELS[0];
+  });
+  const [dismissedRecommendation, setDismissedRecommendation] = useState<string | null>(null);
+  const [topic, setTopic] = useState<string>(currentLearner.defaultTopic ?? TOPICS[0]);
+  const [scenario, setScenario] = useState<Scenario | null>(null);
+  const [scenarios, setScenarios] = useState<Scenario[]>([]);
+  const [coachVoice, setCoachVoice] = useState<string>(currentLearner.defaultVoice ?? COACH_VOICES[0]);
   
   const [messages, setMessages] = useState<Message[]>([]);
   const [history, setHistory] = useState<ConversationSession[]>([]);
+  const [historyPage, setHistoryPage] = useState<SessionPage>({ sessions: [], total: 0 });
+  const [historyQuery, setHistoryQuery] = useState('');
+  const [historyLimit, setHistoryLimit] = useState(HISTORY_PAGE_SIZE);
+  const [storeRevision, setStoreRevision] = useState(0);
+  const [storageError, setStorageError] = useState<string | null>(null);
   const [currentSessionId, setCurrentSessionId] = useState<number | null>(null);
   const [isSessionActive, setIsSessionActive] = useState(false);
-  const [statusMessage, setStatusMessage] = useState('Please set your API Key to begin.');
+  const [isReconnecting, setIsReconnecting] = useState(false);
+  const [sessionKind, setSessionKind] = useState<SessionKind>('conversation');
+  // A session kind waiting for the running session to stop before it starts.
+  const [pendingStartKind, setPendingStartKind] = useState<SessionKind | null>(null);
+  const [statusMessage, setStatusMessage] = useState(() => t('status.setApiKey'));
   const [isApiKeySet, setIsApiKeySet] = useState(false);
+  const [backendId, setBackendId] = useState<BackendId>('gemini');
+  const isBackendReady = backendId === 'mock' || isApiKeySet;
   const [apiKeyInput, setApiKeyInput] = useState('');
   
   const [generalNotes, setGeneralNotes] = useState('');
+  const [reviewSchedules, setReviewSchedules] = useState<Record<string, ReviewSchedule>>({});
+  const [isReportEnabled, setIsReportEnabled] = useState(() => localStorage.getItem(learnerKey('sessionReports')) !== 'off');
+  const [reportingSessionIds, setReportingSessionIds] = useState<number[]>([]);
+  const [expandedReportId, setExpandedReportId] = useState<number | null>(null);
+  const [drillSource, setDrillSource] = useState<DrillSource>('built-in');
+  const [drillIndex, setDrillIndex] = useState(0);
+  const [drillResult, setDrillResult] = useState<DrillAttempt | null>(null);
+  const [drillAttempts, setDrillAttempts] = useState<DrillAttempt[]>(loadDrillAttempts);
+  const [savedWords, setSavedWords] = useState<SavedWord[]>([]);
+  const [tappedWord, setTappedWord] = useState<TappedWord | null>(null);
+  const [isProfileEnabled, setIsProfileEnabled] = useState(() => localStorage.getItem(learnerKey('learnerProfileEnabled')) !== 'off');
+  const [editedProfile, setEditedProfile] = useState<LearnerProfile | null>(loadLearnerProfile);
+  const [courseProgress, setCourseProgress] = useState<UnitCompletion[]>(loadCourseProgress);
+  const [activeUnit, setActiveUnit] = useState<CourseUnitRef | null>(null);
+  const [goalSettings, setGoalSettings] = useState<GoalSettings>(loadGoalSettings);
+  const [practiceLog, setPracticeLog] = useState<PracticeLog>(loadPracticeLog);
+  const [sessionTimer, setSessionTimer] = useState<SessionTimer | null>(null);
+  const [timerNow, setTimerNow] = useState(() => Date.now());
+  const [examState, setExamState] = useState<ExamState | null>(null);
+  const [scoringExamIds, setScoringExamIds] = useState<number[]>([]);
 
   const currentUserTranscriptionRef = useRef('');
   const currentTutorTranscriptionRef = useRef('');
   const [displayUserTranscription, setDisplayUserTranscription] = useState('');
   const [displayTutorTranscription, setDisplayTutorTranscription] = useState('');
+  const [textInput, setTextInput] = useState('');
+  const [inputSettings, setInputSettings] = useState<InputSettings>(loadInputSettings);
+  // Explanations follow the learner's native language until they pick one (or English only) themselves.
+  const [feedbackSettings, setFeedbackSettings] = useState<FeedbackSettings>(() => {
+    const settings = loadFeedbackSettings();
+    return settings.explanationLanguage === undefined && currentLearner.nativeLanguage
+      ? { ...settings, explanationLanguage: currentLearner.nativeLanguage }
+      : settings;
+  });
+  // Feedback a reopened session was practised with; it applies until the learner starts afresh or changes a setting.
+  const [loadedSessionFeedback, setLoadedSessionFeedback] = useState<FeedbackSettings | null>(null);
+  const sessionFeedback: FeedbackSettings = loadedSessionFeedback ?? feedbackSettings;
+  const [microphones, setMicrophones] = useState<MediaDeviceInfo[]>([]);
+  const [isMicrophoneLive, setIsMicrophoneLive] = useState(false);
+  const [inputLevel, setInputLevel] = useState(0);
+  const [isTransmitting, setIsTransmitting] = useState(false);
+  const [isTalkKeyDown, setIsTalkKeyDown] = useState(false);
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
-  const aiRef = useRef<GoogleGenAI | null>(null);
-  const sessionPromiseRef = useRef<Promise<LiveSession> | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const geminiBackendRef = useRef<ConversationBackend | null>(null);
+  const apiKeyRef = useRef<string | null>(null);
+  const sessionPromiseRef = useRef<Promise<LiveConnection> | null>(null);
+  const reconnectAttemptRef = useRef(0);
+  const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const isStartingRef = useRef(false);
+  // Typed turns sent before the connection opened, and the latest typed turn
+  // the coach is still answering (for extracting its corrections).
+  const pendingTextRef = useRef<string[]>([]);
+  const typedTurnTextRef = useRef('');
   const streamRef = useRef<MediaStream | null>(null);
   const inputAudioContextRef = useRef<AudioContext | null>(null);
   const outputAudioContextRef = useRef<AudioContext | null>(null);
-  const scriptProcessorRef = useRef<ScriptProcessorNode | null>(null);
-  const mediaStreamSourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
+  const microphoneCaptureRef = useRef<MicrophoneCapture | null>(null);
+  const isTalkKeyDownRef = useRef(false);
+  const lastVoiceAtRef = useRef(0);
   const nextStartTimeRef = useRef(0);
   const audioPlaybackSources = useRef(new Set<AudioBufferSourceNode>());
   const messagesAtSessionStart = useRef<Message[]>([]);
+  const userAudioChunksRef = useRef<Int16Array[]>([]);
+  const tutorAudioChunksRef = useRef<Int16Array[]>([]);
+  const tutorAudioSampleRateRef = useRef(OUTPUT_SAMPLE_RATE);
+  const userTurnStartRef = useRef<number | null>(null);
+  const tutorTurnStartRef = useRef<number | null>(null);
+  const turnTimerRef = useRef(createTurnTimer());
+  const practiceStartedAtRef = useRef<number | null>(null);
   
   const isSessionActiveRef = useRef(isSessionActive);
   isSessionActiveRef.current = isSessionActive;
@@ -62,64 +290,165 @@ const App: React.FC = () => {
     currentSessionIdRef.current = currentSessionId;
   }, [currentSessionId]);
 
-  const sessionStateRef = useRef({ messages, level, topic, generalNotes });
+  const sessionStateRef = useRef({ messages, level, topic, scenario, generalNotes, feedbackSettings: sessionFeedback, activeUnit });
   useEffect(() => {
-    sessionStateRef.current = { messages, level, topic, generalNotes };
-  }, [messages, level, topic, generalNotes]);
+    sessionStateRef.current = { messages, level, topic, scenario, generalNotes, feedbackSettings: sessionFeedback, activeUnit };
+  }, [messages, level, topic, scenario, generalNotes, sessionFeedback, activeUnit]);
+
+  const historyRef = useRef(history);
+  historyRef.current = history;
+
+  const inputSettingsRef = useRef(inputSettings);
+  inputSettingsRef.current = inputSettings;
+
+  const sessionKindRef = useRef(sessionKind);
+  sessionKindRef.current = sessionKind;
+
+  const sessionTimerRef = useRef(sessionTimer);
+  sessionTimerRef.current = sessionTimer;
+  const examStateRef = useRef(examState);
+  examStateRef.current = examState;
+
+  const drillTargets = useMemo(() => getDrillTargets(drillSource, history, scenario, level), [drillSource, history, scenario, level]);
+  const drillRef = useRef({ target: drillTargets[drillIndex] as string | undefined, source: drillSource });
+  drillRef.current = { target: drillTargets[drillIndex], source: drillSource };
+
+  const generatedProfile = useMemo(() => buildLearnerProfile(history, savedWords), [history, savedWords]);
+  const learnerProfile = editedProfile ?? generatedProfile;
+  const learnerProfileRef = useRef<LearnerProfile | null>(null);
+  learnerProfileRef.current = isProfileEnabled ? learnerProfile : null;
+
+  const reportOptionsRef = useRef({ isReportEnabled, backendId });
+  reportOptionsRef.current = { isReportEnabled, backendId };
+
+  const handleStorageError = useCallback((e: unknown) => {
+    console.error("Session storage error:", e);
+    setStorageError(e instanceof SessionStoreError ? e.message : t('errors.saveSession'));
+  }, []);
+
+  const persistSession = useCallback((session: ConversationSession) => {
+    upsertSession(session)
+      .then(() => setStoreRevision(r => r + 1))
+      .catch(handleStorageError);
+  }, [handleStorageError]);
 
 
   useEffect(() => {
+    const savedBackendId = localStorage.getItem('voiceBackend') === 'mock' ? 'mock' : 'gemini';
+    setBackendId(savedBackendId);
+
     const savedApiKey = localStorage.getItem('googleApiKey');
     if (savedApiKey) {
       try {
-        aiRef.current = initializeAi(savedApiKey);
+        geminiBackendRef.current = createGeminiBackend(savedApiKey);
+        apiKeyRef.current = savedApiKey;
         setIsApiKeySet(true);
-        setStatusMessage('API Key loaded. Click the microphone to start.');
+        setStatusMessage(t('status.apiKeyLoaded'));
       } catch (e) {
         console.error("Failed to initialize with saved API key:", e);
         localStorage.removeItem('googleApiKey');
-        setStatusMessage('Invalid API Key found. Please set a new one.');
+        setStatusMessage(t('status.invalidSavedKey'));
         setIsApiKeyModalOpen(true);
       }
+    } else if (savedBackendId === 'mock') {
+      setStatusMessage(t('status.offlineDemo'));
     } else {
       setIsApiKeyModalOpen(true);
     }
     
+    listSessions()
+      .then(page => setHistory(page.sessions))
+      .catch(handleStorageError);
+
+    listSavedWords()
+      .then(setSavedWords)
+      .catch(handleStorageError);
+
+    setScenarios(loadScenarios());
+
     try {
-      const savedHistory = localStorage.getItem('conversationHistory');
-      if (savedHistory) {
-        setHistory(JSON.parse(savedHistory));
+      const savedSchedules = localStorage.getItem(learnerKey('reviewSchedules'));
+      if (savedSchedules) {
+        setReviewSchedules(JSON.parse(savedSchedules));
       }
     } catch (e) {
-      console.error("Failed to load conversation history:", e);
-      localStorage.removeItem('conversationHistory');
+      console.error("Failed to load review schedules:", e);
+      localStorage.removeItem(learnerKey('reviewSchedules'));
     }
 
   }, []);
 
+  useEffect(() => {
+    if (!isHistoryOpen) return;
+    let cancelled = false;
+    searchSessions(historyQuery, { limit: historyLimit })
+      .then(page => { if (!cancelled) setHistoryPage(page); })
+      .catch(handleStorageError);
+    return () => { cancelled = true; };
+  }, [isHistoryOpen, historyQuery, historyLimit, storeRevision, handleStorageError]);
+
   useEffect(() => {
     try {
-      localStorage.setItem('conversationHistory', JSON.stringify(history));
+      localStorage.setItem(learnerKey('reviewSchedules'), JSON.stringify(reviewSchedules));
     } catch (e) {
-      console.error("Failed to save conversation history:", e);
+      console.error("Failed to save review schedules:", e);
     }
-  }, [history]);
+  }, [reviewSchedules]);
+
+  useEffect(() => {
+    saveDrillAttempts(drillAttempts);
+  }, [drillAttempts]);
+
+  useEffect(() => {
+    saveLevelHistory(levelHistory);
+  }, [levelHistory]);
+
+  useEffect(() => {
+    saveCourseProgress(courseProgress);
+  }, [courseProgress]);
+
+  useEffect(() => {
+    savePracticeLog(practiceLog);
+  }, [practiceLog]);
+
+  // The session in progress is only in the history once it has been saved, so
+  // include it here for the word list's usage counts.
+  const wordUsageSessions = useMemo(() => {
+    if (messages.length === 0 || history.some(session => session.id === currentSessionId)) return history;
+    const now = new Date();
+    return [...history, { id: now.getTime(), date: now.toISOString(), level, topic, messages }];
+  }, [history, messages, currentSessionId, level, topic]);
+
+  const reviewCards = useMemo(() => buildReviewCards(history, reviewSchedules), [history, reviewSchedules]);
+  const levelRecommendation = useMemo(() => recommendLevel(history, level), [history, level]);
+  const showLevelRecommendation = levelRecommendation !== null && !isSessionActive && dismissedRecommendation !== `${level}>${levelRecommendation.level}`;
+  const latestAssessment = levelHistory[levelHistory.length - 1];
+  const assessmentsBySessionId = useMemo(() => new Map(levelHistory.map(a => [a.sessionId, a])), [levelHistory]);
+  const placementAnswers = sessionKind === 'placement' ? messages.filter(msg => msg.role === 'user').length : 0;
+  const activeCourseUnit = activeUnit ? findCourseUnit(activeUnit) : null;
+  const talkTime = useMemo(() => computeTalkTime(messages), [messages]);
+  const dailyProgress = getDailyProgress(practiceLog, goalSettings.dailyMinutes, Date.now());
+  const reviewSession = reviewSessionId !== null ? history.find(s => s.id === reviewSessionId) : undefined;
+  const examResultsSession = examResultsSessionId !== null ? history.find(s => s.id === examResultsSessionId) : undefined;
+  const activeUnitEvaluation = useMemo(() => activeCourseUnit ? evaluateUnit(activeCourseUnit.unit, messages) : null, [activeCourseUnit?.unit, messages]);
+  const dueReviewCount = getDueCards(reviewCards).length;
 
   const handleSaveApiKey = () => {
     if (apiKeyInput.trim()) {
       try {
-        aiRef.current = initializeAi(apiKeyInput);
+        geminiBackendRef.current = createGeminiBackend(apiKeyInput);
+        apiKeyRef.current = apiKeyInput;
         localStorage.setItem('googleApiKey', apiKeyInput);
         setIsApiKeySet(true);
         setIsApiKeyModalOpen(false);
         setApiKeyInput('');
-        setStatusMessage('API Key set! Ready to start a session.');
+        setStatusMessage(t('status.apiKeySet'));
       } catch (e) {
         console.error(e);
-        alert('Failed to initialize with the provided API Key. Please check the key and try again.');
+        alert(t('alerts.apiKeyInitFailed'));
       }
     } else {
-      alert('Please enter a valid API Key.');
+      alert(t('alerts.apiKeyEmpty'));
     }
   };
 
@@ -131,92 +460,138 @@ const App: React.FC = () => {
     scrollToBottom();
   }, [messages, displayUserTranscription, displayTutorTranscription]);
   
-  const getSystemPrompt = useCallback((voiceName: string) => {
-    const isContinuation = messages.length > 0;
+  // Encodes the audio captured for one side of the turn and stores it in the
+  // background. The buffer is always emptied so the next turn starts fresh.
+  const takeTurnAudio = useCallback((chunksRef: React.MutableRefObject<Int16Array[]>, sampleRate: number, role: MessageRole, hasText: boolean): string | undefined => {
+    const chunks = chunksRef.current;
+    chunksRef.current = [];
+    if (!hasText || chunks.length === 0) return undefined;
 
-    let conversationInstructions: string;
+    let samples = concatPcm(chunks);
+    if (role === 'user') samples = trimSilence(samples, sampleRate);
+    if (samples.length === 0) return undefined;
 
-    if (isContinuation) {
-        const historyText = messages.map(msg => `${msg.role === 'user' ? 'User' : voiceName}: ${msg.content}`).join('\n\n');
-        conversationInstructions = `2. **Continue the Conversation:** The user has loaded a previous session. Your task is to seamlessly continue the conversation from where it left off. Here is the conversation history:\n${historyText}\n3. **Your Next Turn:** Based on the last message ("${messages[messages.length - 1].content}"), ask a relevant follow-up question to keep the conversation flowing naturally.`;
-    } else {
-        conversationInstructions = `2. **Initiate the Conversation:** Start by introducing yourself and asking an engaging, open-ended question related to the selected topic.\n3. **Lead the Dialogue:** Your main role is to guide the conversation. Ask a question, listen carefully to the user's response, and then react.`;
-    }
+    const clipId = createAudioClipId(role);
+    saveAudioClip(clipId, encodeWav(samples, sampleRate)).catch(handleStorageError);
+    return clipId;
+  }, [handleStorageError]);
 
-    return `You are ${voiceName}, a friendly and patient AI English conversation coach.
-
-Your primary goal is to help the user practice their English speaking skills through a guided, interactive question-and-answer format.
-
-Current Settings:
-- Level: ${level}
-- Topic: ${topic}
-
-Your instructions are:
-1. **Speak ONLY in English.** Do not use any other language.
-${conversationInstructions}
-4. **Provide Detailed, Constructive Feedback:** If the user's response contains any grammatical errors, pronunciation issues reflected in the transcript, or unnatural phrasing, you MUST provide a detailed analysis and correction. Follow this specific format for feedback:
-    a. **Acknowledge and Encourage:** Start with a positive and encouraging phrase. For example, "Great effort!" or "Thanks for sharing, that was a good attempt."
-    b. **Identify the Original Sentence:** Quote the user's incorrect sentence. For example, "You said: 'I enjoy on my free time watching movies.'"
-    c. **Provide a Detailed Breakdown:** Analyze the sentence part-by-part. Pinpoint the specific words or phrases that are incorrect or could be improved. Explain *why* they are incorrect (e.g., wrong preposition, incorrect verb tense, awkward word order).
-        - Example analysis:
-            - "The phrase 'on my free time' is a common mistake. In English, we use the preposition 'in' for periods of time, so the correct phrase is 'in my free time'."
-            - "The word order is a little unnatural. It's more common to place the time phrase 'in my free time' at the beginning or end of the sentence."
-    d. **Offer the Perfect Sentence:** Provide the fully corrected, natural-sounding sentence. For example, "A more natural and perfect way to say this would be: 'In my free time, I enjoy watching movies.' or 'I enjoy watching movies in my free time.'"
-    e. **Check for Understanding:** After giving the correction, briefly check if the user understands before moving on. For example, "Does that make sense?"
-5. **Ask Follow-up Questions:** After providing feedback or if the user's answer is good, ask a relevant follow-up question to keep the conversation flowing naturally.
-6. **Adapt Your Language:** Adjust your vocabulary, question complexity, and speaking pace to match the user's selected proficiency level.
-7. **Maintain a Positive Tone:** Always be supportive, encouraging, and patient.
-8. **Be Concise:** Keep your own speaking turns relatively short to maximize the user's practice time.
-9. **Stay on Topic:** Strictly adhere to the chosen conversation topic and difficulty level.`;
-  }, [level, topic, messages]);
-  
-  const saveCurrentSession = useCallback(() => {
-    const { messages, level, topic, generalNotes } = sessionStateRef.current;
+  const saveCurrentSession = useCallback((topicOverride?: string, goalResult?: SessionGoalResult, exam?: ExamRecord) => {
+    const { messages, level, topic, scenario, generalNotes, feedbackSettings, activeUnit } = sessionStateRef.current;
     const sessionId = currentSessionIdRef.current;
 
-    if (sessionId) {
-      setHistory(prevHistory =>
-        prevHistory.map(session =>
-          session.id === sessionId
-            ? { ...session, messages, notes: { ...session.notes, general: generalNotes } }
-            : session
-        )
-      );
-      return { isNew: false };
+    // The session may have dropped out of the loaded history (a reload or a
+    // learner switch mid-session); it is then saved as a new one, not lost.
+    const existing = sessionId ? historyRef.current.find(session => session.id === sessionId) : undefined;
+    if (existing) {
+      const updatedSession: ConversationSession = { ...existing, messages, notes: { ...existing.notes, general: generalNotes }, feedback: feedbackSettings };
+      if (goalResult) updatedSession.goalResult = goalResult;
+      if (exam) updatedSession.exam = exam;
+      setHistory(prevHistory => prevHistory.map(session => session.id === sessionId ? updatedSession : session));
+      persistSession(updatedSession);
+      return { isNew: false, session: updatedSession };
     } else {
-      const newSessionId = Date.now();
+      const now = new Date();
+      const newSessionId = now.getTime();
       const newSession: ConversationSession = {
         id: newSessionId,
-        date: new Date().toLocaleString(),
+        date: now.toISOString(),
         level,
-        topic,
+        topic: topicOverride ?? (scenario ? scenario.title : topic),
         messages,
         notes: { general: generalNotes },
+        feedback: feedbackSettings,
       };
+      if (scenario && !topicOverride) newSession.scenario = scenario;
+      if (activeUnit && !topicOverride) newSession.courseUnit = activeUnit;
+      if (goalResult) newSession.goalResult = goalResult;
+      if (exam) newSession.exam = exam;
       setHistory(prevHistory => [newSession, ...prevHistory]);
+      persistSession(newSession);
       setCurrentSessionId(newSessionId);
-      return { isNew: true };
+      return { isNew: true, session: newSession };
     }
+  }, [persistSession]);
+
+  // Report cards are written in the background once a session is saved. The
+  // learner may keep practising meanwhile, so the report is merged into the
+  // latest copy of the session rather than the one it was generated from.
+  const createSessionReport = useCallback((session: ConversationSession) => {
+    const { backendId } = reportOptionsRef.current;
+    const previousSessions = historyRef.current.filter(s => s.id !== session.id && s.date < session.date);
+    setReportingSessionIds(ids => [...ids, session.id]);
+
+    generateSessionReport(session, previousSessions, backendId === 'gemini' ? apiKeyRef.current ?? undefined : undefined)
+      .then(report => {
+        const latest = historyRef.current.find(s => s.id === session.id) ?? session;
+        const reportedSession: ConversationSession = { ...latest, report };
+        setHistory(prevHistory => prevHistory.map(s => s.id === session.id ? reportedSession : s));
+        persistSession(reportedSession);
+        if (!isSessionActiveRef.current) {
+          setStatusMessage(t('status.reportReady'));
+        }
+      })
+      .finally(() => setReportingSessionIds(ids => ids.filter(id => id !== session.id)));
+  }, [persistSession]);
+
+  // Tests are scored in the background like report cards, and the results
+  // open by themselves if the learner is not practising again by then.
+  const createExamResult = useCallback((session: ConversationSession) => {
+    const exam = session.exam;
+    if (!exam) return;
+    const { backendId } = reportOptionsRef.current;
+    setScoringExamIds(ids => [...ids, session.id]);
+
+    scoreExam(session, exam, backendId === 'gemini' ? apiKeyRef.current ?? undefined : undefined)
+      .then(result => {
+        const latest = historyRef.current.find(s => s.id === session.id) ?? session;
+        const scoredSession: ConversationSession = { ...latest, exam: { ...exam, ...latest.exam, result } };
+        setHistory(prevHistory => prevHistory.map(s => s.id === session.id ? scoredSession : s));
+        persistSession(scoredSession);
+        if (!isSessionActiveRef.current) {
+          setStatusMessage(t('status.examScored'));
+          setExamResultsSessionId(session.id);
+        }
+      })
+      .finally(() => setScoringExamIds(ids => ids.filter(id => id !== session.id)));
+  }, [persistSession]);
+
+  // A session saved again after more practice replaces its earlier assessment.
+  const recordLevelAssessment = useCallback((session: ConversationSession, source: LevelAssessmentSource) => {
+    const assessment = assessSession(session, source);
+    if (assessment) {
+      setLevelHistory(prev => [...prev.filter(a => a.sessionId !== session.id), assessment]);
+    }
+    return assessment;
   }, []);
 
-  const stopSession = useCallback(() => {
+  const stopSession = useCallback((finalStatus = t('status.sessionEnded')) => {
+    const wasPlacement = sessionKindRef.current === 'placement';
+    const exam = sessionKindRef.current === 'exam' ? examStateRef.current : null;
+    if (reconnectTimerRef.current) {
+      clearTimeout(reconnectTimerRef.current);
+      reconnectTimerRef.current = null;
+    }
+    reconnectAttemptRef.current = 0;
+    setIsReconnecting(false);
+    isStartingRef.current = false;
+    setSessionKind('conversation');
+    pendingTextRef.current = [];
+    typedTurnTextRef.current = '';
     if (streamRef.current) {
       streamRef.current.getTracks().forEach(track => track.stop());
       streamRef.current = null;
     }
-    if (scriptProcessorRef.current) {
-        scriptProcessorRef.current.disconnect();
-        scriptProcessorRef.current = null;
-    }
-    if (mediaStreamSourceRef.current) {
-        mediaStreamSourceRef.current.disconnect();
-        mediaStreamSourceRef.current = null;
-    }
+    microphoneCaptureRef.current?.stop();
+    microphoneCaptureRef.current = null;
+    setIsMicrophoneLive(false);
+    setInputLevel(0);
+    setIsTransmitting(false);
     if (inputAudioContextRef.current && inputAudioContextRef.current.state !== 'closed') {
       inputAudioContextRef.current.close().catch(console.error);
       inputAudioContextRef.current = null;
     }
-    sessionPromiseRef.current?.then(session => session.close()).catch(console.error);
+    sessionPromiseRef.current?.then(connection => connection.close()).catch(console.error);
     sessionPromiseRef.current = null;
 
     audioPlaybackSources.current.forEach(source => source.stop());
@@ -226,143 +601,454 @@ ${conversationInstructions}
         outputAudioContextRef.current = null;
     }
     nextStartTimeRef.current = 0;
+    userAudioChunksRef.current = [];
+    tutorAudioChunksRef.current = [];
+
+    const timer = sessionTimerRef.current;
+    setSessionTimer(null);
+    setExamState(null);
+    const practisedMs = practiceStartedAtRef.current !== null ? Date.now() - practiceStartedAtRef.current : 0;
+    practiceStartedAtRef.current = null;
+    if (practisedMs > 0) setPracticeLog(prev => recordPractice(prev, practisedMs, Date.now()));
     
     if (isSessionActiveRef.current) {
       const { messages: finalMessages } = sessionStateRef.current;
       if (finalMessages.length > messagesAtSessionStart.current.length) {
-        saveCurrentSession();
+        const goalResult = timer
+          ? evaluateGoal(timer, practisedMs, finalMessages.slice(timer.startMessageCount).filter(msg => msg.role === 'user').length)
+          : undefined;
+        const { session } = saveCurrentSession(wasPlacement ? PLACEMENT_TOPIC : exam ? EXAM_TOPIC : undefined, goalResult, exam ? finishExam(exam) : undefined);
+        // A test gets its band scores instead of a report card.
+        if (session && exam) {
+          createExamResult(session);
+          finalStatus = t('status.examScoring');
+        } else if (session && reportOptionsRef.current.isReportEnabled) {
+          createSessionReport(session);
+        }
+        const assessment = session ? recordLevelAssessment(session, wasPlacement ? 'placement' : 'session') : null;
+        if (wasPlacement) {
+          if (assessment) {
+            setLevel(getLevelOption(assessment.level));
+            finalStatus = t('status.placementComplete', { level: assessment.level });
+          } else {
+            finalStatus = t('status.placementTooShort');
+          }
+        } else if (session?.courseUnit) {
+          const courseUnit = findCourseUnit(session.courseUnit);
+          if (courseUnit && evaluateUnit(courseUnit.unit, session.messages).isComplete) {
+            const completion: UnitCompletion = { ...session.courseUnit, sessionId: session.id, completedAt: new Date().toISOString() };
+            setCourseProgress(prev => prev.some(c => c.courseId === completion.courseId && c.unitId === completion.unitId && c.sessionId === completion.sessionId) ? prev : [...prev, completion]);
+            finalStatus = courseUnit.index < courseUnit.course.units.length - 1
+              ? t('status.unitComplete', { unit: courseUnit.unit.title })
+              : t('status.courseComplete', { course: courseUnit.course.title });
+          }
+        }
       }
     }
 
     setIsSessionActive(false);
-    setStatusMessage('Session ended. Click the microphone to practice again.');
-  }, [saveCurrentSession]);
+    setStatusMessage(finalStatus);
+  }, [saveCurrentSession, createSessionReport, createExamResult, recordLevelAssessment]);
+
+  const sendDrillTarget = useCallback(() => {
+    const { target } = drillRef.current;
+    if (!target) return;
+    sessionPromiseRef.current?.then(connection => connection.sendText(`${DRILL_TARGET_PREFIX} ${target}`)).catch(console.error);
+  }, []);
 
-  const startOrContinueSession = useCallback(async () => {
+  // Voice sessions stream the microphone; text sessions skip it and the
+  // learner only types, though the coach still answers out loud.
+  const startOrContinueSession = useCallback(async (inputMode: MessageModality = 'voice', kind: SessionKind = 'conversation') => {
     if (isSessionActive) {
       stopSession();
       return;
     }
-    if (!aiRef.current) {
-      setStatusMessage('API Key not set. Please set it in the settings.');
+    const backend = backendId === 'mock' ? createMockBackend() : geminiBackendRef.current;
+    if (!backend) {
+      setStatusMessage(t('status.apiKeyMissing'));
       setIsApiKeyModalOpen(true);
       return;
     }
-    messagesAtSessionStart.current = messages;
+    // Placement and tests always start from an empty conversation, whatever was on screen.
+    messagesAtSessionStart.current = kind === 'placement' || kind === 'exam' ? [] : messages;
+    const goal = kind === 'conversation' ? getSessionGoal(goalSettings) : null;
     setDisplayUserTranscription('');
     setDisplayTutorTranscription('');
     currentUserTranscriptionRef.current = '';
     currentTutorTranscriptionRef.current = '';
-    setStatusMessage('Requesting microphone access...');
+    userTurnStartRef.current = null;
+    tutorTurnStartRef.current = null;
+    turnTimerRef.current.reset();
+    userAudioChunksRef.current = [];
+    tutorAudioChunksRef.current = [];
+    isStartingRef.current = true;
 
     try {
-      streamRef.current = await navigator.mediaDevices.getUserMedia({ audio: true });
+      if (inputMode === 'voice') {
+        setStatusMessage(t('status.requestingMicrophone'));
+        streamRef.current = await openMicrophone(inputSettingsRef.current.deviceId);
+        // Device labels only become available once permission is granted.
+        listMicrophones().then(setMicrophones).catch(console.error);
+        inputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: INPUT_SAMPLE_RATE });
+      }
 
-      setStatusMessage('Connecting to tutor...');
-      inputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: INPUT_SAMPLE_RATE });
+      setStatusMessage(t('status.connecting'));
       outputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: OUTPUT_SAMPLE_RATE });
 
-      sessionPromiseRef.current = connectToLiveSession(aiRef.current, getSystemPrompt(coachVoice), coachVoice, {
-        onopen: () => {
-            console.log('Session opened.');
-            setIsSessionActive(true);
-            setStatusMessage('Connected! Start speaking when you are ready.');
-            
-            if (!inputAudioContextRef.current || !streamRef.current) {
-                console.error('Audio context or media stream is not available in onopen callback.');
-                stopSession();
-                return;
-            }
-            
-            const source = inputAudioContextRef.current.createMediaStreamSource(streamRef.current);
-            mediaStreamSourceRef.current = source;
-            const scriptProcessor = inputAudioContextRef.current.createScriptProcessor(SCRIPT_PROCESSOR_BUFFER_SIZE, 1, 1);
-            scriptProcessorRef.current = scriptProcessor;
-
-            scriptProcessor.onaudioprocess = (audioProcessingEvent) => {
-                const inputData = audioProcessingEvent.inputBuffer.getChannelData(0);
-                const pcmBlob = createPcmBlob(inputData);
-                sessionPromiseRef.current?.then((session) => {
-                    session.sendRealtimeInput({ media: pcmBlob });
-                });
-            };
-            source.connect(scriptProcessor);
-            scriptProcessor.connect(inputAudioContextRef.current!.destination);
-        },
-        onmessage: async (message: LiveServerMessage) => {
-            if (message.serverContent?.inputTranscription) {
-                currentUserTranscriptionRef.current += message.serverContent.inputTranscription.text;
-                setDisplayUserTranscription(currentUserTranscriptionRef.current);
-            }
-            if (message.serverContent?.outputTranscription) {
-                currentTutorTranscriptionRef.current += message.serverContent.outputTranscription.text;
-                setDisplayTutorTranscription(currentTutorTranscriptionRef.current);
-            }
-            if (message.serverContent?.turnComplete) {
-                const userText = currentUserTranscriptionRef.current.trim();
-                const tutorText = currentTutorTranscriptionRef.current.trim();
-                const newMessages: Message[] = [];
-                if (userText) newMessages.push({ role: 'user', content: userText });
-                if (tutorText) newMessages.push({ role: 'ai', content: tutorText });
-                if (newMessages.length > 0) setMessages(prev => [...prev, ...newMessages]);
-                
-                currentUserTranscriptionRef.current = '';
-                currentTutorTranscriptionRef.current = '';
-                setDisplayUserTranscription('');
-                setDisplayTutorTranscription('');
-            }
-
-            const parts = message.serverContent?.modelTurn?.parts;
-            if (parts) {
-                for (const part of parts) {
-                    const base64Audio = part.inlineData?.data;
-                    if (base64Audio) {
-                        const audioContext = outputAudioContextRef.current!;
-                        nextStartTimeRef.current = Math.max(nextStartTimeRef.current, audioContext.currentTime);
-        
-                        const audioBuffer = await decodeAudioData(decode(base64Audio), audioContext, OUTPUT_SAMPLE_RATE, 1);
-                        const source = audioContext.createBufferSource();
-                        source.buffer = audioBuffer;
-                        source.connect(audioContext.destination);
-                        source.onended = () => audioPlaybackSources.current.delete(source);
-                        source.start(nextStartTimeRef.current);
-                        nextStartTimeRef.current += audioBuffer.duration;
-                        audioPlaybackSources.current.add(source);
-                    }
-                }
-            }
-            
-            if (message.serverContent?.interrupted) {
-                audioPlaybackSources.current.forEach(source => source.stop());
-                audioPlaybackSources.current.clear();
-                nextStartTimeRef.current = 0;
-            }
-        },
-        onerror: (e: ErrorEvent) => {
-          console.error('Session error:', e.error);
-          setStatusMessage('Connection failed. Please check your API key and network.');
-          setIsApiKeyModalOpen(true);
-          stopSession();
-        },
-        onclose: (e: CloseEvent) => {
-          console.log('Session closed.');
-          stopSession();
-        },
-      });
+      const handleOpen = () => {
+          console.log('Session opened.');
+          setIsSessionActive(true);
+          setIsReconnecting(false);
+          isStartingRef.current = false;
+          if (reconnectAttemptRef.current > 0) {
+              setStatusMessage(t('status.reconnected'));
+          } else if (kind === 'drill') {
+              setStatusMessage(t('status.connectedDrill'));
+          } else if (kind === 'placement') {
+              setStatusMessage(t('status.connectedPlacement'));
+          } else if (kind === 'exam') {
+              setStatusMessage(t('status.connectedExam'));
+          } else {
+              setStatusMessage(inputMode === 'voice' ? t('status.connectedVoice') : t('status.connectedText'));
+          }
+          if (reconnectAttemptRef.current === 0) {
+              const now = Date.now();
+              practiceStartedAtRef.current = now;
+              if (goal) setSessionTimer(startSessionTimer(goal, now, messagesAtSessionStart.current.length));
+              if (kind === 'exam') setExamState(startExam(now, messagesAtSessionStart.current.length));
+          }
+          reconnectAttemptRef.current = 0;
+
+          const pendingTexts = pendingTextRef.current;
+          pendingTextRef.current = [];
+          if (pendingTexts.length > 0) turnTimerRef.current.typedTurn(Date.now());
+          pendingTexts.forEach(text => sessionPromiseRef.current?.then(connection => connection.sendText(text)));
+          if (kind === 'drill') sendDrillTarget();
+
+          // After a reconnect the microphone pipeline is still running and
+          // simply starts feeding the new connection.
+          if (inputMode === 'text' || hasStartedCapture) return;
+          
+          const audioContext = inputAudioContextRef.current;
+          const stream = streamRef.current;
+          if (!audioContext || !stream) {
+              console.error('Audio context or media stream is not available when the session opened.');
+              stopSession();
+              return;
+          }
+          
+          hasStartedCapture = true;
+          startMicrophoneCapture(audioContext, stream, handleMicrophoneFrame)
+              .then(capture => {
+                  if (streamRef.current !== stream) {
+                      capture.stop();
+                      return;
+                  }
+                  microphoneCaptureRef.current = capture;
+                  setIsMicrophoneLive(true);
+              })
+              .catch(error => {
+                  console.error('Failed to start microphone capture:', error);
+                  stopSession(t('status.microphoneFailed'));
+              });
+      };
+
+      // While the learner is not holding the floor the frame is replaced by
+      // silence rather than dropped, so the tutor's own voice detection still
+      // sees the end of the turn.
+      const handleMicrophoneFrame = (samples: Float32Array, level: number) => {
+          const { mode, vadThreshold } = inputSettingsRef.current;
+          const now = Date.now();
+          if (level >= vadThreshold) lastVoiceAtRef.current = now;
+          const transmitting = mode === 'always-on'
+              || (mode === 'push-to-talk' && isTalkKeyDownRef.current)
+              || (mode === 'vad' && now - lastVoiceAtRef.current < VAD_HANGOVER_MS);
+          setInputLevel(level);
+          setIsTransmitting(transmitting);
+          if (transmitting && level >= vadThreshold) turnTimerRef.current.voiceFrame(now, samples.length / INPUT_SAMPLE_RATE * 1000);
+
+          if (transmitting) userAudioChunksRef.current.push(floatTo16BitPcm(samples));
+          const outgoing = transmitting ? samples : new Float32Array(samples.length);
+          sessionPromiseRef.current?.then((connection) => {
+              connection.sendAudio(outgoing);
+          });
+      };
+
+      const handleTurnComplete = () => {
+          const userText = currentUserTranscriptionRef.current.trim();
+          const tutorText = currentTutorTranscriptionRef.current.trim();
+          const timing = turnTimerRef.current.completeTurn();
+          // Drill turns are scored against the target sentence instead of
+          // being added to the conversation.
+          if (kind === 'drill') {
+              userAudioChunksRef.current = [];
+              tutorAudioChunksRef.current = [];
+              const { target, source } = drillRef.current;
+              if (userText && target) {
+                  const attempt = createDrillAttempt(target, userText, source);
+                  setDrillResult(attempt);
+                  setDrillAttempts(prev => [...prev, attempt]);
+              }
+          } else {
+              const userClipId = takeTurnAudio(userAudioChunksRef, INPUT_SAMPLE_RATE, 'user', !!userText);
+              const tutorClipId = takeTurnAudio(tutorAudioChunksRef, tutorAudioSampleRateRef.current, 'ai', !!tutorText);
+              const turnEndedAt = Date.now();
+              const newMessages: Message[] = [];
+              if (userText) {
+                  const userMessage: Message = { role: 'user', content: userText, modality: 'voice' };
+                  if (userClipId) userMessage.audioClipId = userClipId;
+                  if (userTurnStartRef.current) {
+                      userMessage.startedAt = userTurnStartRef.current;
+                      userMessage.endedAt = tutorTurnStartRef.current ?? turnEndedAt;
+                  }
+                  if (!isTimingEmpty(timing.user)) userMessage.timing = timing.user;
+                  newMessages.push(userMessage);
+              }
+              if (tutorText) {
+                  const tutorMessage: Message = { role: 'ai', content: tutorText, modality: 'voice' };
+                  if (tutorTurnStartRef.current) {
+                      tutorMessage.startedAt = tutorTurnStartRef.current;
+                      tutorMessage.endedAt = turnEndedAt;
+                  }
+                  if (!isTimingEmpty(timing.coach)) tutorMessage.timing = timing.coach;
+                  // The examiner never corrects, so nothing it says should be read as a correction.
+                  const corrections = kind === 'exam' ? [] : extractCorrections(tutorText, userText || typedTurnTextRef.current);
+                  typedTurnTextRef.current = '';
+                  if (corrections.length > 0) tutorMessage.corrections = corrections;
+                  if (tutorClipId) tutorMessage.audioClipId = tutorClipId;
+                  newMessages.push(tutorMessage);
+              }
+              if (newMessages.length > 0) setMessages(prev => [...prev, ...newMessages]);
+          }
+          
+          currentUserTranscriptionRef.current = '';
+          currentTutorTranscriptionRef.current = '';
+          userTurnStartRef.current = null;
+          tutorTurnStartRef.current = null;
+          setDisplayUserTranscription('');
+          setDisplayTutorTranscription('');
+      };
+
+      const playCoachAudio = async (pcm: Uint8Array, sampleRate: number) => {
+          const audioContext = outputAudioContextRef.current;
+          if (!audioContext) return;
+          tutorAudioChunksRef.current.push(new Int16Array(pcm.buffer.slice(pcm.byteOffset, pcm.byteOffset + pcm.byteLength)));
+          tutorAudioSampleRateRef.current = sampleRate;
+          nextStartTimeRef.current = Math.max(nextStartTimeRef.current, audioContext.currentTime);
+
+          const audioBuffer = await decodeAudioData(pcm, audioContext, sampleRate, 1);
+          const source = audioContext.createBufferSource();
+          source.buffer = audioBuffer;
+          source.connect(audioContext.destination);
+          source.onended = () => audioPlaybackSources.current.delete(source);
+          turnTimerRef.current.playbackScheduled(Date.now() + Math.max(0, nextStartTimeRef.current - audioContext.currentTime) * 1000, audioBuffer.duration * 1000);
+          source.start(nextStartTimeRef.current);
+          nextStartTimeRef.current += audioBuffer.duration;
+          audioPlaybackSources.current.add(source);
+      };
+
+      let hasOpened = false;
+      let hasStartedCapture = false;
+
+      const connect = (resumeReason: 'loaded' | 'reconnected') => {
+          const { messages, level, topic, scenario, feedbackSettings, activeUnit } = sessionStateRef.current;
+          const systemInstruction = kind === 'drill'
+              ? buildDrillPrompt({ voiceName: coachVoice, level })
+              : kind === 'placement'
+              ? buildPlacementPrompt({ voiceName: coachVoice, turns: PLACEMENT_TURNS })
+              : kind === 'exam'
+              ? buildExaminerPrompt({ voiceName: coachVoice, messages: resumeReason === 'reconnected' ? messages : [], part: examStateRef.current?.part })
+              : buildSystemPrompt({ voiceName: coachVoice, level, topic, scenario, messages, resumeReason, profile: learnerProfileRef.current, feedback: feedbackSettings, unit: activeUnit ? findCourseUnit(activeUnit)?.unit : null, goal });
+          const connectionPromise: Promise<LiveConnection> = backend.connect(
+              { systemInstruction, voiceName: coachVoice },
+              event => handleBackendEvent(event, connectionPromise)
+          );
+          sessionPromiseRef.current = connectionPromise;
+          connectionPromise.catch(error => handleConnectionLost(connectionPromise, backend.classifyError(error), error));
+          return connectionPromise;
+      };
+
+      // Auth failures and failures before the first open end the session;
+      // anything else drops the connection but keeps the microphone, the
+      // transcript and the session running while we retry with backoff.
+      const handleConnectionLost = (connectionPromise: Promise<LiveConnection>, errorKind: BackendErrorKind, detail: unknown) => {
+          if (sessionPromiseRef.current !== connectionPromise) return;
+          console.error('Connection lost:', errorKind, detail);
+
+          if (errorKind === 'auth') {
+              if (backend.requiresApiKey) setIsApiKeyModalOpen(true);
+              stopSession(t('status.apiKeyRejected'));
+              return;
+          }
+          if (!hasOpened) {
+              stopSession(t('status.connectFailed'));
+              return;
+          }
+
+          sessionPromiseRef.current = null;
+          connectionPromise.then(connection => connection.close()).catch(() => {});
+          handleTurnComplete();
+          audioPlaybackSources.current.forEach(source => source.stop());
+          audioPlaybackSources.current.clear();
+          nextStartTimeRef.current = 0;
+          turnTimerRef.current.playbackStopped(Date.now());
+
+          const attempt = reconnectAttemptRef.current + 1;
+          if (attempt > MAX_RECONNECT_ATTEMPTS) {
+              stopSession(t('status.connectionLostSaved'));
+              return;
+          }
+          reconnectAttemptRef.current = attempt;
+          const delay = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** (attempt - 1));
+          setIsReconnecting(true);
+          setStatusMessage(t('status.reconnectingIn', { seconds: Math.round(delay / 1000), attempt, max: MAX_RECONNECT_ATTEMPTS }));
+          reconnectTimerRef.current = setTimeout(() => {
+              reconnectTimerRef.current = null;
+              setStatusMessage(t('status.reconnecting', { attempt, max: MAX_RECONNECT_ATTEMPTS }));
+              connect('reconnected');
+          }, delay);
+      };
+
+      const handleBackendEvent = (event: BackendEvent, connectionPromise: Promise<LiveConnection>) => {
+          if (sessionPromiseRef.current !== connectionPromise) return;
+          switch (event.type) {
+              case 'open':
+                  hasOpened = true;
+                  handleOpen();
+                  break;
+              case 'inputTranscript':
+                  userTurnStartRef.current ??= Date.now();
+                  currentUserTranscriptionRef.current += event.text;
+                  setDisplayUserTranscription(currentUserTranscriptionRef.current);
+                  break;
+              case 'outputTranscript':
+                  tutorTurnStartRef.current ??= Date.now();
+                  currentTutorTranscriptionRef.current += event.text;
+                  setDisplayTutorTranscription(currentTutorTranscriptionRef.current);
+                  break;
+              case 'turnComplete':
+                  handleTurnComplete();
+                  break;
+              case 'audio':
+                  playCoachAudio(event.pcm, event.sampleRate).catch(console.error);
+                  break;
+              case 'interrupted':
+                  audioPlaybackSources.current.forEach(source => source.stop());
+                  audioPlaybackSources.current.clear();
+                  nextStartTimeRef.current = 0;
+                  turnTimerRef.current.playbackStopped(Date.now());
+                  break;
+              case 'error':
+                  handleConnectionLost(connectionPromise, event.kind, event.cause ?? event.message);
+                  break;
+              case 'close':
+                  // Closes requested by stopSession() never get here because
+                  // the connection is no longer current by then.
+                  handleConnectionLost(connectionPromise, event.kind, event.reason);
+                  break;
+          }
+      };
+
+      connect('loaded');
 
     } catch (error) {
       console.error('Failed to start session:', error);
-      setStatusMessage('Microphone access denied. Please allow permission and try again.');
-      stopSession();
+      stopSession(inputMode === 'voice'
+        ? t('status.microphoneDenied')
+        : t('status.startFailed'));
     }
-  }, [isSessionActive, getSystemPrompt, stopSession, messages, coachVoice]);
+  }, [isSessionActive, stopSession, messages, coachVoice, takeTurnAudio, backendId, sendDrillTarget, goalSettings]);
   
   useEffect(() => {
     return () => { stopSession(); };
   }, [stopSession]);
+
+  useEffect(() => {
+    const refresh = () => listMicrophones().then(setMicrophones).catch(console.error);
+    refresh();
+    navigator.mediaDevices?.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refresh);
+  }, []);
+
+  const setTalkKeyDown = useCallback((isDown: boolean) => {
+    isTalkKeyDownRef.current = isDown;
+    setIsTalkKeyDown(isDown);
+  }, []);
+
+  // Push-to-talk: hold Space anywhere except while typing in a form field.
+  useEffect(() => {
+    if (inputSettings.mode !== 'push-to-talk') return;
+    const isTypingTarget = (target: EventTarget | null) =>
+      target instanceof HTMLElement && (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.isContentEditable);
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTypingTarget(e.target)) return;
+      e.preventDefault();
+      if (!e.repeat) setTalkKeyDown(true);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTypingTarget(e.target)) return;
+      e.preventDefault();
+      setTalkKeyDown(false);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      setTalkKeyDown(false);
+    };
+  }, [inputSettings.mode, setTalkKeyDown]);
   
+  // Typed turns go straight into the transcript. Without a running session
+  // the first one starts a text session and is sent once it connects; while
+  // reconnecting nothing is sent, as the resume prompt already includes it.
+  const handleSendText = (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = textInput.trim();
+    if (!text) return;
+    if (!isBackendReady) {
+      setIsApiKeyModalOpen(true);
+      return;
+    }
+    const now = Date.now();
+    setMessages(prev => [...prev, { role: 'user', content: text, modality: 'text', startedAt: now, endedAt: now }]);
+    setTextInput('');
+    typedTurnTextRef.current = text;
+
+    if (isSessionActive) {
+      turnTimerRef.current.typedTurn(now);
+      sessionPromiseRef.current?.then(connection => connection.sendText(text)).catch(console.error);
+    } else {
+      pendingTextRef.current.push(text);
+      if (!isStartingRef.current) startOrContinueSession('text');
+    }
+  };
+
+  const handleStartDrill = () => {
+    setDrillResult(null);
+    setSessionKind('drill');
+    startOrContinueSession('voice', 'drill');
+  };
+
+  const handleDrillNavigate = (index: number) => {
+    const target = drillTargets[index];
+    if (!target) return;
+    setDrillIndex(index);
+    setDrillResult(null);
+    // The ref is refreshed on the next render; update it now so the coach
+    // gets the new sentence straight away.
+    drillRef.current = { ...drillRef.current, target };
+    if (isSessionActive && sessionKind === 'drill') sendDrillTarget();
+  };
+
+  const handleDrillSourceChange = (source: DrillSource) => {
+    setDrillSource(source);
+    setDrillIndex(0);
+    setDrillResult(null);
+  };
+
   const handleMicButtonClick = () => {
-    if (!isApiKeySet) {
+    if (!isBackendReady) {
       setIsApiKeyModalOpen(true);
       return;
     }
@@ -380,14 +1066,118 @@ ${conversationInstructions}
     setMessages([]);
     setGeneralNotes('');
     setCurrentSessionId(null);
+    setActiveUnit(null);
+    setLoadedSessionFeedback(null);
     setDisplayUserTranscription('');
     setDisplayTutorTranscription('');
     currentUserTranscriptionRef.current = '';
     currentTutorTranscriptionRef.current = '';
     messagesAtSessionStart.current = [];
-    setStatusMessage('New session ready. Click the microphone to start.');
+    setStatusMessage(t('status.newSession'));
   }, [stopSession]);
 
+  const handleStartUnit = (ref: CourseUnitRef) => {
+    const courseUnit = findCourseUnit(ref);
+    if (!courseUnit) return;
+    const { unit } = courseUnit;
+    handleStartFreshSession();
+    setLevel(unit.level);
+    setScenario(unit.scenario ?? null);
+    if (unit.topic) setTopic(unit.topic);
+    setActiveUnit(ref);
+    setStatusMessage(t('status.unitReady', { unit: unit.title }));
+  };
+
+  // Starting straight from the handler would see the session that is being
+  // stopped as still active, so the start waits for the next render.
+  useEffect(() => {
+    if (!pendingStartKind || isSessionActive) return;
+    setPendingStartKind(null);
+    setSessionKind(pendingStartKind);
+    startOrContinueSession('voice', pendingStartKind);
+  }, [pendingStartKind, isSessionActive, startOrContinueSession]);
+
+  const handleStartPlacement = () => {
+    handleStartFreshSession();
+    setPendingStartKind('placement');
+  };
+
+  const handleStartExam = () => {
+    handleStartFreshSession();
+    setPendingStartKind('exam');
+  };
+
+  // The placement ends itself once the coach has answered the last answer,
+  // after its wrap-up has finished playing.
+  useEffect(() => {
+    if (!isSessionActive || sessionKind !== 'placement' || placementAnswers < PLACEMENT_TURNS) return;
+    if (messages[messages.length - 1]?.role !== 'ai') return;
+    const audioContext = outputAudioContextRef.current;
+    const remainingPlaybackMs = audioContext ? Math.max(0, nextStartTimeRef.current - audioContext.currentTime) * 1000 : 0;
+    const timer = setTimeout(() => stopSession(), remainingPlaybackMs);
+    return () => clearTimeout(timer);
+  }, [isSessionActive, sessionKind, placementAnswers, messages, stopSession]);
+
+  // Timed sessions tick once a second for the countdown, the coach's time
+  // warnings and the move from preparation to talking.
+  const hasSessionTimer = sessionTimer !== null || examState !== null;
+  useEffect(() => {
+    if (!hasSessionTimer) return;
+    const interval = setInterval(() => setTimerNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [hasSessionTimer]);
+
+  const timerUserTurns = sessionTimer ? messages.slice(sessionTimer.startMessageCount).filter(msg => msg.role === 'user').length : 0;
+  const timerCoachTurns = sessionTimer ? messages.slice(sessionTimer.startMessageCount).filter(msg => msg.role === 'ai').length : 0;
+
+  // Nothing can be sent while reconnecting, so the timer waits to move on until the connection is back.
+  useEffect(() => {
+    if (!isSessionActive || !sessionTimer || isReconnecting) return;
+    const { timer, message } = advanceSessionTimer(sessionTimer, timerNow, { userTurns: timerUserTurns, coachTurns: timerCoachTurns });
+    if (timer === sessionTimer) return;
+    setSessionTimer(timer);
+    if (message) sessionPromiseRef.current?.then(connection => connection.sendText(message)).catch(console.error);
+  }, [isSessionActive, isReconnecting, sessionTimer, timerNow, timerUserTurns, timerCoachTurns]);
+
+  // Once the goal is reached the coach gets one turn to wrap up. The session
+  // then ends itself after that turn has played, or after a grace period if
+  // the turn never comes.
+  useEffect(() => {
+    if (!isSessionActive || sessionTimer?.phase !== 'wrap-up') return;
+    const hasWrappedUp = timerCoachTurns > (sessionTimer.coachTurnsBeforeWrapUp ?? 0);
+    const audioContext = outputAudioContextRef.current;
+    const delay = hasWrappedUp
+      ? (audioContext ? Math.max(0, nextStartTimeRef.current - audioContext.currentTime) * 1000 : 0)
+      : Math.max(0, (sessionTimer.phaseEndsAt ?? 0) - Date.now());
+    const timer = setTimeout(() => stopSession(t('status.goalReached')), delay);
+    return () => clearTimeout(timer);
+  }, [isSessionActive, sessionTimer, timerCoachTurns, stopSession]);
+
+  const examUserTurns = examState ? messages.slice(examState.startMessageCount).filter(msg => msg.role === 'user').length : 0;
+  const examCoachTurns = examState ? messages.slice(examState.startMessageCount).filter(msg => msg.role === 'ai').length : 0;
+
+  // Tests move from part to part on the clock, the same way timed sessions do.
+  useEffect(() => {
+    if (!isSessionActive || !examState || isReconnecting) return;
+    const { exam, message } = advanceExam(examState, timerNow, { userTurns: examUserTurns, coachTurns: examCoachTurns });
+    if (exam === examState) return;
+    setExamState(exam);
+    if (message) sessionPromiseRef.current?.then(connection => connection.sendText(message)).catch(console.error);
+  }, [isSessionActive, isReconnecting, examState, timerNow, examUserTurns, examCoachTurns]);
+
+  // The test ends itself once the examiner's goodbye has played, or after a
+  // grace period if it never comes.
+  useEffect(() => {
+    if (!isSessionActive || examState?.phase !== 'closing') return;
+    const hasClosed = examCoachTurns > examState.coachTurnsAtPhaseStart;
+    const audioContext = outputAudioContextRef.current;
+    const delay = hasClosed
+      ? (audioContext ? Math.max(0, nextStartTimeRef.current - audioContext.currentTime) * 1000 : 0)
+      : Math.max(0, (examState.phaseEndsAt ?? 0) - Date.now());
+    const timer = setTimeout(() => stopSession(), delay);
+    return () => clearTimeout(timer);
+  }, [isSessionActive, examState, examCoachTurns, stopSession]);
+
   const handleLoadSession = (session: ConversationSession) => {
     if (isSessionActive) {
       stopSession();
@@ -395,82 +1185,356 @@ ${conversationInstructions}
     setMessages(session.messages);
     setLevel(session.level);
     setTopic(session.topic);
+    setScenario(session.scenario ?? null);
+    setLoadedSessionFeedback(session.feedback ?? null);
+    setActiveUnit(session.courseUnit ?? null);
     setGeneralNotes(session.notes?.general || '');
     setCurrentSessionId(session.id);
     messagesAtSessionStart.current = session.messages;
-    setStatusMessage('Viewing past session. Click the microphone to continue.');
+    setStatusMessage(t('status.viewingSession'));
     setIsHistoryOpen(false);
   };
 
+  const handleOpenSession = (sessionId: number) => {
+    const session = history.find(s => s.id === sessionId);
+    if (session) handleLoadSession(session);
+  };
+
   const handleDeleteSession = (sessionId: number) => {
-    if (window.confirm('Are you sure you want to delete this session?')) {
-      setHistory(prev => prev.filter(s => s.id !== sessionId));
+    if (window.confirm(t('confirm.deleteSession'))) {
+      deleteSession(sessionId)
+        .then(() => {
+          setHistory(prev => prev.filter(s => s.id !== sessionId));
+          setStoreRevision(r => r + 1);
+        })
+        .catch(handleStorageError);
     }
   };
 
   const handleClearHistory = () => {
-    if (window.confirm('Are you sure you want to delete all conversation history? This cannot be undone.')) {
-        setHistory([]);
+    if (window.confirm(t('confirm.clearHistory'))) {
+        clearSessions()
+          .then(() => {
+            setHistory([]);
+            setStoreRevision(r => r + 1);
+          })
+          .catch(handleStorageError);
     }
   };
 
   const handleSaveNotes = () => {
     if (!currentSessionId && messages.length === 0) {
-      alert("Please say something to your coach to start the conversation before saving.");
+      alert(t('alerts.saveNotesEmpty'));
       return;
     }
     const { isNew } = saveCurrentSession();
     if (isNew) {
-      alert("A new session has been created in your history and your notes have been saved.");
+      alert(t('alerts.notesCreated'));
     } else {
-      alert("Session progress and notes have been updated!");
+      alert(t('alerts.notesUpdated'));
+    }
+  };
+
+  const handleGradeReviewCard = (card: ReviewCard, grade: ReviewGrade) => {
+    setReviewSchedules(prev => ({ ...prev, [card.id]: scheduleReview(card.schedule, grade) }));
+  };
+
+  const handleExportSessions = (sessions: ConversationSession[], format: ExportFormat) => {
+    downloadSessionsExport(sessions, format).catch(e => {
+      console.error("Failed to export sessions:", e);
+      alert(t('alerts.exportFailed'));
+    });
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const { sessions, audio, renamedIds, reviews } = parseSessionsJson(await file.text(), historyRef.current, await listSessionIds());
+      for (const [clipId, clip] of Object.entries(audio)) {
+        await saveAudioClip(clipId, clip);
+      }
+      for (const session of sessions) {
+        await upsertSession(session);
+      }
+      const reviewsById = new Map(reviews.map(({ sessionId, review }) => [sessionId, review]));
+      const reviewedSessions = historyRef.current
+        .filter(session => reviewsById.has(session.id))
+        .map(session => ({ ...session, review: reviewsById.get(session.id) }));
+      for (const session of reviewedSessions) {
+        await upsertSession(session);
+      }
+      setHistory(prev => [...sessions, ...prev.map(s => reviewedSessions.find(r => r.id === s.id) ?? s)].sort((a, b) => b.date.localeCompare(a.date)));
+      setStoreRevision(r => r + 1);
+      alert([
+        ...(sessions.length > 0 || reviews.length === 0 ? [t('alerts.imported', { count: sessions.length })] : []),
+        ...(renamedIds > 0 ? [t('alerts.importedCopies', { count: renamedIds })] : []),
+        ...(reviews.length > 0 ? [t('alerts.importedReviews', { count: reviews.length })] : []),
+      ].join(' '));
+    } catch (err) {
+      if (err instanceof SessionImportError) {
+        alert(t('alerts.importFailed', { message: err.message }));
+      } else {
+        handleStorageError(err);
+      }
     }
   };
 
+  const handleSaveReview = (sessionId: number, review: TeacherReview) => {
+    const latest = historyRef.current.find(s => s.id === sessionId);
+    if (!latest) return null;
+    const reviewedSession: ConversationSession = { ...latest, review };
+    setHistory(prevHistory => prevHistory.map(s => s.id === sessionId ? reviewedSession : s));
+    persistSession(reviewedSession);
+    return reviewedSession;
+  };
+
+  const handleExportReview = (sessionId: number, review: TeacherReview) => {
+    const reviewedSession = handleSaveReview(sessionId, review);
+    if (reviewedSession) handleExportSessions([reviewedSession], 'json');
+  };
+
+  const handleSaveScenario = (updated: Scenario) => {
+    const next = scenarios.some(s => s.id === updated.id)
+      ? scenarios.map(s => s.id === updated.id ? updated : s)
+      : [...scenarios, updated];
+    setScenarios(next);
+    saveScenarios(next);
+    if (scenario?.id === updated.id) setScenario(updated);
+  };
+
+  const handleDeleteScenario = (scenarioId: string) => {
+    const next = scenarios.filter(s => s.id !== scenarioId);
+    setScenarios(next);
+    saveScenarios(next);
+    if (scenario?.id === scenarioId) setScenario(null);
+  };
+
+  const handleTopicChange = (value: string) => {
+    if (value.startsWith(SCENARIO_OPTION_PREFIX)) {
+      const scenarioId = value.slice(SCENARIO_OPTION_PREFIX.length);
+      setScenario(scenarios.find(s => s.id === scenarioId) ?? scenario);
+    } else {
+      setScenario(null);
+      setTopic(value);
+    }
+    setActiveUnit(null);
+  };
+
+  const handleInputSettingsChange = (changes: Partial<InputSettings>) => {
+    const updated = { ...inputSettings, ...changes };
+    setInputSettings(updated);
+    saveInputSettings(updated);
+  };
+
+  const handleFeedbackSettingsChange = (changes: Partial<FeedbackSettings>) => {
+    const updated = { ...feedbackSettings, ...changes };
+    setFeedbackSettings(updated);
+    saveFeedbackSettings(updated);
+    setLoadedSessionFeedback(null);
+  };
+
+  const handleGoalSettingsChange = (changes: Partial<GoalSettings>) => {
+    const updated = { ...goalSettings, ...changes };
+    setGoalSettings(updated);
+    saveGoalSettings(updated);
+  };
+
+  const handleFlaggedCategoryToggle = (category: CorrectionCategory, flagged: boolean) => {
+    const others = feedbackSettings.flaggedCategories.filter(c => c !== category);
+    handleFeedbackSettingsChange({ flaggedCategories: flagged ? [...others, category] : others });
+  };
+
+  const handleRequestFeedbackReview = () => {
+    sessionPromiseRef.current?.then(connection => connection.sendText(`${FEEDBACK_REVIEW_PREFIX} Please review my mistakes now.`)).catch(console.error);
+  };
+
+  const handleBackendChange = (id: BackendId) => {
+    setBackendId(id);
+    localStorage.setItem('voiceBackend', id);
+    if (id === 'gemini' && !isApiKeySet) {
+      setIsApiKeyModalOpen(true);
+    }
+  };
+
+  const handleLocaleChange = (locale: string) => {
+    setLocale(locale);
+    saveLocale(locale);
+    setUiLocale(locale);
+  };
+
+  // Everything on screen was loaded for the previous learner, so start the app over for the new one.
+  const handleSwitchLearner = (learnerId: string) => {
+    setCurrentLearnerId(learnerId);
+    const learner = learners.find(l => l.id === learnerId);
+    if (learner?.pinHash) markLearnerUnlocked(learnerId);
+    window.location.reload();
+  };
+
+  const handleUnlockLearner = () => {
+    markLearnerUnlocked(currentLearner.id);
+    setIsLearnerLocked(false);
+    setIsLearnerSwitcherOpen(false);
+  };
+
+  const handleSaveLearner = (learner: Learner) => {
+    const updated = learners.some(l => l.id === learner.id)
+      ? learners.map(l => l.id === learner.id ? learner : l)
+      : [...learners, learner];
+    setLearners(updated);
+    saveLearners(updated);
+  };
+
+  const handleDeleteLearner = (learnerId: string) => {
+    deleteLearnerSettings(learnerId);
+    deleteLearnerData(learnerId).catch(handleStorageError);
+    const updated = learners.filter(l => l.id !== learnerId);
+    setLearners(updated);
+    saveLearners(updated);
+  };
+
+  const handleReportEnabledChange = (enabled: boolean) => {
+    setIsReportEnabled(enabled);
+    localStorage.setItem(learnerKey('sessionReports'), enabled ? 'on' : 'off');
+  };
+
+  const handleProfileEnabledChange = (enabled: boolean) => {
+    setIsProfileEnabled(enabled);
+    localStorage.setItem(learnerKey('learnerProfileEnabled'), enabled ? 'on' : 'off');
+  };
+
+  const handleSaveProfile = (profile: LearnerProfile) => {
+    setEditedProfile(profile);
+    saveLearnerProfile(profile);
+  };
+
+  const handleResetProfile = () => {
+    setEditedProfile(null);
+    saveLearnerProfile(null);
+  };
+
+  const handleReportButtonClick = (session: ConversationSession) => {
+    if (session.report) {
+      setExpandedReportId(id => id === session.id ? null : session.id);
+    } else {
+      setExpandedReportId(session.id);
+      createSessionReport(session);
+    }
+  };
+
+  const handleTranscriptClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    // Buttons inside bubbles (corrections, audio clips) keep their own behaviour.
+    if ((e.target as HTMLElement).closest('button, a, input')) return;
+    const hit = getWordAtPoint(e.clientX, e.clientY);
+    if (!hit) {
+      setTappedWord(null);
+      return;
+    }
+    setTappedWord({
+      lookup: lookupWord(hit.word),
+      position: { x: hit.rect.left + hit.rect.width / 2, y: hit.rect.bottom },
+      context: hit.context,
+    });
+  };
+
+  const handleSaveWord = (tapped: TappedWord) => {
+    const savedWord: SavedWord = {
+      word: tapped.lookup.word,
+      addedAt: new Date().toISOString(),
+      context: tapped.context,
+    };
+    if (tapped.lookup.entry) savedWord.entry = tapped.lookup.entry;
+    saveWord(savedWord)
+      .then(() => setSavedWords(prev => [...prev.filter(w => w.word !== savedWord.word), savedWord]))
+      .catch(handleStorageError);
+  };
+
+  const handleRemoveWord = (word: string) => {
+    deleteSavedWord(word)
+      .then(() => setSavedWords(prev => prev.filter(w => w.word !== word)))
+      .catch(handleStorageError);
+  };
+
   const canSaveNotes = currentSessionId || isSessionActive;
 
   return (
     <div className="flex flex-col h-screen bg-gradient-to-br from-blue-50 to-indigo-100 font-sans">
       <div className="bg-gradient-to-r from-indigo-600 to-purple-600 text-white p-6 shadow-lg flex justify-between items-center">
         <div>
-          <h1 className="text-3xl font-bold">AI English Conversation Coach</h1>
-          <p className="text-indigo-100 mt-1">Practice your fluency and confidence with an AI partner.</p>
+          <h1 className="text-3xl font-bold">{t('app.title')}</h1>
+          <p className="text-indigo-100 mt-1">{t('app.subtitle')}</p>
         </div>
         <div className="flex items-center gap-4">
-           <button onClick={() => setIsNotesOpen(true)} title="Open session notes panel" className="flex items-center gap-2 text-white bg-white/20 hover:bg-white/30 font-medium py-2 px-4 rounded-lg transition-colors">
+           <button onClick={() => setIsNotesOpen(true)} title={t('header.notesTitle')} className="flex items-center gap-2 text-white bg-white/20 hover:bg-white/30 font-medium py-2 px-4 rounded-lg transition-colors">
             <ClipboardList size={20} />
-            <span>Session Notes</span>
+            <span>{t('header.notes')}</span>
+          </button>
+          <button onClick={() => setIsReviewOpen(true)} title={t('header.reviewTitle')} className="relative flex items-center gap-2 text-white bg-white/20 hover:bg-white/30 font-medium py-2 px-4 rounded-lg transition-colors">
+            <Layers size={20} />
+            <span>{t('header.review')}</span>
+            {dueReviewCount > 0 && <span className="absolute -top-2 -right-2 min-w-[1.5rem] h-6 px-1 bg-red-500 text-white text-xs font-bold rounded-full flex items-center justify-center">{dueReviewCount}</span>}
+          </button>
+          <button onClick={() => setIsCourseOpen(open => !open)} title={t('header.coursesTitle')} className="flex items-center gap-2 text-white bg-white/20 hover:bg-white/30 font-medium py-2 px-4 rounded-lg transition-colors">
+            <GraduationCap size={20} />
+            <span>{t('header.courses')}</span>
+          </button>
+          <button onClick={() => setIsDrillOpen(open => !open)} title={t('header.drillTitle')} className="flex items-center gap-2 text-white bg-white/20 hover:bg-white/30 font-medium py-2 px-4 rounded-lg transition-colors">
+            <Target size={20} />
+            <span>{t('header.drill')}</span>
+          </button>
+          <button onClick={() => setIsWordListOpen(open => !open)} title={t('header.wordListTitle')} className="flex items-center gap-2 text-white bg-white/20 hover:bg-white/30 font-medium py-2 px-4 rounded-lg transition-colors">
+            <BookOpen size={20} />
+            <span>{t('header.wordList')}</span>
           </button>
-          <button onClick={() => setIsHistoryOpen(true)} title="View past conversation sessions" className="flex items-center gap-2 text-white bg-white/20 hover:bg-white/30 font-medium py-2 px-4 rounded-lg transition-colors">
+          <button onClick={() => setIsHistoryOpen(true)} title={t('header.historyTitle')} className="flex items-center gap-2 text-white bg-white/20 hover:bg-white/30 font-medium py-2 px-4 rounded-lg transition-colors">
             <History size={20} />
-            <span>View History</span>
+            <span>{t('header.history')}</span>
           </button>
-          <button onClick={() => setIsHelpModalOpen(true)} title="Show help and instructions" className="flex items-center gap-2 text-white bg-white/20 hover:bg-white/30 font-medium py-2 px-4 rounded-lg transition-colors">
+          <button onClick={() => setIsProgressOpen(true)} title={t('header.progressTitle')} className="flex items-center gap-2 text-white bg-white/20 hover:bg-white/30 font-medium py-2 px-4 rounded-lg transition-colors">
+            <BarChart2 size={20} />
+            <span>{t('header.progress')}</span>
+          </button>
+          <button onClick={() => setIsLearnerSwitcherOpen(true)} title={t('header.learnerTitle')} className="flex items-center gap-2 text-white bg-white/20 hover:bg-white/30 font-medium py-2 px-4 rounded-lg transition-colors">
+            <User size={20} />
+            <span>{currentLearner.name}</span>
+          </button>
+          <button onClick={() => setIsHelpModalOpen(true)} title={t('header.helpTitle')} className="flex items-center gap-2 text-white bg-white/20 hover:bg-white/30 font-medium py-2 px-4 rounded-lg transition-colors">
             <HelpCircle size={20} />
-            <span>Help & Introduction</span>
+            <span>{t('header.help')}</span>
           </button>
         </div>
       </div>
       
+      {storageError && (
+        <div className="bg-red-100 border-b border-red-300 text-red-800 px-6 py-3 flex justify-between items-center">
+          <p className="text-sm font-medium">{storageError}</p>
+          <button onClick={() => setStorageError(null)} title={t('common.dismiss')} className="p-1 text-red-700 hover:bg-red-200 rounded-full transition"><X size={18} /></button>
+        </div>
+      )}
+
       {isApiKeyModalOpen && (
         <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 transition-opacity">
           <div className="bg-white rounded-2xl shadow-2xl p-8 max-w-lg w-full m-4 relative transition-transform transform scale-95">
-            <h2 className="text-2xl font-bold text-indigo-700 mb-4">Enter Your Google API Key</h2>
-            <p className="text-gray-600 mb-4">To use the AI Coach, you need a Google API key from Google AI Studio.</p>
+            <h2 className="text-2xl font-bold text-indigo-700 mb-4">{t('apiKey.title')}</h2>
+            <p className="text-gray-600 mb-4">{t('apiKey.intro')}</p>
             <ol className="list-decimal list-inside space-y-2 text-gray-700 bg-gray-50 p-4 rounded-lg border mb-4">
-              <li>Go to <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noopener noreferrer" className="text-indigo-600 font-semibold hover:underline">Google AI Studio</a>.</li>
-              <li>Click "Get API key" and create a new key.</li>
-              <li>Copy the key and paste it below.</li>
+              <li>{t('apiKey.step1')} <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noopener noreferrer" className="text-indigo-600 font-semibold hover:underline">Google AI Studio</a>.</li>
+              <li>{t('apiKey.step2')}</li>
+              <li>{t('apiKey.step3')}</li>
             </ol>
             <input 
               type="password"
               value={apiKeyInput}
               onChange={(e) => setApiKeyInput(e.target.value)}
-              placeholder="Paste your API Key here"
+              placeholder={t('apiKey.placeholder')}
               className="w-full p-3 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition mb-4"
               />
-            <button onClick={handleSaveApiKey} title="Save API Key" className="w-full bg-gradient-to-r from-indigo-600 to-purple-600 text-white py-3 rounded-lg font-semibold hover:from-indigo-700 hover:to-purple-700 transition shadow-md">
-              Save and Start
+            <button onClick={handleSaveApiKey} title={t('apiKey.saveTitle')} className="w-full bg-gradient-to-r from-indigo-600 to-purple-600 text-white py-3 rounded-lg font-semibold hover:from-indigo-700 hover:to-purple-700 transition shadow-md">
+              {t('apiKey.save')}
+            </button>
+            <button onClick={() => { handleBackendChange('mock'); setIsApiKeyModalOpen(false); setStatusMessage(t('status.offlineDemo')); }} title={t('apiKey.demoTitle')} className="w-full mt-3 text-sm font-semibold text-indigo-600 hover:text-indigo-800 hover:underline">
+              {t('apiKey.demo')}
             </button>
           </div>
         </div>
@@ -479,72 +1543,168 @@ ${conversationInstructions}
       {isHistoryOpen && (
         <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50" onClick={() => setIsHistoryOpen(false)}>
             <div className="bg-white rounded-2xl shadow-2xl p-8 max-w-3xl w-full m-4 relative transition-transform transform scale-95 flex flex-col h-[80vh]" onClick={(e) => e.stopPropagation()}>
-                <button onClick={() => setIsHistoryOpen(false)} title="Close history panel" className="absolute top-4 right-4 p-2 text-gray-500 hover:bg-gray-100 hover:text-gray-800 rounded-full transition"><X size={20} /></button>
-                <h2 className="text-2xl font-bold text-indigo-700 mb-4">Conversation History</h2>
+                <button onClick={() => setIsHistoryOpen(false)} title={t('history.closeTitle')} className="absolute top-4 right-4 p-2 text-gray-500 hover:bg-gray-100 hover:text-gray-800 rounded-full transition"><X size={20} /></button>
+                <div className="flex items-center justify-between mb-4 pr-10">
+                    <div>
+                        <h2 className="text-2xl font-bold text-indigo-700">{t('history.title')}</h2>
+                        <p className="text-sm text-gray-600">
+                            {dailyProgress.isTodayMet ? t('history.dailyGoalMet') : t('history.dailyGoalProgress', { minutes: Math.floor(dailyProgress.todayMs / 60000), goal: goalSettings.dailyMinutes })}
+                            {dailyProgress.streakDays > 0 && <> &bull; <span className="font-semibold text-orange-600">{t('history.streak', { days: dailyProgress.streakDays })}</span></>}
+                        </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <input ref={importInputRef} type="file" accept=".json,application/json" onChange={handleImportFile} className="hidden" />
+                        <button onClick={() => importInputRef.current?.click()} title={t('history.importTitle')} className="bg-indigo-100 text-indigo-700 font-semibold py-2 px-4 rounded-lg hover:bg-indigo-200 transition">{t('history.import')}</button>
+                        {history.length > 0 && (
+                            <select value="" onChange={(e) => handleExportSessions(history, e.target.value as ExportFormat)} title={t('history.exportAllTitle')} className="bg-indigo-100 text-indigo-700 font-semibold py-2 px-3 rounded-lg hover:bg-indigo-200 transition cursor-pointer">
+                                <option value="" disabled>{t('history.exportAll')}</option>
+                                {(['json', 'markdown', 'anki'] as ExportFormat[]).map(format => (<option key={format} value={format}>{t(`exportFormat.${format}`)}</option>))}
+                            </select>
+                        )}
+                    </div>
+                </div>
+                {history.length > 0 && (
+                    <input
+                      type="search"
+                      value={historyQuery}
+                      onChange={(e) => { setHistoryQuery(e.target.value); setHistoryLimit(HISTORY_PAGE_SIZE); }}
+                      placeholder={t('history.search')}
+                      className="w-full p-3 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition mb-4"
+                    />
+                )}
                 <div className="flex-1 overflow-y-auto pr-2 -mr-2">
                     {history.length === 0 ? (
                         <div className="text-center text-gray-500 mt-20">
-                            <p className="text-lg">No saved conversations yet.</p>
-                            <p>Your completed sessions will appear here.</p>
+                            <p className="text-lg">{t('history.empty')}</p>
+                            <p>{t('history.emptyHint')}</p>
+                        </div>
+                    ) : historyPage.total === 0 ? (
+                        <div className="text-center text-gray-500 mt-20">
+                            <p className="text-lg">{t('history.noMatches')}</p>
                         </div>
                     ) : (
                         <ul className="space-y-3">
-                            {history.map(session => (
+                            {historyPage.sessions.map(session => (
                                 <li key={session.id} className="bg-gray-50 border border-gray-200 rounded-lg p-4 hover:bg-indigo-50 hover:border-indigo-300 transition group">
                                     <div className="flex justify-between items-center">
                                         <div>
                                             <p className="font-semibold text-indigo-800">{session.topic}</p>
-                                            <p className="text-sm text-gray-600">{session.date} &bull; {session.level.split(':')[0]}</p>
+                                            <p className="text-sm text-gray-600">{new Date(session.date).toLocaleString()} &bull; {session.level.split(':')[0]} &bull; {t('history.corrections', { count: getSessionCorrections(session).length })}{assessmentsBySessionId.has(session.id) && <> &bull; <span className="font-semibold text-indigo-700" title={t('history.estimateTitle')}>{t('history.estimate', { level: assessmentsBySessionId.get(session.id)!.level })}</span></>}</p>
+                                            {session.goalResult && (
+                                                <p className={`text-sm ${session.goalResult.met ? 'text-green-700' : 'text-gray-500'}`}>
+                                                    {session.goalResult.met ? t('history.goalMet', { goal: describeGoal(session.goalResult.goal) }) : t('history.goalMissed', { goal: describeGoal(session.goalResult.goal), minutes: Math.round(session.goalResult.practisedMs / 60000), answers: session.goalResult.userTurns })}
+                                                </p>
+                                            )}
+                                            {session.exam && (
+                                                <p className="text-sm text-indigo-700">
+                                                    {session.exam.result?.overallBand != null ? t('history.examBand', { band: session.exam.result.overallBand }) : t('history.examNotScored')}
+                                                    {!session.exam.isComplete && ` · ${t('history.examStopped')}`}
+                                                </p>
+                                            )}
+                                            {session.review && (
+                                                <p className="text-sm text-green-700">{[session.review.reviewer && t('history.reviewedBy', { reviewer: session.review.reviewer }), formatRubric(session.review)].filter(Boolean).join(' · ')}</p>
+                                            )}
                                         </div>
                                         <div className="flex items-center gap-2">
-                                            <button onClick={() => handleLoadSession(session)} title="Load and view this session" className="bg-indigo-100 text-indigo-700 font-semibold py-2 px-4 rounded-lg hover:bg-indigo-200 transition">View</button>
-                                            <button onClick={() => handleDeleteSession(session.id)} title="Delete this session" className="bg-red-100 text-red-700 font-semibold py-2 px-4 rounded-lg hover:bg-red-200 transition">Delete</button>
+                                            <button onClick={() => handleLoadSession(session)} title={t('history.viewTitle')} className="bg-indigo-100 text-indigo-700 font-semibold py-2 px-4 rounded-lg hover:bg-indigo-200 transition">{t('history.view')}</button>
+                                            <button onClick={() => handleReportButtonClick(session)} disabled={reportingSessionIds.includes(session.id)} title={session.report ? t('history.showReportTitle') : t('history.createReportTitle')} className="bg-indigo-100 text-indigo-700 font-semibold py-2 px-4 rounded-lg hover:bg-indigo-200 transition disabled:opacity-50 disabled:cursor-wait">
+                                                {reportingSessionIds.includes(session.id) ? t('history.preparing') : session.report ? t('history.report') : t('history.createReport')}
+                                            </button>
+                                            {session.exam && (
+                                                <button onClick={() => setExamResultsSessionId(session.id)} title={t('history.examResultsTitle')} className="bg-indigo-100 text-indigo-700 font-semibold py-2 px-4 rounded-lg hover:bg-indigo-200 transition">
+                                                    {scoringExamIds.includes(session.id) ? t('history.examScoring') : t('history.examResults')}
+                                                </button>
+                                            )}
+                                            <button onClick={() => setReviewSessionId(session.id)} title={session.review ? t('history.feedbackTitle') : t('history.reviewTitle')} className={`font-semibold py-2 px-4 rounded-lg transition ${session.review ? 'bg-green-100 text-green-700 hover:bg-green-200' : 'bg-indigo-100 text-indigo-700 hover:bg-indigo-200'}`}>
+                                                {session.review ? t('history.feedback') : t('history.review')}
+                                            </button>
+                                            <select value="" onChange={(e) => handleExportSessions([session], e.target.value as ExportFormat)} title={t('history.exportTitle')} className="bg-indigo-100 text-indigo-700 font-semibold py-2 px-3 rounded-lg hover:bg-indigo-200 transition cursor-pointer">
+                                                <option value="" disabled>{t('history.export')}</option>
+                                                {EXPORT_FORMATS.map(format => (
+                                                    <option key={format} value={format} disabled={(format === 'srt' || format === 'vtt') && !hasTurnTimestamps(session)}>{t(`exportFormat.${format}`)}</option>
+                                                ))}
+                                            </select>
+                                            <button onClick={() => handleDeleteSession(session.id)} title={t('history.deleteTitle')} className="bg-red-100 text-red-700 font-semibold py-2 px-4 rounded-lg hover:bg-red-200 transition">{t('history.delete')}</button>
                                         </div>
                                     </div>
+                                    {expandedReportId === session.id && session.report && <ReportCard report={session.report} level={session.level} />}
                                 </li>
                             ))}
+                            {historyPage.sessions.length < historyPage.total && (
+                                <li>
+                                    <button onClick={() => setHistoryLimit(limit => limit + HISTORY_PAGE_SIZE)} title={t('history.loadMoreTitle')} className="w-full bg-indigo-50 text-indigo-700 font-semibold py-2 px-4 rounded-lg hover:bg-indigo-100 transition">
+                                        {t('history.loadMore', { count: historyPage.total - historyPage.sessions.length })}
+                                    </button>
+                                </li>
+                            )}
                         </ul>
                     )}
                 </div>
                 {history.length > 0 && (
-                    <button onClick={handleClearHistory} title="Delete all conversation history" className="mt-6 w-full bg-red-600 text-white py-3 rounded-lg font-semibold hover:bg-red-700 transition shadow-md">
-                        Clear All History
+                    <button onClick={handleClearHistory} title={t('history.clearTitle')} className="mt-6 w-full bg-red-600 text-white py-3 rounded-lg font-semibold hover:bg-red-700 transition shadow-md">
+                        {t('history.clear')}
                     </button>
                 )}
             </div>
         </div>
       )}
 
+      {reviewSession && (
+        <SessionReviewer
+          session={reviewSession}
+          onSave={(review) => handleSaveReview(reviewSession.id, review)}
+          onExport={(review) => handleExportReview(reviewSession.id, review)}
+          onClose={() => setReviewSessionId(null)}
+        />
+      )}
+
+      {examResultsSession?.exam && (
+        <ExamResults
+          session={examResultsSession}
+          isScoring={scoringExamIds.includes(examResultsSession.id)}
+          onScore={() => createExamResult(examResultsSession)}
+          onClose={() => setExamResultsSessionId(null)}
+        />
+      )}
+
+      {isScenarioEditorOpen && (
+        <ScenarioEditor scenarios={scenarios} onSave={handleSaveScenario} onDelete={handleDeleteScenario} onClose={() => setIsScenarioEditorOpen(false)} />
+      )}
+
+      {isProgressOpen && (
+        <ProgressDashboard history={history} levelHistory={levelHistory} onClose={() => setIsProgressOpen(false)} />
+      )}
+
       {isHelpModalOpen && (
         <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 transition-opacity" onClick={() => setIsHelpModalOpen(false)}>
           <div className="bg-white rounded-2xl shadow-2xl p-8 max-w-2xl w-full m-4 relative transition-transform transform scale-95" onClick={(e) => e.stopPropagation()}>
-            <button onClick={() => setIsHelpModalOpen(false)} title="Close help panel" className="absolute top-4 right-4 p-2 text-gray-500 hover:bg-gray-100 hover:text-gray-800 rounded-full transition"><X size={20} /></button>
-            <h2 className="text-2xl font-bold text-indigo-700 mb-4">How to Use Your AI Coach</h2>
-            <p className="text-gray-600 mb-6">Welcome to your personal English Conversation Coach! Here's a quick guide to get started:</p>
+            <button onClick={() => setIsHelpModalOpen(false)} title={t('help.closeTitle')} className="absolute top-4 right-4 p-2 text-gray-500 hover:bg-gray-100 hover:text-gray-800 rounded-full transition"><X size={20} /></button>
+            <h2 className="text-2xl font-bold text-indigo-700 mb-4">{t('help.title')}</h2>
+            <p className="text-gray-600 mb-6">{t('help.intro')}</p>
             <ol className="space-y-4 text-gray-700">
               <li className="flex items-start gap-3">
                 <div className="w-6 h-6 bg-indigo-100 text-indigo-600 font-bold rounded-full flex items-center justify-center flex-shrink-0">1</div>
-                <div><span className="font-semibold">Enter API Key:</span> First, set your Google API Key in the settings panel. This is a one-time setup.</div>
+                <div><span className="font-semibold">{t('help.step1Title')}</span> {t('help.step1')}</div>
               </li>
               <li className="flex items-start gap-3">
                 <div className="w-6 h-6 bg-indigo-100 text-indigo-600 font-bold rounded-full flex items-center justify-center flex-shrink-0">2</div>
-                <div><span className="font-semibold">Configure Your Session:</span> Use the <span className="font-semibold text-indigo-600">Settings</span> panel to choose your proficiency <span className="font-semibold">Level</span>, a conversation <span className="font-semibold">Topic</span>, and a <span className="font-semibold">Coach Voice</span>. Click <span className="italic">"Start New Session"</span> when ready.</div>
+                <div><span className="font-semibold">{t('help.step2Title')}</span> {t('help.step2')}</div>
               </li>
                <li className="flex items-start gap-3">
                 <div className="w-6 h-6 bg-indigo-100 text-indigo-600 font-bold rounded-full flex items-center justify-center flex-shrink-0">3</div>
-                <div><span className="font-semibold">Start Speaking:</span> Click the large <span className="font-semibold text-indigo-600">microphone button</span>. Your AI coach, {coachVoice}, will greet you and start a conversation based on your chosen topic.</div>
+                <div><span className="font-semibold">{t('help.step3Title')}</span> {t('help.step3', { coach: coachVoice })}</div>
               </li>
               <li className="flex items-start gap-3">
                 <div className="w-6 h-6 bg-indigo-100 text-indigo-600 font-bold rounded-full flex items-center justify-center flex-shrink-0">4</div>
-                <div><span className="font-semibold">Receive Feedback:</span> Your coach will provide instant feedback, gently correcting grammar and suggesting more natural ways to phrase things.</div>
+                <div><span className="font-semibold">{t('help.step4Title')}</span> {t('help.step4')}</div>
               </li>
               <li className="flex items-start gap-3">
                 <div className="w-6 h-6 bg-indigo-100 text-indigo-600 font-bold rounded-full flex items-center justify-center flex-shrink-0">5</div>
-                <div><span className="font-semibold">Review Your Progress:</span> After your session, find it saved in the <span className="font-semibold text-indigo-600">"View History"</span> menu to track your improvement over time.</div>
+                <div><span className="font-semibold">{t('help.step5Title')}</span> {t('help.step5')}</div>
               </li>
             </ol>
              <button onClick={() => setIsHelpModalOpen(false)} className="mt-8 w-full bg-gradient-to-r from-indigo-600 to-purple-600 text-white py-3 rounded-lg font-semibold hover:from-indigo-700 hover:to-purple-700 transition shadow-md">
-              Got it, let's practice!
+              {t('help.done')}
             </button>
           </div>
         </div>
@@ -553,58 +1713,250 @@ ${conversationInstructions}
       <div className="flex flex-1 overflow-hidden">
         {isSettingsOpen && (
           <div className="w-80 bg-white shadow-xl p-6 overflow-y-auto relative border-r border-gray-200 transition-all duration-300">
-            <button onClick={() => setIsSettingsOpen(false)} title="Close settings panel" className="absolute top-4 right-4 p-2 text-gray-500 hover:bg-gray-100 hover:text-gray-800 rounded-lg transition"><X size={20} /></button>
-            <h2 className="text-xl font-bold mb-6 text-indigo-700 flex items-center gap-2"><Settings size={22} />Settings</h2>
+            <button onClick={() => setIsSettingsOpen(false)} title={t('settings.closeTitle')} className="absolute top-4 right-4 p-2 text-gray-500 hover:bg-gray-100 hover:text-gray-800 rounded-lg transition"><X size={20} /></button>
+            <h2 className="text-xl font-bold mb-6 text-indigo-700 flex items-center gap-2"><Settings size={22} />{t('settings.title')}</h2>
             <div className="mb-6 p-4 bg-gradient-to-r from-purple-50 to-indigo-50 rounded-lg border border-indigo-200">
-              <h3 className="font-semibold mb-2 text-indigo-800">👋 Meet Your Coach, {coachVoice}!</h3>
-              <p className="text-sm text-gray-700 leading-relaxed">I'll chat with you on different topics to help improve your English fluency and confidence. I'll provide feedback and corrections along the way. Let's get started!</p>
+              <h3 className="font-semibold mb-2 text-indigo-800">{t('settings.meetCoach', { coach: coachVoice })}</h3>
+              <p className="text-sm text-gray-700 leading-relaxed">{t('settings.coachIntro')}</p>
+            </div>
+            <div className="mb-4">
+              <label className="block text-sm font-semibold mb-2 text-gray-700">{t('settings.uiLanguage')}</label>
+              <select value={uiLocale} onChange={(e) => handleLocaleChange(e.target.value)} className="w-full p-3 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition">
+                {Object.entries(LOCALES).map(([locale, { name }]) => (<option key={locale} value={locale}>{name}</option>))}
+              </select>
             </div>
             <div className="mb-4">
-              <label className="block text-sm font-semibold mb-2 text-gray-700">Level</label>
-              <select value={level} onChange={(e) => setLevel(e.target.value)} disabled={!isApiKeySet} className="w-full p-3 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition disabled:bg-gray-100 disabled:cursor-not-allowed">
+              <label className="block text-sm font-semibold mb-2 text-gray-700">{t('settings.level')}</label>
+              <select value={level} onChange={(e) => setLevel(e.target.value)} disabled={!isBackendReady} className="w-full p-3 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition disabled:bg-gray-100 disabled:cursor-not-allowed">
                 {LEVELS.map((l) => (<option key={l} value={l}>{l}</option>))}
               </select>
+              {latestAssessment && (
+                <p className="mt-2 text-xs text-gray-500">{t('settings.latestEstimate')} <span className="font-semibold text-indigo-700">{latestAssessment.level}</span> ({latestAssessment.source === 'placement' ? t('settings.estimateFromPlacement') : t('settings.estimateFromSession')}, {new Date(latestAssessment.assessedAt).toLocaleDateString()})</p>
+              )}
+              <button onClick={handleStartPlacement} disabled={!isBackendReady || isSessionActive} title={t('settings.findLevelTitle')} className="mt-2 text-sm font-semibold text-indigo-600 hover:text-indigo-800 hover:underline disabled:text-gray-400 disabled:no-underline disabled:cursor-not-allowed">
+                {t('settings.findLevel')}
+              </button>
             </div>
             <div className="mb-4">
-              <label className="block text-sm font-semibold mb-2 text-gray-700">Topic</label>
-              <select value={topic} onChange={(e) => setTopic(e.target.value)} disabled={!isApiKeySet} className="w-full p-3 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition disabled:bg-gray-100 disabled:cursor-not-allowed">
-                {TOPICS.map((t) => (<option key={t} value={t}>{t}</option>))}
+              <label className="block text-sm font-semibold mb-2 text-gray-700">{t('settings.topic')}</label>
+              <select value={scenario ? `${SCENARIO_OPTION_PREFIX}${scenario.id}` : topic} onChange={(e) => handleTopicChange(e.target.value)} disabled={!isBackendReady} className="w-full p-3 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition disabled:bg-gray-100 disabled:cursor-not-allowed">
+                <optgroup label={t('settings.topicsGroup')}>
+                  {TOPICS.map((topicOption) => (<option key={topicOption} value={topicOption}>{topicOption}</option>))}
+                </optgroup>
+                {(scenarios.length > 0 || scenario) && (
+                  <optgroup label={t('settings.scenariosGroup')}>
+                    {scenarios.map((s) => (<option key={s.id} value={`${SCENARIO_OPTION_PREFIX}${s.id}`}>{s.title}</option>))}
+                    {scenario && !scenarios.some(s => s.id === scenario.id) && (<option value={`${SCENARIO_OPTION_PREFIX}${scenario.id}`}>{scenario.title}</option>)}
+                  </optgroup>
+                )}
               </select>
+              <button onClick={() => setIsScenarioEditorOpen(true)} title={t('settings.manageScenariosTitle')} className="mt-2 text-sm font-semibold text-indigo-600 hover:text-indigo-800 hover:underline">
+                {t('settings.manageScenarios')}
+              </button>
             </div>
              <div className="mb-6">
-              <label className="block text-sm font-semibold mb-2 text-gray-700">Coach Voice</label>
-              <select value={coachVoice} onChange={(e) => setCoachVoice(e.target.value)} disabled={isSessionActive || !isApiKeySet} className="w-full p-3 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition disabled:bg-gray-100 disabled:cursor-not-allowed">
+              <label className="block text-sm font-semibold mb-2 text-gray-700">{t('settings.coachVoice')}</label>
+              <select value={coachVoice} onChange={(e) => setCoachVoice(e.target.value)} disabled={isSessionActive || !isBackendReady} className="w-full p-3 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition disabled:bg-gray-100 disabled:cursor-not-allowed">
                 {COACH_VOICES.map((v) => (<option key={v} value={v}>{v}</option>))}
               </select>
             </div>
+            <div className="mb-4">
+              <label className="block text-sm font-semibold mb-2 text-gray-700">{t('settings.feedbackStyle')}</label>
+              <select value={feedbackSettings.style} onChange={(e) => handleFeedbackSettingsChange({ style: e.target.value as FeedbackStyle })} disabled={isSessionActive} className="w-full p-3 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition disabled:bg-gray-100 disabled:cursor-not-allowed">
+                {FEEDBACK_STYLES.map(style => (<option key={style} value={style}>{t(`feedbackStyle.${style}`)}</option>))}
+              </select>
+              {loadedSessionFeedback && JSON.stringify(loadedSessionFeedback) !== JSON.stringify(feedbackSettings) && (
+                <p className="text-xs text-gray-500 mt-2">{t('settings.sessionFeedback', { style: t(`feedbackStyle.${loadedSessionFeedback.style as FeedbackStyle}`) })}</p>
+              )}
+              {feedbackSettings.style !== 'fluency' && (
+                <div className="mt-3">
+                  <p className="text-xs font-semibold mb-1 text-gray-600">{t('settings.flaggedCategories')}</p>
+                  <div className="grid grid-cols-2 gap-1">
+                    {FLAGGABLE_CATEGORIES.map(category => (
+                      <label key={category} className="flex items-center gap-1 text-xs text-gray-700 cursor-pointer">
+                        <input type="checkbox" checked={feedbackSettings.flaggedCategories.includes(category)} onChange={(e) => handleFlaggedCategoryToggle(category, e.target.checked)} disabled={isSessionActive} className="w-3 h-3 accent-indigo-600" />
+                        {t(`category.${category}`)}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+            <div className="mb-4">
+              <label className="block text-sm font-semibold mb-2 text-gray-700">{t('settings.nativeLanguage')}</label>
+              <select value={feedbackSettings.explanationLanguage ?? ''} onChange={(e) => handleFeedbackSettingsChange({ explanationLanguage: e.target.value })} disabled={isSessionActive} className="w-full p-3 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition disabled:bg-gray-100 disabled:cursor-not-allowed">
+                <option value="">{t('settings.nativeLanguageOff')}</option>
+                {NATIVE_LANGUAGES.map(language => (<option key={language} value={language}>{language}</option>))}
+              </select>
+              <p className="mt-1 text-xs text-gray-500">{t('settings.nativeLanguageHint')}</p>
+            </div>
+            <div className="mb-6">
+              <label className="block text-sm font-semibold mb-2 text-gray-700">{t('settings.pace')}</label>
+              <select value={feedbackSettings.pace} onChange={(e) => handleFeedbackSettingsChange({ pace: e.target.value as SpeakingPace })} disabled={isSessionActive} className="w-full p-3 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition disabled:bg-gray-100 disabled:cursor-not-allowed">
+                {SPEAKING_PACES.map(pace => (<option key={pace} value={pace}>{t(`pace.${pace}`)}</option>))}
+              </select>
+            </div>
+            <div className="mb-6">
+              <label className="block text-sm font-semibold mb-2 text-gray-700">{t('settings.sessionGoal')}</label>
+              <select value={goalSettings.mode} onChange={(e) => handleGoalSettingsChange({ mode: e.target.value as PracticeModeId })} disabled={isSessionActive} className="w-full p-3 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition disabled:bg-gray-100 disabled:cursor-not-allowed">
+                {PRACTICE_MODES.map(mode => (<option key={mode} value={mode}>{t(`practiceMode.${mode}`)}</option>))}
+              </select>
+              {goalSettings.mode === 'timed' && (
+                <select value={goalSettings.minutes} onChange={(e) => handleGoalSettingsChange({ minutes: Number(e.target.value) })} disabled={isSessionActive} className="w-full mt-2 p-3 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition disabled:bg-gray-100 disabled:cursor-not-allowed">
+                  {GOAL_MINUTE_OPTIONS.map(minutes => (<option key={minutes} value={minutes}>{t('settings.goalMinutes', { minutes })}</option>))}
+                </select>
+              )}
+              {goalSettings.mode === 'turns' && (
+                <select value={goalSettings.turns} onChange={(e) => handleGoalSettingsChange({ turns: Number(e.target.value) })} disabled={isSessionActive} className="w-full mt-2 p-3 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition disabled:bg-gray-100 disabled:cursor-not-allowed">
+                  {GOAL_TURN_OPTIONS.map(turns => (<option key={turns} value={turns}>{t('settings.goalTurns', { turns })}</option>))}
+                </select>
+              )}
+              <p className="mt-1 text-xs text-gray-500">{t('settings.sessionGoalHint')}</p>
+            </div>
+            <div className="mb-6">
+              <label className="block text-sm font-semibold mb-2 text-gray-700">{t('settings.exam')}</label>
+              <p className="text-xs text-gray-500">{t('settings.examHint')}</p>
+              <button onClick={handleStartExam} disabled={!isBackendReady || isSessionActive} title={t('settings.startExamTitle')} className="mt-2 text-sm font-semibold text-indigo-600 hover:text-indigo-800 hover:underline disabled:text-gray-400 disabled:no-underline disabled:cursor-not-allowed">
+                {t('settings.startExam')}
+              </button>
+            </div>
+            <div className="mb-6">
+              <label className="block text-sm font-semibold mb-2 text-gray-700">{t('settings.dailyGoal')}</label>
+              <select value={goalSettings.dailyMinutes} onChange={(e) => handleGoalSettingsChange({ dailyMinutes: Number(e.target.value) })} className="w-full p-3 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition">
+                {GOAL_MINUTE_OPTIONS.map(minutes => (<option key={minutes} value={minutes}>{t('settings.goalMinutesPerDay', { minutes })}</option>))}
+              </select>
+              <p className="mt-1 text-xs text-gray-500">
+                {t('settings.dailyProgress', { minutes: Math.floor(dailyProgress.todayMs / 60000), goal: goalSettings.dailyMinutes })}
+                {dailyProgress.streakDays > 0 && ` ${t('settings.streak', { days: dailyProgress.streakDays })}`}
+              </p>
+            </div>
+            <div className="mb-6">
+              <label className="block text-sm font-semibold mb-2 text-gray-700">{t('settings.backend')}</label>
+              <select value={backendId} onChange={(e) => handleBackendChange(e.target.value as BackendId)} disabled={isSessionActive} className="w-full p-3 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition disabled:bg-gray-100 disabled:cursor-not-allowed">
+                <option value="gemini">{t('settings.backendGemini')}</option>
+                <option value="mock">{t('settings.backendMock')}</option>
+              </select>
+            </div>
+            <div className="mb-4">
+              <label className="block text-sm font-semibold mb-2 text-gray-700">{t('settings.microphone')}</label>
+              <select value={inputSettings.deviceId} onChange={(e) => handleInputSettingsChange({ deviceId: e.target.value })} disabled={isSessionActive} className="w-full p-3 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition disabled:bg-gray-100 disabled:cursor-not-allowed">
+                <option value="">{t('settings.systemDefault')}</option>
+                {microphones.filter(m => m.deviceId && m.deviceId !== 'default').map((m, idx) => (<option key={m.deviceId} value={m.deviceId}>{m.label || t('settings.microphoneNumbered', { number: idx + 1 })}</option>))}
+              </select>
+            </div>
+            <div className="mb-6">
+              <label className="block text-sm font-semibold mb-2 text-gray-700">{t('settings.inputMode')}</label>
+              <select value={inputSettings.mode} onChange={(e) => handleInputSettingsChange({ mode: e.target.value as InputMode })} className="w-full p-3 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition">
+                {INPUT_MODES.map(mode => (<option key={mode} value={mode}>{t(`inputMode.${mode}`)}</option>))}
+              </select>
+              {inputSettings.mode === 'vad' && (
+                <div className="mt-3">
+                  <label htmlFor="vad-threshold" className="block text-xs font-semibold mb-1 text-gray-600">{t('settings.vadThreshold', { percent: Math.round(inputSettings.vadThreshold / METER_FULL_SCALE * 100) })}</label>
+                  <input id="vad-threshold" type="range" min={0.005} max={0.2} step={0.005} value={inputSettings.vadThreshold} onChange={(e) => handleInputSettingsChange({ vadThreshold: Number(e.target.value) })} className="w-full accent-indigo-600" />
+                  <p className="text-xs text-gray-500">{t('settings.vadHint')}</p>
+                </div>
+              )}
+            </div>
+            <label className="mb-6 flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+              <input type="checkbox" checked={isReportEnabled} onChange={(e) => handleReportEnabledChange(e.target.checked)} className="w-4 h-4 accent-indigo-600" />
+              {t('settings.reports')}
+            </label>
+            <div className="mb-6">
+              <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                <input type="checkbox" checked={isProfileEnabled} onChange={(e) => handleProfileEnabledChange(e.target.checked)} className="w-4 h-4 accent-indigo-600" />
+                {t('settings.profile')}
+              </label>
+              <button onClick={() => setIsProfileEditorOpen(true)} title={t('settings.profileTitle')} className="mt-2 ml-6 text-sm font-semibold text-indigo-600 hover:text-indigo-800 hover:underline">
+                {isProfileEmpty(learnerProfile) ? t('settings.profileEmpty') : t('settings.profileEdit')}
+              </button>
+            </div>
             <button 
               onClick={() => setIsApiKeyModalOpen(true)} 
-              title="Set your Google API Key"
+              title={t('settings.apiKeyTitle')}
               className="w-full mb-2 bg-white text-indigo-600 border border-indigo-600 py-3 rounded-lg font-semibold hover:bg-indigo-50 transition shadow-sm flex items-center justify-center gap-2 disabled:bg-gray-100 disabled:text-gray-500 disabled:border-gray-300 disabled:cursor-not-allowed"
               disabled={isApiKeySet}
             >
-              <Key size={18} /> {isApiKeySet ? 'API Key Set' : 'Set API Key'}
+              <Key size={18} /> {isApiKeySet ? t('settings.apiKeySet') : t('settings.setApiKey')}
             </button>
-            <button onClick={handleStartFreshSession} title="Start a fresh conversation" className="w-full bg-gradient-to-r from-indigo-600 to-purple-600 text-white py-3 rounded-lg font-semibold hover:from-indigo-700 hover:to-purple-700 transition shadow-md disabled:opacity-50 disabled:cursor-not-allowed" disabled={!isApiKeySet}>
-              🔄 Start New Session
+            <button onClick={handleStartFreshSession} title={t('settings.newSessionTitle')} className="w-full bg-gradient-to-r from-indigo-600 to-purple-600 text-white py-3 rounded-lg font-semibold hover:from-indigo-700 hover:to-purple-700 transition shadow-md disabled:opacity-50 disabled:cursor-not-allowed" disabled={!isBackendReady}>
+              {t('settings.newSession')}
             </button>
           </div>
         )}
 
         <div className="flex-1 flex flex-col bg-white/50">
-          {!isSettingsOpen && (<button onClick={() => setIsSettingsOpen(true)} title="Open settings panel" className="absolute top-24 left-4 p-3 bg-indigo-600 text-white rounded-full shadow-lg hover:bg-indigo-700 transition z-10"><Menu size={20} /></button>)}
-          <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {!isSettingsOpen && (<button onClick={() => setIsSettingsOpen(true)} title={t('settings.openTitle')} className="absolute top-24 left-4 p-3 bg-indigo-600 text-white rounded-full shadow-lg hover:bg-indigo-700 transition z-10"><Menu size={20} /></button>)}
+          {showLevelRecommendation && levelRecommendation && (
+            <div className={`mx-6 mt-4 p-4 rounded-lg border flex items-center justify-between gap-4 ${levelRecommendation.direction === 'up' ? 'bg-indigo-50 border-indigo-200 text-indigo-800' : 'bg-amber-50 border-amber-200 text-amber-800'}`}>
+              <p className="text-sm">{t(levelRecommendation.direction === 'up' ? 'main.recommendUp' : 'main.recommendDown', { threshold: levelRecommendation.threshold, count: levelRecommendation.sessionCount, current: getLevelCode(level), level: getLevelCode(levelRecommendation.level) })}</p>
+              <div className="flex gap-2 flex-shrink-0">
+                <button onClick={() => setLevel(levelRecommendation.level)} title={t('main.switchLevelTitle', { level: levelRecommendation.level })} className="bg-indigo-600 text-white text-sm font-semibold py-2 px-4 rounded-lg hover:bg-indigo-700 transition">{t('main.switchLevel', { level: getLevelCode(levelRecommendation.level) })}</button>
+                <button onClick={() => setDismissedRecommendation(`${level}>${levelRecommendation.level}`)} title={t('main.keepLevelTitle')} className="bg-white/70 text-gray-700 text-sm font-semibold py-2 px-4 rounded-lg hover:bg-white transition">{t('main.notNow')}</button>
+              </div>
+            </div>
+          )}
+          {activeCourseUnit && activeUnitEvaluation && sessionKind === 'conversation' && (
+            <div className="mx-6 mt-4 p-3 rounded-lg border bg-indigo-50 border-indigo-200 text-indigo-800 text-sm text-center">
+              {t('main.unitProgress', {
+                unit: activeCourseUnit.unit.title,
+                answers: Math.min(activeUnitEvaluation.userTurns, activeCourseUnit.unit.completion.minUserTurns),
+                minAnswers: activeCourseUnit.unit.completion.minUserTurns,
+                phrases: Math.min(activeUnitEvaluation.phrasesUsed.length, activeCourseUnit.unit.completion.minPhrasesUsed),
+                minPhrases: activeCourseUnit.unit.completion.minPhrasesUsed,
+              })}
+            </div>
+          )}
+          {sessionTimer && isSessionActive && (
+            <div className={`mx-6 mt-4 p-3 rounded-lg border text-sm text-center font-semibold ${sessionTimer.phase === 'talk' && sessionTimer.phaseEndsAt !== null && sessionTimer.phaseEndsAt - timerNow <= 30000 ? 'bg-amber-50 border-amber-300 text-amber-800' : 'bg-indigo-50 border-indigo-200 text-indigo-800'}`}>
+              {sessionTimer.phase === 'cue-card'
+                ? t('timer.cueCard')
+                : sessionTimer.phase === 'prep'
+                ? t('timer.prep', { time: formatCountdown((sessionTimer.phaseEndsAt ?? timerNow) - timerNow) })
+                : sessionTimer.phase === 'wrap-up'
+                ? t('timer.wrapUp')
+                : sessionTimer.phaseEndsAt !== null
+                ? t('timer.timeLeft', { time: formatCountdown(sessionTimer.phaseEndsAt - timerNow) })
+                : t('timer.answers', { count: timerUserTurns, total: sessionTimer.goal.turns ?? 0 })}
+            </div>
+          )}
+          {examState && isSessionActive && (
+            <div className={`mx-6 mt-4 p-3 rounded-lg border text-sm text-center font-semibold ${examState.phaseEndsAt !== null && examState.phase !== 'closing' && examState.phaseEndsAt - timerNow <= 30000 ? 'bg-amber-50 border-amber-300 text-amber-800' : 'bg-indigo-50 border-indigo-200 text-indigo-800'}`}>
+              {t(`examPart.${examState.part as ExamPart}`)} &bull; {examState.phase === 'cue-card'
+                ? t('exam.cueCard')
+                : examState.phase === 'prep'
+                ? t('exam.prep', { time: formatCountdown((examState.phaseEndsAt ?? timerNow) - timerNow) })
+                : examState.phase === 'closing'
+                ? t('exam.closing')
+                : t('exam.timeLeft', { time: formatCountdown((examState.phaseEndsAt ?? timerNow) - timerNow) })}
+            </div>
+          )}
+          {sessionKind === 'placement' && isSessionActive && (
+            <div className="mx-6 mt-4 p-3 rounded-lg border bg-indigo-50 border-indigo-200 text-indigo-800 text-sm text-center">
+              {t('main.placementProgress', { count: Math.min(placementAnswers, PLACEMENT_TURNS), total: PLACEMENT_TURNS })}
+            </div>
+          )}
+          <div className="flex-1 overflow-y-auto p-6 space-y-4" onClick={handleTranscriptClick} onScroll={() => setTappedWord(null)}>
             {messages.length === 0 && !isSessionActive && (
               <div className="text-center text-gray-500 mt-20 flex flex-col items-center">
                 <Volume2 size={48} className="mx-auto mb-4 text-indigo-400" />
-                <p className="text-lg">Your session is ready.</p><p>{isApiKeySet ? 'Press the microphone button to begin your voice conversation.' : 'Please set your API Key in the settings first.'}</p>
+                <p className="text-lg">{t('main.sessionReady')}</p><p>{isBackendReady ? t('main.pressMic') : t('main.setKeyFirst')}</p>
               </div>
             )}
             {messages.map((msg, idx) => (
               <div key={idx} className={`flex items-end gap-2 ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
                 {msg.role === 'ai' && <div className="w-8 h-8 rounded-full bg-gradient-to-br from-purple-500 to-indigo-500 flex-shrink-0 text-white font-bold text-sm flex items-center justify-center">{coachVoice.charAt(0)}</div>}
-                <div className={`max-w-[80%] p-4 rounded-2xl ${msg.role === 'user' ? 'bg-gradient-to-r from-indigo-500 to-purple-500 text-white rounded-br-none' : 'bg-gray-100 text-gray-800 border border-gray-200 rounded-bl-none'}`}>
-                  <p className="whitespace-pre-wrap leading-relaxed">{msg.content}</p>
+                <div data-message className={`max-w-[80%] p-4 rounded-2xl ${msg.role === 'user' ? 'bg-gradient-to-r from-indigo-500 to-purple-500 text-white rounded-br-none' : 'bg-gray-100 text-gray-800 border border-gray-200 rounded-bl-none'}`}>
+                  {msg.modality === 'text' && <p className="flex items-center gap-1 text-xs opacity-75 mb-1"><Keyboard size={12} />{t('main.typed')}</p>}
+                  {msg.role === 'user' && messages[idx + 1]?.role === 'ai' && messages[idx + 1].corrections?.length
+                    ? <CorrectionDiff content={msg.content} corrections={messages[idx + 1].corrections!} />
+                    : msg.role === 'ai' && msg.corrections?.length
+                      ? <CoachFeedback content={msg.content} />
+                      : <p className="whitespace-pre-wrap leading-relaxed">{msg.content}</p>}
+                  {msg.audioClipId && (
+                    <div className={`flex mt-2 ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                      <AudioClipButton clipId={msg.audioClipId} className={msg.role === 'user' ? 'bg-white/20 hover:bg-white/30 text-white' : 'bg-indigo-100 hover:bg-indigo-200 text-indigo-700'} />
+                    </div>
+                  )}
                 </div>
               </div>
             ))}
@@ -614,41 +1966,152 @@ ${conversationInstructions}
           </div>
 
           <div className="p-6 bg-white/80 backdrop-blur-sm border-t border-gray-200">
+            <form onSubmit={handleSendText} className="flex gap-2 mb-4 max-w-3xl mx-auto">
+              <input
+                value={textInput}
+                onChange={(e) => setTextInput(e.target.value)}
+                disabled={!isBackendReady || sessionKind === 'drill'}
+                placeholder={isSessionActive ? t('main.typeMessage') : t('main.typeToStart')}
+                className="flex-1 p-3 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition disabled:bg-gray-100 disabled:cursor-not-allowed"
+              />
+              <button type="submit" disabled={!isBackendReady || sessionKind === 'drill' || !textInput.trim()} title={t('main.sendTitle')} className="bg-indigo-600 text-white px-4 rounded-lg hover:bg-indigo-700 transition disabled:opacity-50 disabled:cursor-not-allowed"><Send size={20} /></button>
+            </form>
             <div className="flex justify-center">
-              <button onClick={handleMicButtonClick} disabled={!isApiKeySet} title={isSessionActive ? 'Stop session' : 'Start session'} className={`p-6 rounded-full shadow-2xl transition-all transform hover:scale-110 ${isSessionActive ? 'bg-red-500 hover:bg-red-600 animate-pulse' : 'bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-700 hover:to-purple-700'} disabled:bg-gray-400 disabled:cursor-not-allowed disabled:scale-100`}>
+              <button onClick={handleMicButtonClick} disabled={!isBackendReady} title={isSessionActive ? t('main.stopSession') : t('main.startSession')} className={`p-6 rounded-full shadow-2xl transition-all transform hover:scale-110 ${isReconnecting ? 'bg-amber-500 hover:bg-amber-600 animate-pulse' : isSessionActive ? 'bg-red-500 hover:bg-red-600 animate-pulse' : 'bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-700 hover:to-purple-700'} disabled:bg-gray-400 disabled:cursor-not-allowed disabled:scale-100`}>
                 {isSessionActive ? <MicOff size={32} className="text-white" /> : <Mic size={32} className="text-white" />}
               </button>
             </div>
-            <p className="text-center mt-3 text-sm text-gray-600 h-5">{statusMessage}</p>
+            {isSessionActive && sessionKind === 'conversation' && sessionFeedback.style === 'deferred' && (
+              <div className="flex justify-center mt-3">
+                <button onClick={handleRequestFeedbackReview} title={t('main.reviewMistakesTitle')} className="text-sm font-semibold py-2 px-4 rounded-lg bg-indigo-100 text-indigo-700 hover:bg-indigo-200 transition">{t('main.reviewMistakes')}</button>
+              </div>
+            )}
+            {isMicrophoneLive && (
+              <div className="flex items-center justify-center gap-3 mt-3">
+                <div className="relative h-2 w-48 bg-gray-200 rounded-full overflow-hidden" title={t('main.microphoneLevel')}>
+                  <div className={`h-full transition-all duration-100 ${isTransmitting ? 'bg-green-500' : 'bg-gray-400'}`} style={{ width: `${Math.min(100, inputLevel / METER_FULL_SCALE * 100)}%` }} />
+                  {inputSettings.mode === 'vad' && <div className="absolute top-0 h-full w-0.5 bg-red-500" style={{ left: `${Math.min(100, inputSettings.vadThreshold / METER_FULL_SCALE * 100)}%` }} />}
+                </div>
+                {inputSettings.mode === 'push-to-talk' && (
+                  <button
+                    onPointerDown={() => setTalkKeyDown(true)}
+                    onPointerUp={() => setTalkKeyDown(false)}
+                    onPointerLeave={() => setTalkKeyDown(false)}
+                    title={t('main.holdToTalkTitle')}
+                    className={`text-sm font-semibold py-2 px-4 rounded-lg transition select-none ${isTalkKeyDown ? 'bg-green-500 text-white' : 'bg-indigo-100 text-indigo-700 hover:bg-indigo-200'}`}
+                  >
+                    {isTalkKeyDown ? t('main.talking') : t('main.holdToTalk')}
+                  </button>
+                )}
+              </div>
+            )}
+            {isSessionActive && sessionKind === 'conversation' && talkTime.learnerShare !== null && (
+              <div className="flex items-center justify-center gap-3 mt-3 text-xs text-gray-600" title={t('main.talkTimeTitle')}>
+                <span>{t('main.talkTimeYou', { percent: Math.round(talkTime.learnerShare * 100) })}</span>
+                <div className="h-2 w-48 bg-purple-200 rounded-full overflow-hidden">
+                  <div className="h-full bg-indigo-500 transition-all" style={{ width: `${talkTime.learnerShare * 100}%` }} />
+                </div>
+                <span>{t('main.talkTimeCoach', { percent: 100 - Math.round(talkTime.learnerShare * 100) })}</span>
+                {talkTime.averageResponseDelayMs !== null && (
+                  <span title={t('main.averagePauseTitle')}>&bull; {t('main.averagePause', { seconds: (talkTime.averageResponseDelayMs / 1000).toFixed(1) })}</span>
+                )}
+              </div>
+            )}
+            <p className={`text-center mt-3 text-sm h-5 ${isReconnecting ? 'text-amber-600 font-semibold' : 'text-gray-600'}`}>{statusMessage}</p>
           </div>
         </div>
         {isNotesOpen && (
           <div className="w-80 bg-white shadow-xl p-6 overflow-y-auto relative border-l border-gray-200 transition-all duration-300 flex flex-col">
-            <button onClick={() => setIsNotesOpen(false)} title="Close notes panel" className="absolute top-4 right-4 p-2 text-gray-500 hover:bg-gray-100 hover:text-gray-800 rounded-lg transition"><X size={20} /></button>
-            <h2 className="text-xl font-bold mb-6 text-indigo-700 flex items-center gap-2"><ClipboardList size={22} />Session Notes</h2>
+            <button onClick={() => setIsNotesOpen(false)} title={t('notes.closeTitle')} className="absolute top-4 right-4 p-2 text-gray-500 hover:bg-gray-100 hover:text-gray-800 rounded-lg transition"><X size={20} /></button>
+            <h2 className="text-xl font-bold mb-6 text-indigo-700 flex items-center gap-2"><ClipboardList size={22} />{t('header.notes')}</h2>
             <div className="flex-1 flex flex-col gap-4">
               <div className="flex flex-col flex-1">
-                  <label htmlFor="general-notes" className="block text-sm font-semibold mb-2 text-gray-700">General Notes</label>
+                  <label htmlFor="general-notes" className="block text-sm font-semibold mb-2 text-gray-700">{t('notes.general')}</label>
                   <textarea 
                     id="general-notes"
                     value={generalNotes}
                     onChange={(e) => setGeneralNotes(e.target.value)}
-                    placeholder="Jot down any thoughts, corrections, or feedback from your session..."
+                    placeholder={t('notes.placeholder')}
                     className="w-full flex-1 p-3 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition resize-none"
                   />
               </div>
               <button
                 onClick={handleSaveNotes}
                 disabled={!canSaveNotes}
-                title={!canSaveNotes ? "Start or load a session to save notes" : "Save your notes to the current session"}
+                title={!canSaveNotes ? t('notes.saveDisabledTitle') : t('notes.saveTitle')}
                 className="w-full bg-gradient-to-r from-indigo-600 to-purple-600 text-white py-3 rounded-lg font-semibold hover:from-indigo-700 hover:to-purple-700 transition shadow-md disabled:opacity-50 disabled:cursor-not-allowed"
               >
-                Save Notes to Session
+                {t('notes.save')}
               </button>
             </div>
           </div>
         )}
+        {isReviewOpen && (
+          <ReviewPanel cards={reviewCards} onGrade={handleGradeReviewCard} onClose={() => setIsReviewOpen(false)} />
+        )}
+        {isDrillOpen && (
+          <DrillPanel
+            source={drillSource}
+            targets={drillTargets}
+            targetIndex={drillIndex}
+            attempts={drillAttempts}
+            result={drillResult}
+            liveTranscript={displayUserTranscription}
+            isDrillActive={isSessionActive && sessionKind === 'drill'}
+            startBlockedReason={!isBackendReady ? t('drill.setKeyFirst') : isSessionActive ? t('drill.endConversationFirst') : null}
+            onSourceChange={handleDrillSourceChange}
+            onNavigate={handleDrillNavigate}
+            onStart={handleStartDrill}
+            onStop={() => stopSession(t('status.drillEnded'))}
+            onClose={() => setIsDrillOpen(false)}
+          />
+        )}
+        {isCourseOpen && (
+          <CoursePanel
+            progress={courseProgress}
+            activeUnit={activeUnit}
+            activeEvaluation={activeUnitEvaluation}
+            startBlockedReason={isSessionActive ? t('course.endSessionFirst') : null}
+            onStartUnit={handleStartUnit}
+            onOpenSession={handleOpenSession}
+            onClose={() => setIsCourseOpen(false)}
+          />
+        )}
+        {isWordListOpen && (
+          <WordListPanel words={savedWords} sessions={wordUsageSessions} onRemove={handleRemoveWord} onClose={() => setIsWordListOpen(false)} />
+        )}
       </div>
+      {(isLearnerSwitcherOpen || isLearnerLocked) && (
+        <LearnerSwitcher
+          learners={learners}
+          currentLearnerId={currentLearner.id}
+          isLocked={isLearnerLocked}
+          switchBlockedReason={isSessionActive ? t('learner.endSessionFirst') : null}
+          onSwitch={handleSwitchLearner}
+          onUnlock={handleUnlockLearner}
+          onSave={handleSaveLearner}
+          onDelete={handleDeleteLearner}
+          onClose={() => setIsLearnerSwitcherOpen(false)}
+        />
+      )}
+      {isProfileEditorOpen && (
+        <LearnerProfileEditor
+          profile={learnerProfile}
+          generatedProfile={generatedProfile}
+          onSave={handleSaveProfile}
+          onReset={handleResetProfile}
+          onClose={() => setIsProfileEditorOpen(false)}
+        />
+      )}
+      {tappedWord && (
+        <WordPopover
+          lookup={tappedWord.lookup}
+          position={tappedWord.position}
+          isSaved={savedWords.some(w => w.word === tappedWord.lookup.word)}
+          onSave={() => handleSaveWord(tappedWord)}
+          onClose={() => setTappedWord(null)}
+        />
+      )}
     </div>
   );
 };
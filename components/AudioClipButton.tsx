@@ -0,0 +1,64 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { getAudioClip } from '../services/sessionStore';
+import { t } from '../services/i18nService';
+import { Play, Square } from './icons';
+
+interface AudioClipButtonProps {
+  clipId: string;
+  className?: string;
+}
+
+const AudioClipButton: React.FC<AudioClipButtonProps> = ({ clipId, className = '' }) => {
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [isUnavailable, setIsUnavailable] = useState(false);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const urlRef = useRef<string | null>(null);
+
+  const stop = () => {
+    audioRef.current?.pause();
+    audioRef.current = null;
+    if (urlRef.current) {
+      URL.revokeObjectURL(urlRef.current);
+      urlRef.current = null;
+    }
+    setIsPlaying(false);
+  };
+
+  useEffect(() => stop, [clipId]);
+
+  const handleClick = async () => {
+    if (isPlaying) {
+      stop();
+      return;
+    }
+    try {
+      const clip = await getAudioClip(clipId);
+      if (!clip) {
+        setIsUnavailable(true);
+        return;
+      }
+      urlRef.current = URL.createObjectURL(clip);
+      const audio = new Audio(urlRef.current);
+      audio.onended = stop;
+      audioRef.current = audio;
+      setIsPlaying(true);
+      await audio.play();
+    } catch (e) {
+      console.error('Failed to play audio clip:', e);
+      stop();
+    }
+  };
+
+  return (
+    <button
+      onClick={handleClick}
+      disabled={isUnavailable}
+      title={isUnavailable ? t('audio.unavailable') : isPlaying ? t('audio.stop') : t('audio.play')}
+      className={`p-1.5 rounded-full transition disabled:opacity-40 disabled:cursor-not-allowed ${className}`}
+    >
+      {isPlaying ? <Square size={14} /> : <Play size={14} />}
+    </button>
+  );
+};
+
+export default AudioClipButton;
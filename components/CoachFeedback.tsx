@@ -0,0 +1,38 @@
+import React from 'react';
+import { CoachFeedbackSectionKind, splitCoachFeedback } from '../services/correctionService';
+import { MessageKey, t } from '../services/i18nService';
+
+interface CoachFeedbackProps {
+  content: string;
+}
+
+const SECTION_STYLES: Record<CoachFeedbackSectionKind, { label?: MessageKey; className: string }> = {
+  'encouragement': { className: 'font-semibold text-indigo-700' },
+  'original': { label: 'coachFeedback.original', className: 'bg-red-50 border-l-4 border-red-300 px-3 py-2 rounded-r-lg' },
+  'breakdown': { label: 'coachFeedback.breakdown', className: 'text-gray-700' },
+  'perfect': { label: 'coachFeedback.perfect', className: 'bg-green-50 border-l-4 border-green-400 px-3 py-2 rounded-r-lg font-medium' },
+  'follow-up': { className: 'pt-2 border-t border-gray-200' },
+};
+
+/** A coach turn with its feedback sections set apart from the conversational follow-up. */
+const CoachFeedback: React.FC<CoachFeedbackProps> = ({ content }) => {
+  const sections = splitCoachFeedback(content);
+
+  return (
+    <div className="space-y-2">
+      {sections.map((section, idx) => {
+        const style = SECTION_STYLES[section.kind];
+        // A follow-up with nothing above it needs no divider.
+        const className = idx === 0 && section.kind === 'follow-up' ? '' : style.className;
+        return (
+          <div key={idx} className={className}>
+            {style.label && <p className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-1">{t(style.label)}</p>}
+            <p className="whitespace-pre-wrap leading-relaxed">{section.text}</p>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default CoachFeedback;
@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { Correction, CorrectionCategory } from '../types';
+import { diffWords } from '../services/correctionService';
+import { t } from '../services/i18nService';
+
+interface CorrectionDiffProps {
+  content: string;
+  /** Corrections the coach gave for this turn. */
+  corrections: Correction[];
+}
+
+interface LocatedCorrection {
+  correction: Correction;
+  index: number;
+  start: number;
+  end: number;
+}
+
+// Coaches usually quote the learner verbatim, but may change the case or drop
+// the final full stop, so the quote is matched loosely.
+function locateCorrections(content: string, corrections: Correction[]): { located: LocatedCorrection[]; unlocated: { correction: Correction; index: number }[] } {
+  const lowerContent = content.toLowerCase();
+  const located: LocatedCorrection[] = [];
+  const unlocated: { correction: Correction; index: number }[] = [];
+  corrections.forEach((correction, index) => {
+    const needle = correction.original.toLowerCase().replace(/[.!?]+$/, '');
+    const start = needle ? lowerContent.indexOf(needle) : -1;
+    const end = start + needle.length;
+    if (start === -1 || located.some(other => start < other.end && end > other.start)) {
+      unlocated.push({ correction, index });
+    } else {
+      located.push({ correction, index, start, end });
+    }
+  });
+  located.sort((a, b) => a.start - b.start);
+  return { located, unlocated };
+}
+
+const DiffText: React.FC<{ original: string; corrected: string }> = ({ original, corrected }) => (
+  <>
+    {diffWords(original, corrected).map((segment, idx) => (
+      <React.Fragment key={idx}>
+        {idx > 0 && ' '}
+        {segment.type === 'same' && <span>{segment.text}</span>}
+        {segment.type === 'removed' && <span className="line-through decoration-2 decoration-red-300 opacity-75">{segment.text}</span>}
+        {segment.type === 'added' && <span className="bg-white/90 text-green-700 font-semibold rounded px-1">{segment.text}</span>}
+      </React.Fragment>
+    ))}
+  </>
+);
+
+/** A learner's turn with each corrected sentence shown as a word-level diff that expands to the explanation. */
+const CorrectionDiff: React.FC<CorrectionDiffProps> = ({ content, corrections }) => {
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+  const { located, unlocated } = locateCorrections(content, corrections);
+  const toggle = (index: number) => setOpenIndex(current => current === index ? null : index);
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  for (const { correction, index, start, end } of located) {
+    if (start > cursor) parts.push(content.slice(cursor, start));
+    parts.push(
+      <button key={index} onClick={() => toggle(index)} title={t('correction.whyTitle')} className="text-left underline decoration-dotted decoration-white/70 underline-offset-4 hover:bg-white/10 rounded transition">
+        <DiffText original={content.slice(start, end)} corrected={correction.corrected} />
+      </button>
+    );
+    cursor = end;
+  }
+  if (cursor < content.length) parts.push(content.slice(cursor));
+
+  const openCorrection = openIndex === null ? null : corrections[openIndex];
+
+  return (
+    <div>
+      <p className="whitespace-pre-wrap leading-relaxed">{parts}</p>
+      {unlocated.map(({ correction, index }) => (
+        <button key={index} onClick={() => toggle(index)} title={t('correction.whyTitle')} className="block text-left text-sm mt-2 underline decoration-dotted decoration-white/70 underline-offset-4 hover:bg-white/10 rounded transition">
+          <DiffText original={correction.original} corrected={correction.corrected} />
+        </button>
+      ))}
+      {openCorrection && (
+        <div className="mt-3 p-3 bg-white/15 rounded-lg text-sm">
+          <p className="text-xs font-semibold uppercase tracking-wide opacity-80 mb-1">{t(`category.${openCorrection.category as CorrectionCategory}`)}</p>
+          <p className="leading-relaxed">{openCorrection.explanation || t('correction.better', { corrected: openCorrection.corrected })}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CorrectionDiff;
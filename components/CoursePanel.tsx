@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { CourseUnitRef, UnitCompletion } from '../types';
+import { COURSES } from '../courses';
+import { UnitEvaluation, UnitStatus, getUnitCompletions, getUnitStatuses } from '../services/courseService';
+import { getLevelCode } from '../services/levelService';
+import { t } from '../services/i18nService';
+import { GraduationCap, X } from './icons';
+
+interface CoursePanelProps {
+  progress: UnitCompletion[];
+  activeUnit: CourseUnitRef | null;
+  /** How the conversation on screen measures up to the active unit, if one is active. */
+  activeEvaluation: UnitEvaluation | null;
+  /** Why a unit cannot be started right now, if it cannot. */
+  startBlockedReason: string | null;
+  onStartUnit: (unit: CourseUnitRef) => void;
+  onOpenSession: (sessionId: number) => void;
+  onClose: () => void;
+}
+
+const STATUS_BADGE_CLASSES: Record<UnitStatus, string> = {
+  'completed': 'bg-green-100 text-green-700',
+  'unlocked': 'bg-indigo-100 text-indigo-700',
+  'locked': 'bg-gray-100 text-gray-500',
+};
+
+const CoursePanel: React.FC<CoursePanelProps> = ({ progress, activeUnit, activeEvaluation, startBlockedReason, onStartUnit, onOpenSession, onClose }) => {
+  const [courseId, setCourseId] = useState(activeUnit?.courseId ?? COURSES[0].id);
+  const course = COURSES.find(c => c.id === courseId) ?? COURSES[0];
+  const statuses = getUnitStatuses(course, progress);
+  const completions = getUnitCompletions(course, progress);
+  const completedCount = statuses.filter(status => status === 'completed').length;
+
+  return (
+    <div className="w-96 bg-white shadow-xl p-6 overflow-y-auto relative border-l border-gray-200 transition-all duration-300">
+      <button onClick={onClose} title={t('course.closeTitle')} className="absolute top-4 right-4 p-2 text-gray-500 hover:bg-gray-100 hover:text-gray-800 rounded-lg transition"><X size={20} /></button>
+      <h2 className="text-xl font-bold mb-2 text-indigo-700 flex items-center gap-2"><GraduationCap size={22} />{t('course.title')}</h2>
+      <p className="text-sm text-gray-600 mb-4">{t('course.intro')}</p>
+
+      <select value={course.id} onChange={(e) => setCourseId(e.target.value)} className="w-full p-3 mb-3 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition">
+        {COURSES.map(c => (<option key={c.id} value={c.id}>{c.title}</option>))}
+      </select>
+      <p className="text-sm text-gray-600 mb-2">{course.description}</p>
+      <div className="mb-4">
+        <div className="flex justify-between text-xs text-gray-500 mb-1">
+          <span>{t('course.unitsCompleted', { count: completedCount, total: course.units.length })}</span>
+          <span>{Math.round(completedCount / course.units.length * 100)}%</span>
+        </div>
+        <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+          <div className="h-full bg-green-500 transition-all" style={{ width: `${completedCount / course.units.length * 100}%` }} />
+        </div>
+      </div>
+
+      <ol className="space-y-3">
+        {course.units.map((unit, index) => {
+          const status = statuses[index];
+          const completion = completions.get(unit.id);
+          const isActive = activeUnit?.courseId === course.id && activeUnit.unitId === unit.id;
+          return (
+            <li key={unit.id} className={`p-3 border rounded-lg ${isActive ? 'bg-indigo-50 border-indigo-300' : 'bg-gray-50 border-gray-200'} ${status === 'locked' ? 'opacity-60' : ''}`}>
+              <div className="flex justify-between items-start gap-2">
+                <p className="font-semibold text-gray-800">{index + 1}. {unit.title}</p>
+                <span className={`text-xs font-semibold py-0.5 px-2 rounded-full flex-shrink-0 ${STATUS_BADGE_CLASSES[status]}`}>{isActive ? t('course.inProgress') : t(`courseStatus.${status as UnitStatus}`)}</span>
+              </div>
+              <p className="text-xs text-gray-500 mt-1">{getLevelCode(unit.level)} &bull; {unit.scenario ? t('course.rolePlay', { title: unit.scenario.title }) : unit.topic}</p>
+              {status !== 'locked' && (
+                <>
+                  <ul className="list-disc list-inside text-sm text-gray-700 mt-2">
+                    {unit.objectives.map(objective => <li key={objective}>{objective}</li>)}
+                  </ul>
+                  <p className="text-xs text-gray-600 mt-2">
+                    <span className="font-semibold">{t('course.phrases')}</span>{' '}
+                    {unit.targetPhrases.map((phrase, phraseIndex) => (
+                      <React.Fragment key={phrase}>
+                        {phraseIndex > 0 && ', '}
+                        <span className={isActive && activeEvaluation?.phrasesUsed.includes(phrase) ? 'text-green-700 font-semibold' : ''}>{phrase}</span>
+                      </React.Fragment>
+                    ))}
+                  </p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {t('course.toComplete', { turns: unit.completion.minUserTurns, phrases: unit.completion.minPhrasesUsed })}
+                    {isActive && activeEvaluation && ` ${t('course.soFar', { turns: activeEvaluation.userTurns, phrases: activeEvaluation.phrasesUsed.length })}`}
+                  </p>
+                  <div className="flex items-center gap-2 mt-3">
+                    {!isActive && (
+                      <button onClick={() => onStartUnit({ courseId: course.id, unitId: unit.id })} disabled={!!startBlockedReason} title={startBlockedReason ?? t('course.startUnitTitle')} className="bg-indigo-600 text-white text-sm font-semibold py-1 px-3 rounded-lg hover:bg-indigo-700 transition disabled:opacity-50 disabled:cursor-not-allowed">
+                        {status === 'completed' ? t('course.practiseAgain') : t('course.startUnit')}
+                      </button>
+                    )}
+                    {completion && (
+                      <button onClick={() => onOpenSession(completion.sessionId)} title={t('course.completedTitle')} className="text-sm font-semibold text-indigo-600 hover:text-indigo-800 hover:underline">
+                        {t('course.completedOn', { date: new Date(completion.completedAt).toLocaleDateString() })}
+                      </button>
+                    )}
+                  </div>
+                </>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
+
+export default CoursePanel;
@@ -0,0 +1,115 @@
+import React from 'react';
+import { DrillAttempt, DrillSource, DrillWordResult } from '../types';
+import { DRILL_SOURCES, getAttemptsForTarget } from '../services/drillService';
+import { t } from '../services/i18nService';
+import { Target, X } from './icons';
+
+interface DrillPanelProps {
+  source: DrillSource;
+  targets: string[];
+  targetIndex: number;
+  attempts: DrillAttempt[];
+  /** The latest attempt at the current target during this drill, if any. */
+  result: DrillAttempt | null;
+  liveTranscript: string;
+  isDrillActive: boolean;
+  /** Why a drill cannot be started right now, if it cannot. */
+  startBlockedReason: string | null;
+  onSourceChange: (source: DrillSource) => void;
+  onNavigate: (targetIndex: number) => void;
+  onStart: () => void;
+  onStop: () => void;
+  onClose: () => void;
+}
+
+const WordResult: React.FC<{ word: DrillWordResult }> = ({ word }) => {
+  switch (word.type) {
+    case 'match':
+      return <span className="text-green-700">{word.expected}</span>;
+    case 'substituted':
+      return <span className="text-orange-700" title={t('drill.heardTitle', { word: word.heard ?? '' })}><span className="line-through decoration-orange-400">{word.heard}</span> {word.expected}</span>;
+    case 'omitted':
+      return <span className="text-red-600 underline decoration-dotted" title={t('drill.missedTitle')}>{word.expected}</span>;
+    case 'extra':
+      return <span className="text-purple-600 italic" title={t('drill.extraTitle')}>+{word.heard}</span>;
+  }
+};
+
+const scoreClassName = (score: number) =>
+  score >= 90 ? 'text-green-600' : score >= 70 ? 'text-indigo-600' : score >= 50 ? 'text-orange-600' : 'text-red-600';
+
+const DrillPanel: React.FC<DrillPanelProps> = ({
+  source, targets, targetIndex, attempts, result, liveTranscript, isDrillActive, startBlockedReason,
+  onSourceChange, onNavigate, onStart, onStop, onClose,
+}) => {
+  const target = targets[targetIndex];
+  const targetAttempts = target ? getAttemptsForTarget(attempts, target) : [];
+  const bestScore = targetAttempts.reduce((best, attempt) => Math.max(best, attempt.score), 0);
+
+  return (
+    <div className="w-96 bg-white shadow-xl p-6 overflow-y-auto relative border-l border-gray-200 transition-all duration-300 flex flex-col">
+      <button onClick={onClose} title={t('drill.closeTitle')} className="absolute top-4 right-4 p-2 text-gray-500 hover:bg-gray-100 hover:text-gray-800 rounded-lg transition"><X size={20} /></button>
+      <h2 className="text-xl font-bold mb-2 text-indigo-700 flex items-center gap-2"><Target size={22} />{t('drill.title')}</h2>
+      <p className="text-sm text-gray-600 mb-4">{t('drill.intro')}</p>
+
+      <label className="block text-sm font-semibold mb-2 text-gray-700">{t('drill.sentences')}</label>
+      <select value={source} onChange={(e) => onSourceChange(e.target.value as DrillSource)} disabled={isDrillActive} className="w-full p-3 mb-4 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition disabled:bg-gray-100 disabled:cursor-not-allowed">
+        {DRILL_SOURCES.map(s => (<option key={s} value={s}>{t(`drillSource.${s}`)}</option>))}
+      </select>
+
+      {!target ? (
+        <div className="text-center text-gray-500 mt-6">{t(`drillEmpty.${source as DrillSource}`)}</div>
+      ) : (
+        <div className="flex-1 flex flex-col gap-4">
+          <div className="p-4 bg-indigo-50 border border-indigo-200 rounded-lg">
+            <p className="text-xs font-semibold uppercase tracking-wide text-indigo-600 mb-2">{t('drill.position', { index: targetIndex + 1, total: targets.length })}</p>
+            <p className="text-lg text-gray-800 font-semibold leading-relaxed">{target}</p>
+          </div>
+
+          {isDrillActive && liveTranscript && (
+            <p className="text-sm text-gray-500 italic">{t('drill.hearing', { text: liveTranscript })}</p>
+          )}
+
+          {result && (
+            <div className="p-4 bg-gray-50 border border-gray-200 rounded-lg">
+              <div className="flex justify-between items-baseline mb-2">
+                <p className="text-sm text-gray-500">{t('drill.yourAttempt')}</p>
+                <p className={`text-2xl font-bold ${scoreClassName(result.score)}`}>{result.score}%</p>
+              </div>
+              <p className="leading-relaxed flex flex-wrap gap-x-2 gap-y-1">
+                {result.words.map((word, idx) => <WordResult key={idx} word={word} />)}
+              </p>
+              <p className="text-xs text-gray-500 mt-3">
+                <span className="text-green-700">{t('drill.legendCorrect')}</span> &bull; <span className="text-orange-700">{t('drill.legendSubstituted')}</span> &bull; <span className="text-red-600">{t('drill.legendMissed')}</span> &bull; <span className="text-purple-600">{t('drill.legendExtra')}</span>
+              </p>
+            </div>
+          )}
+
+          {targetAttempts.length > 0 && (
+            <div className="text-sm text-gray-600">
+              <p><span className="font-semibold">{targetAttempts.length}</span> {t(targetAttempts.length === 1 ? 'drill.attempt' : 'drill.attempts')} &bull; {t('drill.best')} <span className={`font-semibold ${scoreClassName(bestScore)}`}>{bestScore}%</span></p>
+              <p className="text-xs text-gray-500 mt-1">{t('drill.recent', { scores: targetAttempts.slice(-5).map(attempt => `${attempt.score}%`).join(', ') })}</p>
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <button onClick={() => onNavigate(targetIndex - 1)} disabled={targetIndex === 0} title={t('drill.previousTitle')} className="flex-1 bg-indigo-100 text-indigo-700 font-semibold py-2 px-4 rounded-lg hover:bg-indigo-200 transition disabled:opacity-50 disabled:cursor-not-allowed">{t('drill.previous')}</button>
+            <button onClick={() => onNavigate(targetIndex)} disabled={!isDrillActive} title={t('drill.repeatTitle')} className="flex-1 bg-indigo-100 text-indigo-700 font-semibold py-2 px-4 rounded-lg hover:bg-indigo-200 transition disabled:opacity-50 disabled:cursor-not-allowed">{t('drill.repeat')}</button>
+            <button onClick={() => onNavigate(targetIndex + 1)} disabled={targetIndex >= targets.length - 1} title={t('drill.nextTitle')} className="flex-1 bg-indigo-100 text-indigo-700 font-semibold py-2 px-4 rounded-lg hover:bg-indigo-200 transition disabled:opacity-50 disabled:cursor-not-allowed">{t('drill.next')}</button>
+          </div>
+
+          {isDrillActive ? (
+            <button onClick={onStop} title={t('drill.stopTitle')} className="w-full bg-red-500 text-white py-3 rounded-lg font-semibold hover:bg-red-600 transition shadow-md">{t('drill.stop')}</button>
+          ) : (
+            <>
+              <button onClick={onStart} disabled={!!startBlockedReason} title={t('drill.startTitle')} className="w-full bg-gradient-to-r from-indigo-600 to-purple-600 text-white py-3 rounded-lg font-semibold hover:from-indigo-700 hover:to-purple-700 transition shadow-md disabled:opacity-50 disabled:cursor-not-allowed">{t('drill.start')}</button>
+              {startBlockedReason && <p className="text-xs text-gray-500 text-center">{startBlockedReason}</p>}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DrillPanel;
@@ -0,0 +1,91 @@
+import React from 'react';
+import { ConversationSession, ExamCriterion, ExamPart } from '../types';
+import { splitExamParts } from '../services/examService';
+import { t } from '../services/i18nService';
+import { GraduationCap, X } from './icons';
+
+interface ExamResultsProps {
+  /** A session with an `exam` record. */
+  session: ConversationSession;
+  isScoring: boolean;
+  /** Scores the test again, or for the first time if scoring never finished. */
+  onScore: () => void;
+  onClose: () => void;
+}
+
+const ExamResults: React.FC<ExamResultsProps> = ({ session, isScoring, onScore, onClose }) => {
+  const exam = session.exam;
+  if (!exam) return null;
+  const { result } = exam;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl p-8 max-w-3xl w-full m-4 relative transition-transform transform scale-95 flex flex-col h-[85vh]" onClick={(e) => e.stopPropagation()}>
+        <button onClick={onClose} title={t('exam.resultsCloseTitle')} className="absolute top-4 right-4 p-2 text-gray-500 hover:bg-gray-100 hover:text-gray-800 rounded-full transition"><X size={20} /></button>
+        <h2 className="text-2xl font-bold text-indigo-700 mb-1 flex items-center gap-2"><GraduationCap size={24} />{t('exam.resultsTitle')}</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          {new Date(session.date).toLocaleString()}
+          {!exam.isComplete && <> &bull; <span className="text-amber-700">{t('exam.stoppedEarly')}</span></>}
+        </p>
+
+        <div className="flex-1 overflow-y-auto pr-2 -mr-2 space-y-6">
+          {result ? (
+            <section className="p-4 bg-gray-50 border border-gray-200 rounded-lg space-y-4">
+              <div className="flex items-center gap-4">
+                <div className="w-20 h-20 rounded-full bg-gradient-to-br from-indigo-600 to-purple-600 text-white flex flex-col items-center justify-center flex-shrink-0">
+                  <span className="text-xs uppercase tracking-wide opacity-80">{t('exam.band')}</span>
+                  <span className="text-2xl font-bold">{result.overallBand ?? '–'}</span>
+                </div>
+                <p className="text-sm text-gray-700 leading-relaxed">{result.summary}</p>
+              </div>
+              {result.scores.map(score => (
+                <div key={score.criterion} className="p-3 bg-white border border-gray-200 rounded-lg">
+                  <div className="flex items-center justify-between gap-4 mb-1">
+                    <h3 className="text-sm font-semibold text-gray-800">{t(`examCriterion.${score.criterion as ExamCriterion}`)}</h3>
+                    <span className="text-sm font-bold text-indigo-700 bg-indigo-50 px-3 py-1 rounded-full flex-shrink-0">{t('exam.bandScore', { band: score.band })}</span>
+                  </div>
+                  <p className="text-sm text-gray-700">{score.justification}</p>
+                  {score.quotes.length > 0 && (
+                    <ul className="mt-2 space-y-1">
+                      {score.quotes.map((quote, index) => (
+                        <li key={index} className="text-sm text-gray-600 italic border-l-4 border-indigo-200 pl-3">&ldquo;{quote}&rdquo;</li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ))}
+              <p className="text-xs text-gray-400">
+                {t(result.source === 'coach' ? 'exam.scoredByExaminer' : 'exam.scoredOffline', { date: new Date(result.generatedAt).toLocaleString() })}
+              </p>
+            </section>
+          ) : (
+            <p className="p-4 bg-gray-50 border border-gray-200 rounded-lg text-sm text-gray-600 text-center">{isScoring ? t('exam.scoringTest') : t('exam.notScored')}</p>
+          )}
+
+          <section className="space-y-4">
+            <h3 className="text-sm font-semibold text-gray-700">{t('exam.transcript')}</h3>
+            {splitExamParts(session.messages, exam).map(({ part, messages }) => (
+              <div key={part} className="space-y-2">
+                <h4 className="text-xs font-semibold uppercase tracking-wide text-indigo-700">{t(`examPart.${part as ExamPart}`)}</h4>
+                {messages.map((msg, index) => (
+                  <div key={index} className={`p-3 rounded-lg border ${msg.role === 'user' ? 'bg-indigo-50 border-indigo-100 ml-8' : 'bg-white border-gray-200 mr-8'}`}>
+                    <p className="text-xs font-semibold text-gray-500 mb-1">{msg.role === 'user' ? t('exam.you') : t('exam.examiner')}</p>
+                    <p className="text-sm text-gray-800 whitespace-pre-wrap">{msg.content}</p>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </section>
+        </div>
+
+        <div className="flex gap-2 pt-4">
+          <button onClick={onScore} disabled={isScoring} title={t('exam.scoreTitle')} className="flex-1 bg-indigo-100 text-indigo-700 font-semibold py-3 px-4 rounded-lg hover:bg-indigo-200 transition disabled:opacity-50 disabled:cursor-wait">
+            {isScoring ? t('exam.scoring') : result ? t('exam.scoreAgain') : t('exam.score')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExamResults;
@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { LearnerProfile } from '../types';
+import { buildProfileInstructions } from '../services/profileService';
+import { t } from '../services/i18nService';
+import { X } from './icons';
+
+interface LearnerProfileEditorProps {
+  profile: LearnerProfile;
+  /** The profile as it would be built from the learner's history right now. */
+  generatedProfile: LearnerProfile;
+  onSave: (profile: LearnerProfile) => void;
+  /** Drops the learner's edits so the profile follows their history again. */
+  onReset: () => void;
+  onClose: () => void;
+}
+
+type ListField = 'focusAreas' | 'studyWords' | 'goals';
+
+const inputClassName = 'w-full p-3 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition';
+
+const toListText = (profile: LearnerProfile): Record<ListField, string> => ({
+  focusAreas: profile.focusAreas.join('\n'),
+  studyWords: profile.studyWords.join('\n'),
+  goals: profile.goals.join('\n'),
+});
+
+const LearnerProfileEditor: React.FC<LearnerProfileEditorProps> = ({ profile, generatedProfile, onSave, onReset, onClose }) => {
+  const [listText, setListText] = useState<Record<ListField, string>>(() => toListText(profile));
+
+  const toList = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean);
+
+  const draft: LearnerProfile = {
+    focusAreas: toList(listText.focusAreas),
+    studyWords: toList(listText.studyWords),
+    goals: toList(listText.goals),
+  };
+  const preview = buildProfileInstructions(draft);
+
+  const handleSave = () => {
+    onSave({ ...draft, editedAt: new Date().toISOString() });
+    onClose();
+  };
+
+  const handleReset = () => {
+    onReset();
+    setListText(toListText(generatedProfile));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl p-8 max-w-3xl w-full m-4 relative transition-transform transform scale-95 flex flex-col max-h-[85vh]" onClick={(e) => e.stopPropagation()}>
+        <button onClick={onClose} title={t('profile.closeTitle')} className="absolute top-4 right-4 p-2 text-gray-500 hover:bg-gray-100 hover:text-gray-800 rounded-full transition"><X size={20} /></button>
+        <h2 className="text-2xl font-bold text-indigo-700 mb-2">{t('profile.title')}</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          {t('profile.intro')}
+          {profile.editedAt && ` ${t('profile.edited')}`}
+        </p>
+        <div className="flex-1 overflow-y-auto pr-2 space-y-4">
+          <div>
+            <label className="block text-sm font-semibold mb-2 text-gray-700">{t('profile.focusAreas')}</label>
+            <textarea value={listText.focusAreas} onChange={(e) => setListText({ ...listText, focusAreas: e.target.value })} rows={3} placeholder={t('profile.focusAreasPlaceholder')} className={`${inputClassName} resize-none`} />
+          </div>
+          <div>
+            <label className="block text-sm font-semibold mb-2 text-gray-700">{t('profile.studyWords')}</label>
+            <textarea value={listText.studyWords} onChange={(e) => setListText({ ...listText, studyWords: e.target.value })} rows={3} placeholder={t('profile.studyWordsPlaceholder')} className={`${inputClassName} resize-none`} />
+          </div>
+          <div>
+            <label className="block text-sm font-semibold mb-2 text-gray-700">{t('profile.goals')}</label>
+            <textarea value={listText.goals} onChange={(e) => setListText({ ...listText, goals: e.target.value })} rows={3} placeholder={t('profile.goalsPlaceholder')} className={`${inputClassName} resize-none`} />
+          </div>
+          <div>
+            <p className="text-sm font-semibold mb-2 text-gray-700">{t('profile.preview')}</p>
+            <pre className="p-3 bg-gray-50 border border-gray-200 rounded-lg text-xs text-gray-700 whitespace-pre-wrap font-mono">{preview || t('profile.previewEmpty')}</pre>
+          </div>
+        </div>
+        <div className="flex gap-2 pt-4">
+          <button onClick={handleSave} title={t('profile.saveTitle')} className="flex-1 bg-gradient-to-r from-indigo-600 to-purple-600 text-white py-3 rounded-lg font-semibold hover:from-indigo-700 hover:to-purple-700 transition shadow-md">{t('profile.save')}</button>
+          <button onClick={handleReset} title={t('profile.rebuildTitle')} className="bg-indigo-100 text-indigo-700 font-semibold py-3 px-4 rounded-lg hover:bg-indigo-200 transition">{t('profile.rebuild')}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LearnerProfileEditor;
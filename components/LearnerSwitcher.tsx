@@ -0,0 +1,232 @@
+import React, { useState } from 'react';
+import { Learner } from '../types';
+import { COACH_VOICES, LEVELS, NATIVE_LANGUAGES, TOPICS } from '../constants';
+import { createLearner, hashPin, verifyPin } from '../services/learnerService';
+import { t } from '../services/i18nService';
+import { User, X } from './icons';
+
+interface LearnerSwitcherProps {
+  learners: Learner[];
+  currentLearnerId: string;
+  /** The current learner has a PIN that has not been entered yet, so nothing else is shown. */
+  isLocked: boolean;
+  /** Why the learner cannot be switched right now, if it cannot. */
+  switchBlockedReason: string | null;
+  onSwitch: (learnerId: string) => void;
+  onUnlock: () => void;
+  onSave: (learner: Learner) => void;
+  onDelete: (learnerId: string) => void;
+  onClose: () => void;
+}
+
+type PinAction = 'switch' | 'unlock' | 'delete';
+
+type View =
+  | { kind: 'list' }
+  | { kind: 'pin'; learner: Learner; action: PinAction }
+  | { kind: 'edit'; learner: Learner | null };
+
+interface LearnerDraft {
+  name: string;
+  nativeLanguage: string;
+  defaultLevel: string;
+  defaultTopic: string;
+  defaultVoice: string;
+  pin: string;
+  removePin: boolean;
+}
+
+const inputClassName = 'w-full p-3 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition';
+
+const PIN_PATTERN = /^\d{4,8}$/;
+
+const toDraft = (learner: Learner | null): LearnerDraft => ({
+  name: learner?.name ?? '',
+  nativeLanguage: learner?.nativeLanguage ?? '',
+  defaultLevel: learner?.defaultLevel ?? '',
+  defaultTopic: learner?.defaultTopic ?? '',
+  defaultVoice: learner?.defaultVoice ?? '',
+  pin: '',
+  removePin: false,
+});
+
+const LearnerSwitcher: React.FC<LearnerSwitcherProps> = ({ learners, currentLearnerId, isLocked, switchBlockedReason, onSwitch, onUnlock, onSave, onDelete, onClose }) => {
+  const currentLearner = learners.find(learner => learner.id === currentLearnerId);
+  const [view, setView] = useState<View>(() => isLocked && currentLearner ? { kind: 'pin', learner: currentLearner, action: 'unlock' } : { kind: 'list' });
+  const [pinInput, setPinInput] = useState('');
+  const [pinError, setPinError] = useState('');
+  const [draft, setDraft] = useState<LearnerDraft>(() => toDraft(null));
+
+  const showPin = (learner: Learner, action: PinAction) => {
+    setPinInput('');
+    setPinError('');
+    setView({ kind: 'pin', learner, action });
+  };
+
+  const showEditor = (learner: Learner | null) => {
+    setDraft(toDraft(learner));
+    setView({ kind: 'edit', learner });
+  };
+
+  const completePinAction = (learner: Learner, action: PinAction) => {
+    if (action === 'unlock') onUnlock();
+    else if (action === 'switch') onSwitch(learner.id);
+    else if (window.confirm(t('learner.confirmDelete', { name: learner.name }))) {
+      onDelete(learner.id);
+      setView({ kind: 'list' });
+    }
+  };
+
+  const handleChoose = (learner: Learner, action: 'switch' | 'delete') => {
+    if (learner.pinHash) showPin(learner, action);
+    else completePinAction(learner, action);
+  };
+
+  const handlePinSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (view.kind !== 'pin') return;
+    if (await verifyPin(view.learner, pinInput)) {
+      completePinAction(view.learner, view.action);
+    } else {
+      setPinError(t('learner.wrongPin'));
+      setPinInput('');
+    }
+  };
+
+  const handleSaveLearner = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (view.kind !== 'edit') return;
+    if (!draft.name.trim()) {
+      alert(t('learner.nameRequired'));
+      return;
+    }
+    if (draft.pin && !PIN_PATTERN.test(draft.pin)) {
+      alert(t('learner.pinFormat'));
+      return;
+    }
+    const fields = {
+      name: draft.name.trim(),
+      nativeLanguage: draft.nativeLanguage || undefined,
+      defaultLevel: draft.defaultLevel || undefined,
+      defaultTopic: draft.defaultTopic || undefined,
+      defaultVoice: draft.defaultVoice || undefined,
+      pinHash: draft.removePin ? undefined : view.learner?.pinHash,
+    };
+    const learner = view.learner ? { ...view.learner, ...fields } : createLearner(fields);
+    if (draft.pin) learner.pinHash = await hashPin(learner.id, draft.pin);
+    onSave(learner);
+    setView({ kind: 'list' });
+  };
+
+  return (
+    <div className={`fixed inset-0 flex items-center justify-center z-50 ${isLocked ? 'bg-gradient-to-br from-indigo-700 to-purple-700' : 'bg-black/60'}`} onClick={isLocked ? undefined : onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl p-8 max-w-lg w-full m-4 relative transition-transform transform scale-95 flex flex-col max-h-[85vh]" onClick={(e) => e.stopPropagation()}>
+        {!isLocked && <button onClick={onClose} title={t('learner.closeTitle')} className="absolute top-4 right-4 p-2 text-gray-500 hover:bg-gray-100 hover:text-gray-800 rounded-full transition"><X size={20} /></button>}
+        <h2 className="text-2xl font-bold text-indigo-700 mb-2 flex items-center gap-2"><User size={24} />{t('learner.title')}</h2>
+
+        {view.kind === 'pin' && (
+          <form onSubmit={handlePinSubmit} className="flex flex-col gap-4">
+            <p className="text-sm text-gray-600">
+              {t(view.action === 'delete' ? 'learner.pinToDelete' : 'learner.pinToContinue', { name: view.learner.name })}
+            </p>
+            <input type="password" inputMode="numeric" autoFocus value={pinInput} onChange={(e) => setPinInput(e.target.value)} placeholder={t('learner.pinPlaceholder')} className={inputClassName} />
+            {pinError && <p className="text-sm text-red-600">{pinError}</p>}
+            <div className="flex gap-2">
+              <button type="submit" disabled={!pinInput} className="flex-1 bg-gradient-to-r from-indigo-600 to-purple-600 text-white py-3 rounded-lg font-semibold hover:from-indigo-700 hover:to-purple-700 transition shadow-md disabled:opacity-50 disabled:cursor-not-allowed">{t('learner.continue')}</button>
+              <button type="button" onClick={() => setView({ kind: 'list' })} className="bg-indigo-100 text-indigo-700 font-semibold py-3 px-4 rounded-lg hover:bg-indigo-200 transition">{isLocked && view.action === 'unlock' ? t('learner.switchLearner') : t('learner.back')}</button>
+            </div>
+          </form>
+        )}
+
+        {view.kind === 'edit' && (
+          <form onSubmit={handleSaveLearner} className="flex-1 overflow-y-auto pr-2 space-y-4">
+            <div>
+              <label className="block text-sm font-semibold mb-2 text-gray-700">{t('learner.name')}</label>
+              <input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} placeholder={t('learner.namePlaceholder')} className={inputClassName} />
+            </div>
+            <div>
+              <label className="block text-sm font-semibold mb-2 text-gray-700">{t('learner.nativeLanguage')}</label>
+              <select value={draft.nativeLanguage} onChange={(e) => setDraft({ ...draft, nativeLanguage: e.target.value })} className={inputClassName}>
+                <option value="">{t('learner.notSet')}</option>
+                {NATIVE_LANGUAGES.map(language => (<option key={language} value={language}>{language}</option>))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-semibold mb-2 text-gray-700">{t('learner.defaultLevel')}</label>
+              <select value={draft.defaultLevel} onChange={(e) => setDraft({ ...draft, defaultLevel: e.target.value })} className={inputClassName}>
+                <option value="">{t('learner.notSet')}</option>
+                {LEVELS.map(level => (<option key={level} value={level}>{level}</option>))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-semibold mb-2 text-gray-700">{t('learner.defaultTopic')}</label>
+              <select value={draft.defaultTopic} onChange={(e) => setDraft({ ...draft, defaultTopic: e.target.value })} className={inputClassName}>
+                <option value="">{t('learner.notSet')}</option>
+                {TOPICS.map(topic => (<option key={topic} value={topic}>{topic}</option>))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-semibold mb-2 text-gray-700">{t('learner.defaultVoice')}</label>
+              <select value={draft.defaultVoice} onChange={(e) => setDraft({ ...draft, defaultVoice: e.target.value })} className={inputClassName}>
+                <option value="">{t('learner.notSet')}</option>
+                {COACH_VOICES.map(voice => (<option key={voice} value={voice}>{voice}</option>))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-semibold mb-2 text-gray-700">{t('learner.pin')}</label>
+              <input type="password" inputMode="numeric" value={draft.pin} onChange={(e) => setDraft({ ...draft, pin: e.target.value })} placeholder={view.learner?.pinHash ? t('learner.pinKeepPlaceholder') : t('learner.pinNewPlaceholder')} className={inputClassName} />
+              {view.learner?.pinHash && (
+                <label className="mt-2 flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                  <input type="checkbox" checked={draft.removePin} onChange={(e) => setDraft({ ...draft, removePin: e.target.checked, pin: '' })} className="w-4 h-4 accent-indigo-600" />
+                  {t('learner.removePin')}
+                </label>
+              )}
+            </div>
+            <div className="flex gap-2 pt-2">
+              <button type="submit" className="flex-1 bg-gradient-to-r from-indigo-600 to-purple-600 text-white py-3 rounded-lg font-semibold hover:from-indigo-700 hover:to-purple-700 transition shadow-md">{view.learner ? t('learner.saveChanges') : t('learner.add')}</button>
+              <button type="button" onClick={() => setView({ kind: 'list' })} className="bg-indigo-100 text-indigo-700 font-semibold py-3 px-4 rounded-lg hover:bg-indigo-200 transition">{t('learner.cancel')}</button>
+            </div>
+          </form>
+        )}
+
+        {view.kind === 'list' && (
+          <>
+            <p className="text-sm text-gray-600 mb-4">{t('learner.intro')}</p>
+            <ul className="flex-1 overflow-y-auto space-y-2 pr-2">
+              {learners.map(learner => {
+                const isCurrent = learner.id === currentLearnerId;
+                return (
+                  <li key={learner.id} className={`p-3 border rounded-lg flex items-center justify-between gap-2 ${isCurrent ? 'bg-indigo-50 border-indigo-300' : 'bg-gray-50 border-gray-200'}`}>
+                    <div>
+                      <p className="font-semibold text-gray-800">{learner.name} {learner.pinHash && <span className="text-xs font-normal text-gray-500">{t('learner.hasPin')}</span>}</p>
+                      {learner.nativeLanguage && <p className="text-xs text-gray-500">{t('learner.speaker', { language: learner.nativeLanguage })}</p>}
+                    </div>
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                      {isCurrent ? (
+                        isLocked ? (
+                          <button onClick={() => showPin(learner, 'unlock')} className="bg-indigo-600 text-white text-sm font-semibold py-1 px-3 rounded-lg hover:bg-indigo-700 transition">{t('learner.unlock')}</button>
+                        ) : (
+                          <button onClick={() => showEditor(learner)} title={t('learner.editTitle')} className="bg-indigo-100 text-indigo-700 text-sm font-semibold py-1 px-3 rounded-lg hover:bg-indigo-200 transition">{t('learner.edit')}</button>
+                        )
+                      ) : (
+                        <>
+                          <button onClick={() => handleChoose(learner, 'switch')} disabled={!!switchBlockedReason} title={switchBlockedReason ?? t('learner.switchTitle', { name: learner.name })} className="bg-indigo-600 text-white text-sm font-semibold py-1 px-3 rounded-lg hover:bg-indigo-700 transition disabled:opacity-50 disabled:cursor-not-allowed">{t('learner.switch')}</button>
+                          {!isLocked && <button onClick={() => handleChoose(learner, 'delete')} title={t('learner.deleteTitle', { name: learner.name })} className="bg-red-100 text-red-700 text-sm font-semibold py-1 px-3 rounded-lg hover:bg-red-200 transition">{t('learner.delete')}</button>}
+                        </>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+            {!isLocked && (
+              <button onClick={() => showEditor(null)} title={t('learner.addTitle')} className="mt-4 w-full bg-gradient-to-r from-indigo-600 to-purple-600 text-white py-3 rounded-lg font-semibold hover:from-indigo-700 hover:to-purple-700 transition shadow-md">{t('learner.add')}</button>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LearnerSwitcher;
@@ -0,0 +1,150 @@
+import React, { useMemo } from 'react';
+import { ConversationSession, LevelAssessment } from '../types';
+import { CEFR_LEVELS } from '../constants';
+import { BreakdownRow, computeProgress } from '../services/analyticsService';
+import { t } from '../services/i18nService';
+import { X } from './icons';
+
+interface ProgressDashboardProps {
+  history: ConversationSession[];
+  levelHistory: LevelAssessment[];
+  onClose: () => void;
+}
+
+interface ChartPoint {
+  label: string;
+  value: number;
+}
+
+const BarChart: React.FC<{ title: string; points: ChartPoint[]; format: (value: number) => string; barClassName: string }> = ({ title, points, format, barClassName }) => {
+  const max = Math.max(...points.map(p => p.value), 0);
+  return (
+    <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+      <h3 className="font-semibold text-indigo-800 mb-3">{title}</h3>
+      {points.length === 0 ? (
+        <p className="text-sm text-gray-500">{t('progress.noData')}</p>
+      ) : (
+        <div className="flex items-end gap-1 h-32 overflow-x-auto">
+          {points.map((point, idx) => (
+            <div key={idx} className="flex flex-col items-center justify-end h-full min-w-[1.5rem] flex-1" title={`${point.label}: ${format(point.value)}`}>
+              <div className={`w-full rounded-t ${barClassName}`} style={{ height: `${max > 0 ? (point.value / max) * 100 : 0}%`, minHeight: point.value > 0 ? '2px' : 0 }} />
+            </div>
+          ))}
+        </div>
+      )}
+      {points.length > 0 && (
+        <div className="flex justify-between text-xs text-gray-500 mt-2">
+          <span>{points[0].label}</span>
+          <span>{points[points.length - 1].label}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const BreakdownTable: React.FC<{ title: string; rows: BreakdownRow[] }> = ({ title, rows }) => (
+  <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+    <h3 className="font-semibold text-indigo-800 mb-3">{title}</h3>
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-gray-500">
+          <th className="font-medium pb-2"></th>
+          <th className="font-medium pb-2 text-right">{t('progress.sessions')}</th>
+          <th className="font-medium pb-2 text-right">{t('progress.words')}</th>
+          <th className="font-medium pb-2 text-right">{t('progress.correctionsShort')}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(row => (
+          <tr key={row.key} className="border-t border-gray-200">
+            <td className="py-1 pr-2 text-gray-800">{row.key}</td>
+            <td className="py-1 text-right text-gray-700">{row.sessions}</td>
+            <td className="py-1 text-right text-gray-700">{row.userWords}</td>
+            <td className="py-1 text-right text-gray-700">{row.correctionsPer100Words.toFixed(1)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+const StatTile: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div className="bg-gradient-to-r from-purple-50 to-indigo-50 border border-indigo-200 rounded-lg p-4 text-center">
+    <p className="text-2xl font-bold text-indigo-700">{value}</p>
+    <p className="text-xs text-gray-600 mt-1">{label}</p>
+  </div>
+);
+
+const ProgressDashboard: React.FC<ProgressDashboardProps> = ({ history, levelHistory, onClose }) => {
+  const progress = useMemo(() => computeProgress(history), [history]);
+  const sessionLabel = (timestamp: number) => new Date(timestamp).toLocaleDateString();
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl p-8 max-w-4xl w-full m-4 relative transition-transform transform scale-95 flex flex-col h-[85vh]" onClick={(e) => e.stopPropagation()}>
+        <button onClick={onClose} title={t('progress.closeTitle')} className="absolute top-4 right-4 p-2 text-gray-500 hover:bg-gray-100 hover:text-gray-800 rounded-full transition"><X size={20} /></button>
+        <h2 className="text-2xl font-bold text-indigo-700 mb-4">{t('progress.title')}</h2>
+        {history.length === 0 ? (
+          <div className="text-center text-gray-500 mt-20">
+            <p className="text-lg">{t('progress.empty')}</p>
+            <p>{t('progress.emptyHint')}</p>
+          </div>
+        ) : (
+          <div className="flex-1 overflow-y-auto pr-2 -mr-2 space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+              <StatTile label={t('progress.speakingMinutes')} value={progress.totalSpeakingMinutes.toFixed(1)} />
+              <StatTile label={t('progress.wordsSpoken')} value={String(progress.totalUserWords)} />
+              <StatTile label={t('progress.wordsPerTurn')} value={progress.averageWordsPerTurn.toFixed(1)} />
+              <StatTile label={t('progress.vocabularyRange')} value={String(progress.vocabularyRange)} />
+              <StatTile label={t('progress.correctionsPer100')} value={progress.correctionsPer100Words.toFixed(1)} />
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <BarChart
+                title={t('progress.minutesPerDay')}
+                points={progress.daily.map(d => ({ label: d.day, value: d.speakingMinutes }))}
+                format={v => t('progress.minutesValue', { value: v.toFixed(1) })}
+                barClassName="bg-indigo-500"
+              />
+              <BarChart
+                title={t('progress.wordsPerSession')}
+                points={progress.sessions.map(s => ({ label: sessionLabel(s.timestamp), value: s.userWords }))}
+                format={v => t('progress.wordsValue', { value: v })}
+                barClassName="bg-purple-500"
+              />
+              <BarChart
+                title={t('progress.wordsPerTurn')}
+                points={progress.sessions.map(s => ({ label: sessionLabel(s.timestamp), value: s.wordsPerTurn }))}
+                format={v => v.toFixed(1)}
+                barClassName="bg-blue-500"
+              />
+              <BarChart
+                title={t('progress.vocabularyPerSession')}
+                points={progress.sessions.map(s => ({ label: sessionLabel(s.timestamp), value: s.distinctLemmas }))}
+                format={v => t('progress.distinctWordsValue', { value: v })}
+                barClassName="bg-green-500"
+              />
+              <BarChart
+                title={t('progress.correctionsPer100Chart')}
+                points={progress.sessions.map(s => ({ label: sessionLabel(s.timestamp), value: s.correctionsPer100Words }))}
+                format={v => v.toFixed(1)}
+                barClassName="bg-red-400"
+              />
+              <BarChart
+                title={t('progress.estimatedLevel')}
+                points={levelHistory.map(a => ({ label: new Date(a.assessedAt).toLocaleDateString(), value: CEFR_LEVELS.indexOf(a.level) + 1 }))}
+                format={v => CEFR_LEVELS[v - 1]}
+                barClassName="bg-amber-400"
+              />
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <BreakdownTable title={t('progress.byLevel')} rows={progress.byLevel} />
+              <BreakdownTable title={t('progress.byTopic')} rows={progress.byTopic} />
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProgressDashboard;
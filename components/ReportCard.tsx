@@ -0,0 +1,69 @@
+import React from 'react';
+import { CorrectionCategory, SessionReport } from '../types';
+import { compareToSelectedLevel } from '../services/levelService';
+import { t } from '../services/i18nService';
+
+interface ReportCardProps {
+  report: SessionReport;
+  /** The level the session was practised at, to compare with the estimate. */
+  level: string;
+}
+
+const LEVEL_COMPARISON_CLASSES = {
+  below: 'bg-amber-100 text-amber-800',
+  matches: 'bg-green-100 text-green-800',
+  above: 'bg-indigo-100 text-indigo-800',
+};
+
+const ReportSection: React.FC<{ title: string; items: string[] }> = ({ title, items }) => {
+  if (items.length === 0) return null;
+  return (
+    <div>
+      <h4 className="text-sm font-semibold text-gray-700 mb-1">{title}</h4>
+      <ul className="list-disc list-inside text-sm text-gray-700 space-y-1">
+        {items.map((item, index) => <li key={index}>{item}</li>)}
+      </ul>
+    </div>
+  );
+};
+
+const ReportCard: React.FC<ReportCardProps> = ({ report, level }) => {
+  const comparison = compareToSelectedLevel(report.estimatedLevel, level);
+
+  return (
+    <div className="mt-3 p-4 bg-white border border-indigo-100 rounded-lg space-y-3">
+      <p className="text-sm text-gray-700 leading-relaxed">{report.summary}</p>
+      <p className={`text-sm rounded-md px-3 py-2 ${LEVEL_COMPARISON_CLASSES[comparison]}`}>
+        {t('report.estimatedLevel')} <span className="font-bold">{report.estimatedLevel}</span>, {t(`reportLevel.${comparison}`)}
+      </p>
+      {report.recurringMistakes.length > 0 && (
+        <div>
+          <h4 className="text-sm font-semibold text-gray-700 mb-1">{t('report.recurringMistakes')}</h4>
+          <ul className="text-sm text-gray-700 space-y-1">
+            {report.recurringMistakes.map(mistake => (
+              <li key={mistake.category}>
+                <span className="font-semibold">{t(`category.${mistake.category as CorrectionCategory}`)}</span> &times;{mistake.count}
+                {mistake.example && <span className="text-gray-500"> &mdash; {t('report.example', { example: mistake.example })}</span>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {report.newVocabulary.length > 0 && (
+        <div>
+          <h4 className="text-sm font-semibold text-gray-700 mb-1">{t('report.newVocabulary')}</h4>
+          <div className="flex flex-wrap gap-1">
+            {report.newVocabulary.map(word => <span key={word} className="text-xs bg-indigo-50 text-indigo-700 px-2 py-1 rounded-full">{word}</span>)}
+          </div>
+        </div>
+      )}
+      <ReportSection title={t('report.phrases')} items={report.suggestedPhrases} />
+      <ReportSection title={t('report.goals')} items={report.goals} />
+      <p className="text-xs text-gray-400">
+        {t(report.source === 'coach' ? 'report.byCoach' : 'report.offline', { date: new Date(report.generatedAt).toLocaleString() })}
+      </p>
+    </div>
+  );
+};
+
+export default ReportCard;
@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { ReviewCard, ReviewGrade } from '../types';
+import { getDueCards, getNextDueDate } from '../services/reviewService';
+import { t } from '../services/i18nService';
+import { Layers, X } from './icons';
+
+interface ReviewPanelProps {
+  cards: ReviewCard[];
+  onGrade: (card: ReviewCard, grade: ReviewGrade) => void;
+  onClose: () => void;
+}
+
+const GRADE_BUTTONS: { grade: ReviewGrade; className: string }[] = [
+  { grade: 'again', className: 'bg-red-100 text-red-700 hover:bg-red-200' },
+  { grade: 'hard', className: 'bg-orange-100 text-orange-700 hover:bg-orange-200' },
+  { grade: 'good', className: 'bg-green-100 text-green-700 hover:bg-green-200' },
+  { grade: 'easy', className: 'bg-indigo-100 text-indigo-700 hover:bg-indigo-200' },
+];
+
+const ReviewPanel: React.FC<ReviewPanelProps> = ({ cards, onGrade, onClose }) => {
+  const [isAnswerShown, setIsAnswerShown] = useState(false);
+
+  const dueCards = getDueCards(cards);
+  const currentCard = dueCards[0];
+  const nextDueDate = getNextDueDate(cards);
+
+  const handleGrade = (grade: ReviewGrade) => {
+    onGrade(currentCard, grade);
+    setIsAnswerShown(false);
+  };
+
+  return (
+    <div className="w-80 bg-white shadow-xl p-6 overflow-y-auto relative border-l border-gray-200 transition-all duration-300 flex flex-col">
+      <button onClick={onClose} title={t('review.closeTitle')} className="absolute top-4 right-4 p-2 text-gray-500 hover:bg-gray-100 hover:text-gray-800 rounded-lg transition"><X size={20} /></button>
+      <h2 className="text-xl font-bold mb-2 text-indigo-700 flex items-center gap-2"><Layers size={22} />{t('review.title')}</h2>
+      <p className="text-sm text-gray-600 mb-6">{t('review.counts', { due: dueCards.length, total: cards.length })}</p>
+
+      {cards.length === 0 ? (
+        <div className="text-center text-gray-500 mt-10">
+          <p className="text-lg">{t('review.empty')}</p>
+          <p>{t('review.emptyHint')}</p>
+        </div>
+      ) : !currentCard ? (
+        <div className="text-center text-gray-500 mt-10">
+          <p className="text-lg">{t('review.caughtUp')}</p>
+          {nextDueDate && <p>{t('review.nextDue', { date: new Date(nextDueDate).toLocaleString() })}</p>}
+        </div>
+      ) : (
+        <div className="flex-1 flex flex-col gap-4">
+          <div className="p-4 bg-gray-50 border border-gray-200 rounded-lg">
+            <p className="text-xs font-semibold uppercase tracking-wide text-indigo-600 mb-2">{t(`category.${currentCard.correction.category}`)}</p>
+            <p className="text-sm text-gray-500 mb-1">{t('review.youSaid')}</p>
+            <p className="text-gray-800 leading-relaxed line-through decoration-red-400">{currentCard.correction.original}</p>
+          </div>
+          {isAnswerShown ? (
+            <>
+              <div className="p-4 bg-green-50 border border-green-200 rounded-lg">
+                <p className="text-sm text-gray-500 mb-1">{t('review.better')}</p>
+                <p className="text-gray-800 font-semibold leading-relaxed">{currentCard.correction.corrected}</p>
+                {currentCard.correction.explanation && <p className="text-sm text-gray-600 mt-3 leading-relaxed">{currentCard.correction.explanation}</p>}
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                {GRADE_BUTTONS.map(({ grade, className }) => (
+                  <button key={grade} onClick={() => handleGrade(grade)} title={t('review.gradeTitle', { grade: t(`reviewGrade.${grade}`).toLowerCase() })} className={`font-semibold py-2 px-4 rounded-lg transition ${className}`}>{t(`reviewGrade.${grade}`)}</button>
+                ))}
+              </div>
+            </>
+          ) : (
+            <button onClick={() => setIsAnswerShown(true)} title={t('review.showAnswerTitle')} className="w-full bg-gradient-to-r from-indigo-600 to-purple-600 text-white py-3 rounded-lg font-semibold hover:from-indigo-700 hover:to-purple-700 transition shadow-md">
+              {t('review.showAnswer')}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReviewPanel;
@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { Scenario } from '../types';
+import { createEmptyScenario, exportScenarioJson, parseScenarioJson, ScenarioImportError } from '../services/scenarioService';
+import { downloadFile, slugify } from '../services/exportService';
+import { t } from '../services/i18nService';
+import { X } from './icons';
+
+interface ScenarioEditorProps {
+  scenarios: Scenario[];
+  onSave: (scenario: Scenario) => void;
+  onDelete: (scenarioId: string) => void;
+  onClose: () => void;
+}
+
+type ListField = 'goals' | 'targetVocabulary' | 'successCriteria';
+
+const inputClassName = 'w-full p-3 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition';
+
+const ScenarioEditor: React.FC<ScenarioEditorProps> = ({ scenarios, onSave, onDelete, onClose }) => {
+  const [draft, setDraft] = useState<Scenario>(() => scenarios[0] ?? createEmptyScenario());
+  const [listText, setListText] = useState<Record<ListField, string>>(() => ({
+    goals: draft.goals.join('\n'),
+    targetVocabulary: draft.targetVocabulary.join('\n'),
+    successCriteria: draft.successCriteria.join('\n'),
+  }));
+  const [importText, setImportText] = useState('');
+  const [isImportOpen, setIsImportOpen] = useState(false);
+
+  const isSaved = scenarios.some(s => s.id === draft.id);
+
+  const selectScenario = (scenario: Scenario) => {
+    setDraft(scenario);
+    setListText({
+      goals: scenario.goals.join('\n'),
+      targetVocabulary: scenario.targetVocabulary.join('\n'),
+      successCriteria: scenario.successCriteria.join('\n'),
+    });
+  };
+
+  const toList = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean);
+
+  const buildScenario = (): Scenario => ({
+    ...draft,
+    title: draft.title.trim(),
+    goals: toList(listText.goals),
+    targetVocabulary: toList(listText.targetVocabulary),
+    successCriteria: toList(listText.successCriteria),
+    updatedAt: new Date().toISOString(),
+  });
+
+  const handleSave = () => {
+    if (!draft.title.trim()) {
+      alert(t('scenario.titleRequired'));
+      return;
+    }
+    const scenario = buildScenario();
+    onSave(scenario);
+    selectScenario(scenario);
+  };
+
+  const handleDelete = () => {
+    if (window.confirm(t('scenario.confirmDelete', { title: draft.title }))) {
+      onDelete(draft.id);
+      selectScenario(scenarios.find(s => s.id !== draft.id) ?? createEmptyScenario());
+    }
+  };
+
+  const handleShare = () => {
+    const scenario = buildScenario();
+    downloadFile(`${slugify(scenario.title)}.scenario.json`, exportScenarioJson(scenario), 'application/json');
+  };
+
+  const handleImport = () => {
+    try {
+      const scenario = parseScenarioJson(importText);
+      onSave(scenario);
+      selectScenario(scenario);
+      setImportText('');
+      setIsImportOpen(false);
+    } catch (e) {
+      alert(e instanceof ScenarioImportError ? t('scenario.importFailed', { message: e.message }) : t('scenario.importFailedUnknown'));
+    }
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) setImportText(await file.text());
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl p-8 max-w-4xl w-full m-4 relative transition-transform transform scale-95 flex flex-col h-[85vh]" onClick={(e) => e.stopPropagation()}>
+        <button onClick={onClose} title={t('scenario.closeTitle')} className="absolute top-4 right-4 p-2 text-gray-500 hover:bg-gray-100 hover:text-gray-800 rounded-full transition"><X size={20} /></button>
+        <h2 className="text-2xl font-bold text-indigo-700 mb-4">{t('scenario.heading')}</h2>
+        <div className="flex flex-1 gap-6 overflow-hidden">
+          <div className="w-56 flex flex-col gap-2 overflow-y-auto">
+            <button onClick={() => selectScenario(createEmptyScenario())} title={t('scenario.newTitle')} className="w-full bg-gradient-to-r from-indigo-600 to-purple-600 text-white py-2 rounded-lg font-semibold hover:from-indigo-700 hover:to-purple-700 transition shadow-md">{t('scenario.new')}</button>
+            <button onClick={() => setIsImportOpen(open => !open)} title={t('scenario.importTitle')} className="w-full bg-indigo-100 text-indigo-700 font-semibold py-2 rounded-lg hover:bg-indigo-200 transition">{t('scenario.import')}</button>
+            {scenarios.map(scenario => (
+              <button key={scenario.id} onClick={() => selectScenario(scenario)} className={`text-left p-3 rounded-lg border transition ${scenario.id === draft.id ? 'bg-indigo-50 border-indigo-300 text-indigo-800' : 'bg-gray-50 border-gray-200 text-gray-700 hover:bg-indigo-50'}`}>
+                <p className="font-semibold truncate">{scenario.title}</p>
+              </button>
+            ))}
+          </div>
+
+          <div className="flex-1 overflow-y-auto pr-2 space-y-4">
+            {isImportOpen && (
+              <div className="p-4 bg-gray-50 border border-gray-200 rounded-lg space-y-2">
+                <label className="block text-sm font-semibold text-gray-700">{t('scenario.importLabel')}</label>
+                <input type="file" accept=".json,application/json" onChange={handleImportFile} className="text-sm" />
+                <textarea value={importText} onChange={(e) => setImportText(e.target.value)} rows={4} className={`${inputClassName} resize-none font-mono text-sm`} />
+                <button onClick={handleImport} disabled={!importText.trim()} className="bg-indigo-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-indigo-700 transition disabled:opacity-50 disabled:cursor-not-allowed">{t('scenario.importButton')}</button>
+              </div>
+            )}
+            <div>
+              <label className="block text-sm font-semibold mb-2 text-gray-700">{t('scenario.title')}</label>
+              <input value={draft.title} onChange={(e) => setDraft({ ...draft, title: e.target.value })} placeholder={t('scenario.titlePlaceholder')} className={inputClassName} />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-semibold mb-2 text-gray-700">{t('scenario.coachRole')}</label>
+                <input value={draft.coachRole} onChange={(e) => setDraft({ ...draft, coachRole: e.target.value })} placeholder={t('scenario.coachRolePlaceholder')} className={inputClassName} />
+              </div>
+              <div>
+                <label className="block text-sm font-semibold mb-2 text-gray-700">{t('scenario.learnerRole')}</label>
+                <input value={draft.learnerRole} onChange={(e) => setDraft({ ...draft, learnerRole: e.target.value })} placeholder={t('scenario.learnerRolePlaceholder')} className={inputClassName} />
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-semibold mb-2 text-gray-700">{t('scenario.setting')}</label>
+              <textarea value={draft.setting} onChange={(e) => setDraft({ ...draft, setting: e.target.value })} rows={2} placeholder={t('scenario.settingPlaceholder')} className={`${inputClassName} resize-none`} />
+            </div>
+            <div>
+              <label className="block text-sm font-semibold mb-2 text-gray-700">{t('scenario.goals')}</label>
+              <textarea value={listText.goals} onChange={(e) => setListText({ ...listText, goals: e.target.value })} rows={3} placeholder={t('scenario.goalsPlaceholder')} className={`${inputClassName} resize-none`} />
+            </div>
+            <div>
+              <label className="block text-sm font-semibold mb-2 text-gray-700">{t('scenario.vocabulary')}</label>
+              <textarea value={listText.targetVocabulary} onChange={(e) => setListText({ ...listText, targetVocabulary: e.target.value })} rows={3} placeholder={t('scenario.vocabularyPlaceholder')} className={`${inputClassName} resize-none`} />
+            </div>
+            <div>
+              <label className="block text-sm font-semibold mb-2 text-gray-700">{t('scenario.criteria')}</label>
+              <textarea value={listText.successCriteria} onChange={(e) => setListText({ ...listText, successCriteria: e.target.value })} rows={3} placeholder={t('scenario.criteriaPlaceholder')} className={`${inputClassName} resize-none`} />
+            </div>
+            <div className="flex gap-2 pt-2">
+              <button onClick={handleSave} title={t('scenario.saveTitle')} className="flex-1 bg-gradient-to-r from-indigo-600 to-purple-600 text-white py-3 rounded-lg font-semibold hover:from-indigo-700 hover:to-purple-700 transition shadow-md">{t('scenario.save')}</button>
+              <button onClick={handleShare} disabled={!draft.title.trim()} title={t('scenario.shareTitle')} className="bg-indigo-100 text-indigo-700 font-semibold py-3 px-4 rounded-lg hover:bg-indigo-200 transition disabled:opacity-50 disabled:cursor-not-allowed">{t('scenario.share')}</button>
+              {isSaved && <button onClick={handleDelete} title={t('scenario.deleteTitle')} className="bg-red-100 text-red-700 font-semibold py-3 px-4 rounded-lg hover:bg-red-200 transition">{t('scenario.delete')}</button>}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScenarioEditor;
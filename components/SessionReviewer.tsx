@@ -0,0 +1,188 @@
+import React, { useState } from 'react';
+import { ConversationSession, CorrectionCategory, CorrectionVerdict, RubricCriterion, TeacherReview } from '../types';
+import { RUBRIC_CRITERION_LABELS, RUBRIC_MAX_SCORE } from '../constants';
+import { createTeacherReview, getCorrectionVerdict, getMessageComment, getScoredCriteria, isReviewEmpty, setCorrectionVerdict, setMessageComment } from '../services/teacherReviewService';
+import { t } from '../services/i18nService';
+import { ClipboardList, X } from './icons';
+
+interface SessionReviewerProps {
+  /** Sessions with a review open on the saved feedback; the rest open ready to review. */
+  session: ConversationSession;
+  onSave: (review: TeacherReview) => void;
+  /** Saves the review and downloads the session for the learner to import. */
+  onExport: (review: TeacherReview) => void;
+  onClose: () => void;
+}
+
+const VERDICT_CLASSES: Record<CorrectionVerdict, string> = {
+  'agree': 'bg-green-600 text-white',
+  'disagree': 'bg-red-600 text-white',
+};
+
+const inputClassName = 'w-full p-3 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition';
+
+const SessionReviewer: React.FC<SessionReviewerProps> = ({ session, onSave, onExport, onClose }) => {
+  const [isEditing, setIsEditing] = useState(!session.review);
+  const [review, setReview] = useState<TeacherReview>(() => session.review ?? createTeacherReview(''));
+  const [openCommentIndex, setOpenCommentIndex] = useState<number | null>(null);
+
+  const stamp = (updated: TeacherReview): TeacherReview => ({ ...updated, reviewer: updated.reviewer.trim(), reviewedAt: new Date().toISOString() });
+
+  const handleSave = () => {
+    if (isReviewEmpty(review)) {
+      alert(t('reviewer.emptyOnSave'));
+      return;
+    }
+    const saved = stamp(review);
+    setReview(saved);
+    onSave(saved);
+    setIsEditing(false);
+  };
+
+  const handleExport = () => {
+    if (isReviewEmpty(review)) {
+      alert(t('reviewer.emptyOnSend'));
+      return;
+    }
+    const saved = stamp(review);
+    setReview(saved);
+    onExport(saved);
+    setIsEditing(false);
+  };
+
+  const scoredCriteria = getScoredCriteria(review);
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl p-8 max-w-3xl w-full m-4 relative transition-transform transform scale-95 flex flex-col h-[85vh]" onClick={(e) => e.stopPropagation()}>
+        <button onClick={onClose} title={t('reviewer.closeTitle')} className="absolute top-4 right-4 p-2 text-gray-500 hover:bg-gray-100 hover:text-gray-800 rounded-full transition"><X size={20} /></button>
+        <h2 className="text-2xl font-bold text-indigo-700 mb-1 flex items-center gap-2"><ClipboardList size={24} />{isEditing ? t('reviewer.reviewTitle') : t('reviewer.feedbackTitle')}</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          {session.topic} &bull; {new Date(session.date).toLocaleString()} &bull; {session.level.split(':')[0]}
+          {!isEditing && session.review && <> &bull; {t('reviewer.reviewedBy', { reviewer: review.reviewer || t('reviewer.yourTeacher'), date: new Date(review.reviewedAt).toLocaleDateString() })}</>}
+        </p>
+
+        <div className="flex-1 overflow-y-auto pr-2 -mr-2 space-y-6">
+          <section className="p-4 bg-gray-50 border border-gray-200 rounded-lg space-y-4">
+            {isEditing && (
+              <div>
+                <label className="block text-sm font-semibold mb-2 text-gray-700">{t('reviewer.reviewer')}</label>
+                <input value={review.reviewer} onChange={(e) => setReview({ ...review, reviewer: e.target.value })} placeholder={t('reviewer.reviewerPlaceholder')} className={inputClassName} />
+              </div>
+            )}
+            <div className="space-y-2">
+              <h3 className="text-sm font-semibold text-gray-700">{t('reviewer.rubric')}</h3>
+              {(Object.keys(RUBRIC_CRITERION_LABELS) as RubricCriterion[])
+                .filter(criterion => isEditing || scoredCriteria.includes(criterion))
+                .map(criterion => (
+                  <div key={criterion} className="flex items-center justify-between gap-4">
+                    <div>
+                      <p className="text-sm font-semibold text-gray-800">{t(`rubric.${criterion}`)}</p>
+                      <p className="text-xs text-gray-500">{t(`rubric.${criterion}Hint`)}</p>
+                    </div>
+                    <div className="flex gap-1 flex-shrink-0">
+                      {Array.from({ length: RUBRIC_MAX_SCORE }, (_, i) => i + 1).map(score => {
+                        const isSelected = review.rubric[criterion] === score;
+                        return (
+                          <button
+                            key={score}
+                            disabled={!isEditing}
+                            onClick={() => setReview({ ...review, rubric: { ...review.rubric, [criterion]: isSelected ? undefined : score } })}
+                            title={isSelected ? t('reviewer.clearScore') : t('reviewer.score', { score, max: RUBRIC_MAX_SCORE })}
+                            className={`w-8 h-8 text-sm font-semibold rounded-lg transition ${isSelected ? 'bg-indigo-600 text-white' : 'bg-white border border-gray-300 text-gray-600 hover:bg-indigo-50'} disabled:cursor-default ${!isEditing && !isSelected ? 'opacity-40' : ''}`}
+                          >
+                            {score}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  </div>
+                ))}
+              {!isEditing && scoredCriteria.length === 0 && <p className="text-sm text-gray-500">{t('reviewer.noScores')}</p>}
+            </div>
+            <div>
+              <h3 className="text-sm font-semibold text-gray-700 mb-2">{t('reviewer.summary')}</h3>
+              {isEditing ? (
+                <textarea value={review.summary} onChange={(e) => setReview({ ...review, summary: e.target.value })} rows={3} placeholder={t('reviewer.summaryPlaceholder')} className={inputClassName} />
+              ) : (
+                <p className="text-sm text-gray-700 whitespace-pre-wrap">{review.summary.trim() || t('reviewer.noSummary')}</p>
+              )}
+            </div>
+          </section>
+
+          <section className="space-y-3">
+            <h3 className="text-sm font-semibold text-gray-700">{t('reviewer.transcript')}</h3>
+            {session.messages.map((msg, messageIndex) => {
+              const comment = getMessageComment(review, messageIndex);
+              const isCommentOpen = openCommentIndex === messageIndex || (isEditing && !!comment);
+              return (
+                <div key={messageIndex} className={`p-3 rounded-lg border ${msg.role === 'user' ? 'bg-indigo-50 border-indigo-100 ml-8' : 'bg-white border-gray-200 mr-8'}`}>
+                  <p className="text-xs font-semibold text-gray-500 mb-1">{msg.role === 'user' ? t('reviewer.learner') : t('reviewer.coach')}</p>
+                  <p className="text-sm text-gray-800 whitespace-pre-wrap">{msg.content}</p>
+                  {(msg.corrections ?? []).length > 0 && (
+                    <ul className="mt-2 space-y-2">
+                      {msg.corrections!.map((correction, correctionIndex) => {
+                        const verdict = getCorrectionVerdict(review, messageIndex, correctionIndex);
+                        return (
+                          <li key={correctionIndex} className="p-2 bg-amber-50 border border-amber-200 rounded-md text-sm flex items-start justify-between gap-2">
+                            <div>
+                              <span className="text-xs font-semibold text-amber-800">{t(`category.${correction.category as CorrectionCategory}`)}:</span>{' '}
+                              <span className="line-through text-gray-500">{correction.original}</span> &rarr; <span className="font-semibold text-gray-800">{correction.corrected}</span>
+                            </div>
+                            <div className="flex gap-1 flex-shrink-0">
+                              {isEditing
+                                ? (Object.keys(VERDICT_CLASSES) as CorrectionVerdict[]).map(option => (
+                                    <button
+                                      key={option}
+                                      onClick={() => setReview(setCorrectionVerdict(review, messageIndex, correctionIndex, verdict === option ? null : option))}
+                                      title={verdict === option ? t('reviewer.clearMark') : t(`reviewer.${option}Title`)}
+                                      className={`text-xs font-semibold py-1 px-2 rounded-md transition ${verdict === option ? VERDICT_CLASSES[option] : 'bg-white border border-gray-300 text-gray-600 hover:bg-gray-100'}`}
+                                    >
+                                      {t(`reviewer.${option}`)}
+                                    </button>
+                                  ))
+                                : verdict && <span className={`text-xs font-semibold py-1 px-2 rounded-md ${VERDICT_CLASSES[verdict]}`}>{t(`reviewer.${verdict as CorrectionVerdict}Mark`)}</span>}
+                            </div>
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  )}
+                  {isEditing ? (
+                    isCommentOpen ? (
+                      <textarea
+                        autoFocus={openCommentIndex === messageIndex}
+                        value={comment}
+                        onChange={(e) => setReview(setMessageComment(review, messageIndex, e.target.value))}
+                        rows={2}
+                        placeholder={t('reviewer.commentPlaceholder')}
+                        className={`${inputClassName} mt-2 text-sm`}
+                      />
+                    ) : (
+                      <button onClick={() => setOpenCommentIndex(messageIndex)} className="mt-2 text-sm font-semibold text-indigo-600 hover:text-indigo-800 hover:underline">{t('reviewer.addComment')}</button>
+                    )
+                  ) : comment && (
+                    <p className="mt-2 p-2 bg-green-50 border border-green-200 rounded-md text-sm text-green-900 whitespace-pre-wrap"><span className="font-semibold">{t('reviewer.teacher')}</span> {comment}</p>
+                  )}
+                </div>
+              );
+            })}
+          </section>
+        </div>
+
+        <div className="flex gap-2 pt-4">
+          {isEditing ? (
+            <>
+              <button onClick={handleSave} title={t('reviewer.saveTitle')} className="flex-1 bg-indigo-100 text-indigo-700 font-semibold py-3 px-4 rounded-lg hover:bg-indigo-200 transition">{t('reviewer.save')}</button>
+              <button onClick={handleExport} title={t('reviewer.exportTitle')} className="flex-1 bg-gradient-to-r from-indigo-600 to-purple-600 text-white py-3 rounded-lg font-semibold hover:from-indigo-700 hover:to-purple-700 transition shadow-md">{t('reviewer.export')}</button>
+            </>
+          ) : (
+            <button onClick={() => setIsEditing(true)} title={t('reviewer.editTitle')} className="flex-1 bg-indigo-100 text-indigo-700 font-semibold py-3 px-4 rounded-lg hover:bg-indigo-200 transition">{t('reviewer.edit')}</button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionReviewer;
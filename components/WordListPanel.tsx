@@ -0,0 +1,59 @@
+import React from 'react';
+import { ConversationSession, SavedWord } from '../types';
+import { computeWordUsage } from '../services/vocabularyService';
+import { t } from '../services/i18nService';
+import { BookOpen, X } from './icons';
+
+interface WordListPanelProps {
+  words: SavedWord[];
+  /** Saved sessions plus the one in progress, to find later uses of each word. */
+  sessions: ConversationSession[];
+  onRemove: (word: string) => void;
+  onClose: () => void;
+}
+
+const WordListPanel: React.FC<WordListPanelProps> = ({ words, sessions, onRemove, onClose }) => {
+  return (
+    <div className="w-96 bg-white shadow-xl p-6 overflow-y-auto relative border-l border-gray-200 transition-all duration-300">
+      <button onClick={onClose} title={t('wordList.closeTitle')} className="absolute top-4 right-4 p-2 text-gray-500 hover:bg-gray-100 hover:text-gray-800 rounded-lg transition"><X size={20} /></button>
+      <h2 className="text-xl font-bold mb-2 text-indigo-700 flex items-center gap-2"><BookOpen size={22} />{t('wordList.title')}</h2>
+      <p className="text-sm text-gray-600 mb-4">{t('wordList.intro')}</p>
+
+      {words.length === 0 ? (
+        <div className="text-center text-gray-500 mt-6">{t('wordList.empty')}</div>
+      ) : (
+        <ul className="space-y-3">
+          {[...words].reverse().map(saved => {
+            const usage = computeWordUsage(saved, sessions);
+            const uses = usage.correct + usage.incorrect;
+            return (
+              <li key={saved.word} className="p-3 bg-gray-50 border border-gray-200 rounded-lg">
+                <div className="flex justify-between items-start gap-2">
+                  <div>
+                    <p className="font-semibold text-gray-800">{saved.word} {saved.entry && <span className="text-xs italic font-normal text-indigo-600">{saved.entry.partOfSpeech}</span>}</p>
+                    {saved.entry && <p className="text-sm text-gray-600">{saved.entry.definition}</p>}
+                  </div>
+                  <button onClick={() => onRemove(saved.word)} title={t('wordList.removeTitle')} className="text-xs bg-red-100 text-red-700 font-semibold py-1 px-2 rounded-lg hover:bg-red-200 transition flex-shrink-0">{t('wordList.remove')}</button>
+                </div>
+                {saved.context && <p className="text-xs text-gray-500 italic mt-2 line-clamp-2">"{saved.context}"</p>}
+                <p className="text-xs mt-2">
+                  {uses === 0 ? (
+                    <span className="text-gray-500">{t('wordList.notUsed')}</span>
+                  ) : (
+                    <>
+                      <span className="text-green-700">{usage.correct === 1 ? t('wordList.usedCorrectlyOnce') : t('wordList.usedCorrectly', { count: usage.correct })}</span>
+                      {usage.incorrect > 0 && <span className="text-orange-700"> &bull; {usage.incorrect === 1 ? t('wordList.correctedOnce') : t('wordList.corrected', { count: usage.incorrect })}</span>}
+                      {usage.lastUsedAt && <span className="text-gray-500"> &bull; {t('wordList.lastUsed', { date: new Date(usage.lastUsedAt).toLocaleDateString() })}</span>}
+                    </>
+                  )}
+                </p>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default WordListPanel;
@@ -0,0 +1,49 @@
+import React from 'react';
+import { DictionaryLookup } from '../services/vocabularyService';
+import { t } from '../services/i18nService';
+import { X } from './icons';
+
+interface WordPopoverProps {
+  lookup: DictionaryLookup;
+  /** Viewport coordinates of the tapped word, for positioning. */
+  position: { x: number; y: number };
+  isSaved: boolean;
+  onSave: () => void;
+  onClose: () => void;
+}
+
+const POPOVER_WIDTH = 288;
+
+const WordPopover: React.FC<WordPopoverProps> = ({ lookup, position, isSaved, onSave, onClose }) => {
+  const left = Math.max(8, Math.min(position.x - POPOVER_WIDTH / 2, window.innerWidth - POPOVER_WIDTH - 8));
+
+  return (
+    <div
+      role="dialog"
+      aria-label={t('wordPopover.label', { word: lookup.word })}
+      style={{ left, top: position.y + 8, width: POPOVER_WIDTH }}
+      className="fixed z-50 bg-white rounded-xl shadow-2xl border border-gray-200 p-4"
+    >
+      <button onClick={onClose} title={t('common.close')} className="absolute top-2 right-2 p-1 text-gray-400 hover:text-gray-700 rounded transition"><X size={16} /></button>
+      <p className="text-lg font-bold text-gray-800 pr-6">{lookup.word}</p>
+      {lookup.entry ? (
+        <>
+          <p className="text-xs italic text-indigo-600 mb-2">{lookup.entry.partOfSpeech}</p>
+          <p className="text-sm text-gray-700">{lookup.entry.definition}</p>
+          <p className="text-sm text-gray-500 italic mt-2">"{lookup.entry.example}"</p>
+        </>
+      ) : (
+        <p className="text-sm text-gray-500 mt-1">{t('wordPopover.notInDictionary')}</p>
+      )}
+      <button
+        onClick={onSave}
+        disabled={isSaved}
+        className="mt-3 w-full bg-indigo-600 text-white text-sm font-semibold py-2 rounded-lg hover:bg-indigo-700 transition disabled:bg-green-100 disabled:text-green-800 disabled:cursor-default"
+      >
+        {isSaved ? t('wordPopover.saved') : t('wordPopover.save')}
+      </button>
+    </div>
+  );
+};
+
+export default WordPopover;
@@ -1,3 +1,5 @@
+import { CefrLevel, CorrectionCategory, RubricCriterion } from './types';
+
 export const LEVELS: string[] = [
     'Beginner (A1-A2): Basic phrases & introductions',
     'Intermediate (B1): Everyday conversations',
@@ -6,6 +8,8 @@ export const LEVELS: string[] = [
     'Proficient (C2): Nuanced & native-like speech'
 ];
 
+export const CEFR_LEVELS: CefrLevel[] = ['A1', 'A2', 'B1', 'B2', 'C1', 'C2'];
+
 export const TOPICS: string[] = [
     'Getting to Know Each Other',
     'Daily Life & Routines',
@@ -23,6 +27,24 @@ export const TOPICS: string[] = [
     'Social & Cultural Issues'
 ];
 
+/** Languages the coach can explain grammar in for beginners. Named in English for the prompt. */
+export const NATIVE_LANGUAGES: string[] = [
+    'Vietnamese',
+    'Chinese (Mandarin)',
+    'Japanese',
+    'Korean',
+    'Thai',
+    'Indonesian',
+    'Hindi',
+    'Arabic',
+    'Spanish',
+    'Portuguese',
+    'French',
+    'German',
+    'Russian',
+    'Turkish'
+];
+
 export const COACH_VOICES: string[] = [
     'Zephyr',
     'Puck',
@@ -56,4 +78,68 @@ export const COACH_VOICES: string[] = [
     'Sadachbia',
     'Sadaltager',
     'Sulafat'
-];
\ No newline at end of file
+];
+
+// Built-in pronunciation drill sentences, one list per entry in LEVELS.
+export const DRILL_SENTENCES: Record<string, string[]> = {
+    [LEVELS[0]]: [
+        'My name is Anna and I live in a small town.',
+        'I usually get up at seven o\'clock.',
+        'Could I have a glass of water, please?',
+        'There are three bedrooms in our house.',
+        'She works at the hospital near the station.',
+        'We went to the beach last weekend.',
+    ],
+    [LEVELS[1]]: [
+        'I have been learning English for about two years.',
+        'Would you mind opening the window a little?',
+        'If it rains tomorrow, we will stay at home.',
+        'The train was delayed, so I arrived late for work.',
+        'I\'m thinking about changing my job next year.',
+        'What do you usually do to relax after work?',
+    ],
+    [LEVELS[2]]: [
+        'The report needs to be finished by the end of the week.',
+        'I would rather work from home than commute every day.',
+        'Despite the weather, the event was a huge success.',
+        'She suggested that we postpone the meeting until Thursday.',
+        'It\'s worth considering the long-term consequences.',
+        'Had I known about the traffic, I would have left earlier.',
+    ],
+    [LEVELS[3]]: [
+        'The committee has yet to reach a consensus on the proposal.',
+        'Not only did they miss the deadline, but they also exceeded the budget.',
+        'Her argument, while persuasive, overlooks several crucial factors.',
+        'The phenomenon is particularly prevalent in urban areas.',
+        'We should thoroughly evaluate the feasibility of this approach.',
+        'I can\'t help thinking that we\'ve overlooked something important.',
+    ],
+    [LEVELS[4]]: [
+        'The thoroughly unremarkable sequel nonetheless broke box-office records.',
+        'Were it not for her perseverance, the initiative would have floundered.',
+        'His idiosyncratic approach is as refreshing as it is unorthodox.',
+        'The regulations are deliberately ambiguous, which invites litigation.',
+        'She articulated the rationale behind the restructuring with remarkable clarity.',
+        'Little did we anticipate the ramifications of that seemingly trivial decision.',
+    ],
+};
+
+export const CORRECTION_CATEGORY_LABELS: Record<CorrectionCategory, string> = {
+    'preposition': 'Preposition',
+    'tense': 'Verb Tense',
+    'word-order': 'Word Order',
+    'article': 'Article',
+    'agreement': 'Subject-Verb Agreement',
+    'word-choice': 'Word Choice',
+    'pronunciation': 'Pronunciation',
+    'other': 'Other'
+};
+
+export const RUBRIC_CRITERION_LABELS: Record<RubricCriterion, string> = {
+    'fluency': 'Fluency',
+    'accuracy': 'Accuracy',
+    'vocabulary': 'Vocabulary',
+    'interaction': 'Interaction'
+};
+
+export const RUBRIC_MAX_SCORE = 5;
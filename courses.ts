@@ -0,0 +1,146 @@
+import { Course, CourseUnit, Scenario } from './types';
+import { LEVELS } from './constants';
+
+// Built-in lesson plans. Each course is a multi-week programme of units taken
+// in order; a unit unlocks once the one before it has been completed. Unit and
+// course ids are stored with the learner's progress, so never change them.
+
+const BEGINNER = LEVELS[0];
+const INTERMEDIATE = LEVELS[1];
+const UPPER_INTERMEDIATE = LEVELS[2];
+
+const roleplay = (id: string, fields: Omit<Scenario, 'id' | 'updatedAt'>): Scenario => ({ ...fields, id: `course-${id}`, updatedAt: '2024-01-01T00:00:00.000Z' });
+
+const unit = (fields: CourseUnit): CourseUnit => fields;
+
+export const COURSES: Course[] = [
+  {
+    id: 'everyday-foundations',
+    title: 'Everyday English Foundations',
+    description: 'Six weeks of short, practical conversations for beginners: introducing yourself, talking about your day and getting things done in English.',
+    units: [
+      unit({
+        id: 'introductions',
+        title: 'Introducing yourself',
+        topic: 'Getting to Know Each Other',
+        level: BEGINNER,
+        objectives: ['Say your name, where you are from and what you do', 'Ask the other person the same questions'],
+        targetPhrases: ['My name is', "I'm from", 'I work as', 'What about you', 'Nice to meet you'],
+        completion: { minUserTurns: 6, minPhrasesUsed: 3 },
+      }),
+      unit({
+        id: 'daily-routine',
+        title: 'My daily routine',
+        topic: 'Daily Life & Routines',
+        level: BEGINNER,
+        objectives: ['Describe a normal day using the present simple', 'Say how often you do things'],
+        targetPhrases: ['usually', 'every day', 'in the morning', 'after that', 'sometimes'],
+        completion: { minUserTurns: 8, minPhrasesUsed: 3 },
+      }),
+      unit({
+        id: 'free-time',
+        title: 'Free time and hobbies',
+        topic: 'Hobbies & Interests',
+        level: BEGINNER,
+        objectives: ['Talk about what you like and do not like doing', 'Give a simple reason'],
+        targetPhrases: ['I like', "I don't like", 'in my free time', 'because', 'my favourite'],
+        completion: { minUserTurns: 8, minPhrasesUsed: 3 },
+      }),
+      unit({
+        id: 'ordering-food',
+        title: 'Ordering in a café',
+        scenario: roleplay('ordering-food', {
+          title: 'Ordering in a café',
+          coachRole: 'A friendly server in a small café',
+          learnerRole: 'A customer ordering lunch',
+          setting: 'A busy café at lunchtime',
+          goals: ['Order a drink and something to eat', 'Ask about one item on the menu', 'Ask for the bill'],
+          targetVocabulary: ["I'd like", 'Can I have', 'How much is', 'the bill, please'],
+          successCriteria: ['The customer ordered politely and paid'],
+        }),
+        level: BEGINNER,
+        objectives: ['Order food and drink politely', 'Ask a simple question about the menu'],
+        targetPhrases: ["I'd like", 'Can I have', 'How much is', 'the bill'],
+        completion: { minUserTurns: 6, minPhrasesUsed: 2 },
+      }),
+      unit({
+        id: 'last-weekend',
+        title: 'What I did last weekend',
+        topic: 'Travel & Holidays',
+        level: BEGINNER,
+        objectives: ['Tell a short story about the past using the past simple', 'Say how you felt about it'],
+        targetPhrases: ['last weekend', 'I went', 'it was', 'then', 'I felt'],
+        completion: { minUserTurns: 8, minPhrasesUsed: 3 },
+      }),
+      unit({
+        id: 'plans',
+        title: 'Making plans',
+        topic: 'Hobbies & Interests',
+        level: INTERMEDIATE,
+        objectives: ['Talk about future plans', 'Suggest something to do and agree on a time'],
+        targetPhrases: ["I'm going to", 'Would you like to', 'How about', 'Shall we', "Let's"],
+        completion: { minUserTurns: 8, minPhrasesUsed: 3 },
+      }),
+    ],
+  },
+  {
+    id: 'workplace-english',
+    title: 'English at Work',
+    description: 'A five-week programme for working professionals: talking about your job, meetings, interviews and presentations.',
+    units: [
+      unit({
+        id: 'my-job',
+        title: 'Talking about your job',
+        topic: 'Work & Career',
+        level: INTERMEDIATE,
+        objectives: ['Describe your role and responsibilities', 'Say what you enjoy and find difficult about your work'],
+        targetPhrases: ["I'm responsible for", 'I work with', 'the best part', 'challenging', 'on a typical day'],
+        completion: { minUserTurns: 8, minPhrasesUsed: 3 },
+      }),
+      unit({
+        id: 'small-talk',
+        title: 'Small talk with colleagues',
+        topic: 'Getting to Know Each Other',
+        level: INTERMEDIATE,
+        objectives: ['Start and keep a casual conversation going', 'Show interest with follow-up questions'],
+        targetPhrases: ['How was your', 'Did you hear', 'That sounds', 'Really?', 'By the way'],
+        completion: { minUserTurns: 8, minPhrasesUsed: 3 },
+      }),
+      unit({
+        id: 'meeting',
+        title: 'Giving your opinion in a meeting',
+        scenario: roleplay('meeting', {
+          title: 'Team meeting',
+          coachRole: 'A team manager running a weekly planning meeting',
+          learnerRole: 'A team member asked for their view on a new project deadline',
+          setting: 'A short video call with the team',
+          goals: ['Give your opinion on the deadline', 'Politely disagree with one point', 'Suggest an alternative'],
+          targetVocabulary: ['In my opinion', 'I see your point, but', 'What if we', 'I would suggest'],
+          successCriteria: ['The team member gave a clear opinion with a reason and proposed an alternative'],
+        }),
+        level: UPPER_INTERMEDIATE,
+        objectives: ['Give and justify an opinion', 'Disagree politely and suggest an alternative'],
+        targetPhrases: ['In my opinion', 'I see your point', 'What if we', 'I would suggest', 'I agree'],
+        completion: { minUserTurns: 8, minPhrasesUsed: 3 },
+      }),
+      unit({
+        id: 'interview',
+        title: 'Job interview',
+        topic: 'Job Interview Practice',
+        level: UPPER_INTERMEDIATE,
+        objectives: ['Talk about your experience and strengths with examples', 'Ask the interviewer a question'],
+        targetPhrases: ['I have experience in', 'For example', 'One of my strengths', 'I managed to', 'Could you tell me'],
+        completion: { minUserTurns: 10, minPhrasesUsed: 3 },
+      }),
+      unit({
+        id: 'presentation',
+        title: 'Presenting an idea',
+        topic: 'Making a Presentation',
+        level: UPPER_INTERMEDIATE,
+        objectives: ['Structure a short presentation', 'Handle a question from the audience'],
+        targetPhrases: ["Today I'd like to talk about", 'First of all', 'Moving on to', 'To sum up', "That's a good question"],
+        completion: { minUserTurns: 8, minPhrasesUsed: 3 },
+      }),
+    ],
+  },
+];
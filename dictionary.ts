@@ -0,0 +1,154 @@
+import { DictionaryEntry } from './types';
+
+// A small offline learner's dictionary for tap-to-define. Keys are dictionary
+// forms in lower case; inflected forms are looked up through the lemmatizer.
+// It favours words coaches tend to use at A1-C1 over very common function
+// words, which learners rarely need defined.
+
+const entry = (partOfSpeech: string, definition: string, example: string): DictionaryEntry => ({ partOfSpeech, definition, example });
+
+export const DICTIONARY: Record<string, DictionaryEntry> = {
+  'accomplish': entry('verb', 'to succeed in doing something, especially after trying hard', 'She accomplished everything she set out to do.'),
+  'achieve': entry('verb', 'to succeed in reaching a goal or result by effort', 'He achieved his dream of running a marathon.'),
+  'actually': entry('adverb', 'used to say what is really true, often when it is surprising', 'I actually enjoyed the exam.'),
+  'advice': entry('noun', 'an opinion someone gives you about what you should do', 'Can I give you some advice?'),
+  'afford': entry('verb', 'to have enough money or time to do or buy something', "We can't afford a new car this year."),
+  'agree': entry('verb', 'to have the same opinion as someone', 'I agree with you completely.'),
+  'although': entry('conjunction', 'despite the fact that', 'Although it was raining, we went for a walk.'),
+  'ambiguous': entry('adjective', 'having more than one possible meaning', 'The instructions were ambiguous.'),
+  'anticipate': entry('verb', 'to expect something and prepare for it', 'We anticipate a lot of visitors this weekend.'),
+  'apologize': entry('verb', 'to say that you are sorry for something', 'I apologize for being late.'),
+  'appointment': entry('noun', 'an arrangement to meet someone at a particular time', 'I have a doctor\'s appointment at three.'),
+  'appreciate': entry('verb', 'to be grateful for something; to understand the value of something', 'I really appreciate your help.'),
+  'approach': entry('noun', 'a way of dealing with something', 'We need a new approach to this problem.'),
+  'argument': entry('noun', 'a reason or set of reasons given to support an idea; a disagreement', 'Her argument was very convincing.'),
+  'arrange': entry('verb', 'to plan or organize something', 'Let\'s arrange a meeting for next week.'),
+  'articulate': entry('verb', 'to express an idea or feeling clearly in words', 'He articulated his concerns very well.'),
+  'available': entry('adjective', 'able to be used, obtained or met', 'Is this seat available?'),
+  'average': entry('adjective', 'usual or ordinary; calculated as a mean', 'The average temperature in July is 25 degrees.'),
+  'avoid': entry('verb', 'to stay away from someone or something; to prevent something happening', 'Try to avoid eating late at night.'),
+  'aware': entry('adjective', 'knowing that something exists or is happening', 'Were you aware of the problem?'),
+  'blocker': entry('noun', 'something that stops work from moving forward', 'My only blocker is waiting for the design.'),
+  'borrow': entry('verb', 'to take something from someone and agree to give it back', 'Can I borrow your pen?'),
+  'budget': entry('noun', 'the amount of money you have to spend on something', 'We went over budget on the project.'),
+  'career': entry('noun', 'the series of jobs you do during your working life', 'She has had a long career in teaching.'),
+  'challenge': entry('noun', 'something difficult that tests your ability', 'Learning a language is a real challenge.'),
+  'colleague': entry('noun', 'a person you work with', 'I had lunch with a colleague.'),
+  'commute': entry('verb', 'to travel regularly between home and work', 'I commute to the city by train.'),
+  'compare': entry('verb', 'to look at how two or more things are similar or different', 'Compare the two photos.'),
+  'complain': entry('verb', 'to say that you are not happy about something', 'He complained about the noise.'),
+  'confident': entry('adjective', 'feeling sure about your own ability', 'She felt confident before the interview.'),
+  'consensus': entry('noun', 'an opinion that everyone in a group agrees with', 'We finally reached a consensus.'),
+  'consequence': entry('noun', 'a result of something, often a bad one', 'Think about the consequences of your decision.'),
+  'consider': entry('verb', 'to think carefully about something', 'Have you considered moving abroad?'),
+  'convenient': entry('adjective', 'easy to use or suitable for your plans', 'Is Friday convenient for you?'),
+  'conversation': entry('noun', 'a talk between two or more people', 'We had a long conversation about music.'),
+  'crucial': entry('adjective', 'extremely important', 'This is a crucial moment for the team.'),
+  'culture': entry('noun', 'the way of life, customs and beliefs of a group of people', 'I love learning about Japanese culture.'),
+  'deadline': entry('noun', 'a time or date by which something must be done', 'The deadline for the report is Friday.'),
+  'decide': entry('verb', 'to choose something after thinking about it', 'I decided to stay at home.'),
+  'definitely': entry('adverb', 'certainly; without any doubt', 'I will definitely come to your party.'),
+  'delay': entry('verb', 'to make something happen later than planned', 'Our flight was delayed by two hours.'),
+  'deliberately': entry('adverb', 'on purpose; intentionally', 'He deliberately left the door open.'),
+  'describe': entry('verb', 'to say what someone or something is like', 'Can you describe your hometown?'),
+  'despite': entry('preposition', 'without being affected by something', 'Despite the rain, we had a great time.'),
+  'develop': entry('verb', 'to grow or change into something more advanced', 'The city has developed quickly.'),
+  'difference': entry('noun', 'the way in which two things are not the same', 'What\'s the difference between these two words?'),
+  'difficult': entry('adjective', 'not easy; needing effort or skill', 'The test was very difficult.'),
+  'discuss': entry('verb', 'to talk about something with other people', 'We discussed the plan at the meeting.'),
+  'effort': entry('noun', 'physical or mental work needed to do something', 'Great effort! You\'re improving.'),
+  'encourage': entry('verb', 'to give someone confidence or support to do something', 'My teacher encouraged me to speak more.'),
+  'enjoy': entry('verb', 'to get pleasure from something', 'I enjoy watching movies.'),
+  'environment': entry('noun', 'the natural world; the conditions around you', 'We should protect the environment.'),
+  'especially': entry('adverb', 'more than usual; particularly', 'I love fruit, especially mangoes.'),
+  'evaluate': entry('verb', 'to judge how good, useful or successful something is', 'We need to evaluate the results.'),
+  'eventually': entry('adverb', 'in the end, after a long time', 'Eventually, we found the hotel.'),
+  'exceed': entry('verb', 'to be more than a particular number or amount', 'The costs exceeded our budget.'),
+  'excited': entry('adjective', 'very happy and enthusiastic', 'The children are excited about the trip.'),
+  'exciting': entry('adjective', 'making you feel very happy and enthusiastic', 'Action movies are exciting.'),
+  'expect': entry('verb', 'to think that something will happen', 'I expect it will rain tomorrow.'),
+  'experience': entry('noun', 'knowledge or skill from doing something; something that happens to you', 'Do you have any work experience?'),
+  'explain': entry('verb', 'to make something clear or easy to understand', 'Could you explain that again?'),
+  'factor': entry('noun', 'one of the things that causes or influences something', 'Price is an important factor.'),
+  'familiar': entry('adjective', 'well known to you; easy to recognise', 'Her face looks familiar.'),
+  'favorite': entry('adjective', 'liked more than others of the same kind', 'What is your favorite food?'),
+  'feasibility': entry('noun', 'how possible or practical something is', 'They studied the feasibility of the plan.'),
+  'fluent': entry('adjective', 'able to speak a language easily and well', 'She is fluent in three languages.'),
+  'frequently': entry('adverb', 'often', 'I frequently travel for work.'),
+  'frustrated': entry('adjective', 'annoyed because you cannot do or achieve what you want', 'I get frustrated when I forget words.'),
+  'grammar': entry('noun', 'the rules for how words are put together in a language', 'English grammar can be tricky.'),
+  'habit': entry('noun', 'something you do regularly, often without thinking', 'Reading before bed is a good habit.'),
+  'holiday': entry('noun', 'a time when you do not work or go to school, often travelling', 'We spent our holiday in Spain.'),
+  'however': entry('adverb', 'used to add a statement that contrasts with what was said before', 'It was cheap. However, it was not very good.'),
+  'improve': entry('verb', 'to become better or make something better', 'I want to improve my English.'),
+  'include': entry('verb', 'to have something as part of a whole', 'The price includes breakfast.'),
+  'increase': entry('verb', 'to become larger in amount or size', 'Prices have increased this year.'),
+  'independent': entry('adjective', 'not needing help or control from others', 'She became independent at eighteen.'),
+  'initiative': entry('noun', 'a new plan or action to solve a problem; the ability to act without being told', 'The company launched a new green initiative.'),
+  'interview': entry('noun', 'a formal meeting where someone is asked questions, often for a job', 'I have a job interview tomorrow.'),
+  'introduce': entry('verb', 'to tell people each other\'s names when they first meet; to bring in something new', 'Let me introduce myself.'),
+  'journey': entry('noun', 'an occasion when you travel from one place to another', 'The journey took six hours.'),
+  'knowledge': entry('noun', 'information and understanding you have', 'He has a lot of knowledge about history.'),
+  'laugh': entry('verb', 'to make sounds with your voice because something is funny', 'He makes me laugh.'),
+  'manage': entry('verb', 'to succeed in doing something difficult; to be in charge of something', 'I managed to finish on time.'),
+  'meeting': entry('noun', 'an occasion when people come together to discuss something', 'The meeting starts at ten.'),
+  'mention': entry('verb', 'to speak or write about something briefly', 'She mentioned that she was tired.'),
+  'mistake': entry('noun', 'something that is wrong or not correct', 'Everyone makes mistakes.'),
+  'natural': entry('adjective', 'normal or expected; the way a native speaker would say it', 'That sounds more natural.'),
+  'necessary': entry('adjective', 'needed in order to do something', 'Is it necessary to book a table?'),
+  'neighbour': entry('noun', 'a person who lives near you', 'Our neighbours are very friendly.'),
+  'nervous': entry('adjective', 'worried and a little afraid', 'I always feel nervous before exams.'),
+  'nonetheless': entry('adverb', 'despite what has just been said', 'It was hard; nonetheless, we finished.'),
+  'opinion': entry('noun', 'what you think or believe about something', 'In my opinion, it\'s too expensive.'),
+  'opportunity': entry('noun', 'a chance to do something', 'This job is a great opportunity.'),
+  'overlook': entry('verb', 'to fail to notice or consider something', 'We overlooked an important detail.'),
+  'particularly': entry('adverb', 'especially; more than usual', 'I particularly liked the ending.'),
+  'perfect': entry('adjective', 'completely correct or without faults', 'That\'s a perfect sentence.'),
+  'perseverance': entry('noun', 'continuing to try to do something even when it is difficult', 'Her perseverance finally paid off.'),
+  'persuasive': entry('adjective', 'able to make people agree or believe something', 'He gave a very persuasive speech.'),
+  'phenomenon': entry('noun', 'something that happens or exists, especially something unusual', 'Social media is a modern phenomenon.'),
+  'phrase': entry('noun', 'a small group of words that forms part of a sentence', '"In my free time" is a useful phrase.'),
+  'postpone': entry('verb', 'to change an event to a later time', 'The match was postponed because of rain.'),
+  'practice': entry('noun', 'doing something regularly to improve your skill', 'Practice makes perfect.'),
+  'practise': entry('verb', 'to do something regularly to improve your skill', 'I practise speaking every day.'),
+  'prefer': entry('verb', 'to like one thing more than another', 'I prefer tea to coffee.'),
+  'preposition': entry('noun', 'a word such as "in", "on" or "at" that shows place, time or direction', '"In" is the correct preposition here.'),
+  'presentation': entry('noun', 'a talk that gives information about something to a group', 'I have to give a presentation at work.'),
+  'prevalent': entry('adjective', 'common in a particular place or time', 'The illness is prevalent in winter.'),
+  'probably': entry('adverb', 'almost certainly', 'I\'ll probably be late.'),
+  'pronunciation': entry('noun', 'the way a word is said', 'Your pronunciation is very clear.'),
+  'proposal': entry('noun', 'a plan or suggestion, often formal', 'The committee rejected the proposal.'),
+  'rather': entry('adverb', 'used with "would" to say what you prefer', 'I would rather stay at home.'),
+  'rationale': entry('noun', 'the reasons behind a decision or belief', 'What is the rationale for this change?'),
+  'realize': entry('verb', 'to understand or become aware of something', 'I didn\'t realize it was so late.'),
+  'recently': entry('adverb', 'not long ago', 'I recently started a new job.'),
+  'recommend': entry('verb', 'to suggest that something is good or suitable', 'Can you recommend a good restaurant?'),
+  'relax': entry('verb', 'to rest and become calm', 'I relax by listening to music.'),
+  'remarkable': entry('adjective', 'unusual or special in a way that surprises you', 'She made remarkable progress.'),
+  'remind': entry('verb', 'to help someone remember something', 'Remind me to call my mother.'),
+  'reservation': entry('noun', 'an arrangement to keep a table, room or seat for you', 'I\'d like to make a reservation for two.'),
+  'responsible': entry('adjective', 'having the job of dealing with something; being the cause of something', 'Who is responsible for this project?'),
+  'routine': entry('noun', 'the usual order in which you do things', 'My morning routine starts with coffee.'),
+  'schedule': entry('noun', 'a plan of times when things will happen', 'What\'s your schedule for tomorrow?'),
+  'sentence': entry('noun', 'a group of words that expresses a complete idea', 'Try to say the whole sentence again.'),
+  'several': entry('determiner', 'more than two but not many', 'I\'ve been there several times.'),
+  'similar': entry('adjective', 'almost the same but not exactly', 'Our jobs are quite similar.'),
+  'situation': entry('noun', 'the things that are happening at a particular time and place', 'It was a difficult situation.'),
+  'suggest': entry('verb', 'to give an idea for someone to consider', 'I suggest we meet at six.'),
+  'success': entry('noun', 'achieving what you wanted or planned', 'The party was a big success.'),
+  'suppose': entry('verb', 'to think that something is probably true', 'I suppose you\'re right.'),
+  'surprised': entry('adjective', 'feeling that something is unexpected', 'I was surprised to see him there.'),
+  'tense': entry('noun', 'the form of a verb that shows when something happens', 'Use the past tense for finished actions.'),
+  'thoroughly': entry('adverb', 'completely and carefully', 'Read the contract thoroughly.'),
+  'traffic': entry('noun', 'the vehicles moving on the roads', 'There was a lot of traffic this morning.'),
+  'trivial': entry('adjective', 'not important or serious', 'It was a trivial mistake.'),
+  'twice': entry('adverb', 'two times', 'I have seen that film twice.'),
+  'unfortunately': entry('adverb', 'used to say that something is sad or disappointing', 'Unfortunately, the shop was closed.'),
+  'unusual': entry('adjective', 'different from what is normal or expected', 'That\'s an unusual name.'),
+  'usually': entry('adverb', 'in most situations; normally', 'I usually get up at seven o\'clock.'),
+  'vocabulary': entry('noun', 'all the words a person knows or uses', 'Reading helps build your vocabulary.'),
+  'weather': entry('noun', 'the conditions in the air, such as rain, sun or wind', 'The weather is lovely today.'),
+  'weekend': entry('noun', 'Saturday and Sunday', 'What did you do at the weekend?'),
+  'worried': entry('adjective', 'unhappy because you are thinking about problems', 'She\'s worried about her exam.'),
+  'worth': entry('adjective', 'good or useful enough to do or have', 'The film is worth watching.'),
+};
@@ -0,0 +1,595 @@
+// English interface strings. Every other locale must translate each key.
+// `{name}` placeholders are filled in by `t()`.
+const en = {
+  'app.title': 'AI English Conversation Coach',
+  'app.subtitle': 'Practice your fluency and confidence with an AI partner.',
+
+  'header.learnerTitle': 'Switch learner or manage learner profiles',
+  'header.notes': 'Session Notes',
+  'header.notesTitle': 'Open session notes panel',
+  'header.review': 'Review Mistakes',
+  'header.reviewTitle': 'Review your past mistakes as flashcards',
+  'header.courses': 'Courses',
+  'header.coursesTitle': 'Follow a lesson plan one unit at a time',
+  'header.drill': 'Drill',
+  'header.drillTitle': 'Practise pronunciation by repeating sentences',
+  'header.wordList': 'Word List',
+  'header.wordListTitle': 'Words you saved from your conversations',
+  'header.history': 'View History',
+  'header.historyTitle': 'View past conversation sessions',
+  'header.progress': 'Progress',
+  'header.progressTitle': 'View your progress across sessions',
+  'header.help': 'Help & Introduction',
+  'header.helpTitle': 'Show help and instructions',
+
+  'common.dismiss': 'Dismiss this message',
+  'common.close': 'Close',
+
+  'errors.saveSession': 'Could not save your session. Please try again.',
+
+  'status.setApiKey': 'Please set your API Key to begin.',
+  'status.apiKeyLoaded': 'API Key loaded. Click the microphone to start.',
+  'status.invalidSavedKey': 'Invalid API Key found. Please set a new one.',
+  'status.offlineDemo': 'Offline demo selected. Click the microphone to start.',
+  'status.apiKeySet': 'API Key set! Ready to start a session.',
+  'status.apiKeyMissing': 'API Key not set. Please set it in the settings.',
+  'status.reportReady': 'Your report card is ready. Find it under View History.',
+  'status.sessionEnded': 'Session ended. Click the microphone to practice again.',
+  'status.placementComplete': 'Placement complete! Your level is about {level}, so we have set your level to match.',
+  'status.placementTooShort': 'That was too short to estimate your level. Try the placement again and give longer answers.',
+  'status.requestingMicrophone': 'Requesting microphone access...',
+  'status.connecting': 'Connecting to tutor...',
+  'status.reconnected': 'Reconnected! Carry on where you left off.',
+  'status.connectedDrill': 'Connected! Listen to your coach, then repeat the sentence.',
+  'status.connectedPlacement': 'Connected! Answer each question in as much detail as you can.',
+  'status.connectedVoice': 'Connected! Start speaking when you are ready.',
+  'status.connectedText': 'Connected! Type your message below.',
+  'status.microphoneFailed': 'Could not start the microphone. Please try again.',
+  'status.apiKeyRejected': 'Your API key was rejected. Please check it and try again.',
+  'status.connectFailed': 'Could not connect to the tutor. Please check your network and try again.',
+  'status.connectionLostSaved': 'Connection lost. Your conversation was saved. Click the microphone to continue.',
+  'status.reconnectingIn': 'Connection lost. Reconnecting in {seconds}s (attempt {attempt} of {max})...',
+  'status.reconnecting': 'Reconnecting to tutor (attempt {attempt} of {max})...',
+  'status.microphoneDenied': 'Microphone access denied. Please allow permission and try again.',
+  'status.startFailed': 'Could not start the session. Please try again.',
+  'status.newSession': 'New session ready. Click the microphone to start.',
+  'status.viewingSession': 'Viewing past session. Click the microphone to continue.',
+  'status.unitReady': 'Unit ready: {unit}. Click the microphone to start.',
+  'status.unitComplete': 'Unit complete: {unit}! The next unit is now unlocked.',
+  'status.courseComplete': 'Congratulations, you have completed {course}!',
+  'status.goalReached': "Time's up! Your session has been saved.",
+  'status.connectedExam': 'Connected! The speaking test has started. The examiner will not correct you until it is over.',
+  'status.examScoring': 'Test finished. Scoring your answers...',
+  'status.examScored': 'Your test results are ready.',
+  'status.drillEnded': 'Drill ended. Nice work!',
+
+  'alerts.apiKeyInitFailed': 'Failed to initialize with the provided API Key. Please check the key and try again.',
+  'alerts.apiKeyEmpty': 'Please enter a valid API Key.',
+  'alerts.saveNotesEmpty': 'Please say something to your coach to start the conversation before saving.',
+  'alerts.notesCreated': 'A new session has been created in your history and your notes have been saved.',
+  'alerts.notesUpdated': 'Session progress and notes have been updated!',
+  'alerts.exportFailed': 'Export failed. Please try again.',
+  'alerts.imported': 'Imported {count} session(s).',
+  'alerts.importedCopies': '{count} already existed and were imported as copies.',
+  'alerts.importedReviews': 'Added teacher feedback to {count} session(s).',
+  'alerts.importFailed': 'Could not import this file: {message}',
+
+  'confirm.deleteSession': 'Are you sure you want to delete this session?',
+  'confirm.clearHistory': 'Are you sure you want to delete all conversation history? This cannot be undone.',
+
+  'apiKey.title': 'Enter Your Google API Key',
+  'apiKey.intro': 'To use the AI Coach, you need a Google API key from Google AI Studio.',
+  'apiKey.step1': 'Go to',
+  'apiKey.step2': 'Click "Get API key" and create a new key.',
+  'apiKey.step3': 'Copy the key and paste it below.',
+  'apiKey.placeholder': 'Paste your API Key here',
+  'apiKey.saveTitle': 'Save API Key',
+  'apiKey.save': 'Save and Start',
+  'apiKey.demoTitle': 'Use the scripted offline demo without an API key',
+  'apiKey.demo': 'No key? Try the offline demo instead',
+
+  'history.closeTitle': 'Close history panel',
+  'history.title': 'Conversation History',
+  'history.importTitle': 'Import sessions from a JSON export',
+  'history.import': 'Import',
+  'history.exportAllTitle': 'Export all sessions',
+  'history.exportAll': 'Export All',
+  'history.search': 'Search topics, transcripts and notes...',
+  'history.empty': 'No saved conversations yet.',
+  'history.emptyHint': 'Your completed sessions will appear here.',
+  'history.noMatches': 'No sessions match your search.',
+  'history.corrections': '{count} corrections',
+  'history.estimateTitle': 'Level estimated from this session',
+  'history.estimate': 'est. {level}',
+  'history.viewTitle': 'Load and view this session',
+  'history.view': 'View',
+  'history.showReportTitle': 'Show the report card for this session',
+  'history.createReportTitle': 'Create a report card for this session',
+  'history.preparing': 'Preparing...',
+  'history.report': 'Report',
+  'history.createReport': 'Create Report',
+  'history.reviewTitle': 'Comment on and score this session as a teacher',
+  'history.review': 'Review',
+  'history.feedbackTitle': "See your teacher's comments and scores",
+  'history.feedback': 'Teacher Feedback',
+  'history.reviewedBy': 'Reviewed by {reviewer}',
+  'history.exportTitle': 'Export this session',
+  'history.export': 'Export',
+  'history.deleteTitle': 'Delete this session',
+  'history.delete': 'Delete',
+  'history.loadMoreTitle': 'Load older sessions',
+  'history.loadMore': 'Load more ({count} remaining)',
+  'history.clearTitle': 'Delete all conversation history',
+  'history.clear': 'Clear All History',
+  'history.dailyGoalMet': 'Daily goal met today',
+  'history.dailyGoalProgress': 'Today: {minutes} of {goal} min',
+  'history.streak': '{days}-day streak 🔥',
+  'history.goalMet': '✓ {goal} goal met',
+  'history.goalMissed': '{goal} goal not reached ({minutes} min, {answers} answers)',
+  'history.examBand': 'Speaking test: band {band}',
+  'history.examNotScored': 'Speaking test: not scored yet',
+  'history.examStopped': 'stopped early',
+  'history.examResults': 'Results',
+  'history.examResultsTitle': 'Show the band scores for this test',
+  'history.examScoring': 'Scoring...',
+
+  'help.closeTitle': 'Close help panel',
+  'help.title': 'How to Use Your AI Coach',
+  'help.intro': "Welcome to your personal English Conversation Coach! Here's a quick guide to get started:",
+  'help.step1Title': 'Enter API Key:',
+  'help.step1': 'First, set your Google API Key in the settings panel. This is a one-time setup.',
+  'help.step2Title': 'Configure Your Session:',
+  'help.step2': 'Use the Settings panel to choose your proficiency level, a conversation topic, and a coach voice. Click "Start New Session" when ready.',
+  'help.step3Title': 'Start Speaking:',
+  'help.step3': 'Click the large microphone button. Your AI coach, {coach}, will greet you and start a conversation based on your chosen topic.',
+  'help.step4Title': 'Receive Feedback:',
+  'help.step4': 'Your coach will provide instant feedback, gently correcting grammar and suggesting more natural ways to phrase things.',
+  'help.step5Title': 'Review Your Progress:',
+  'help.step5': 'After your session, find it saved in the "View History" menu to track your improvement over time.',
+  'help.done': "Got it, let's practice!",
+
+  'settings.closeTitle': 'Close settings panel',
+  'settings.openTitle': 'Open settings panel',
+  'settings.title': 'Settings',
+  'settings.meetCoach': '👋 Meet Your Coach, {coach}!',
+  'settings.coachIntro': "I'll chat with you on different topics to help improve your English fluency and confidence. I'll provide feedback and corrections along the way. Let's get started!",
+  'settings.uiLanguage': 'Interface Language',
+  'settings.level': 'Level',
+  'settings.latestEstimate': 'Latest estimate:',
+  'settings.estimateFromPlacement': 'placement',
+  'settings.estimateFromSession': 'session',
+  'settings.findLevelTitle': 'Have a short conversation to find your level',
+  'settings.findLevel': 'Not sure? Find my level...',
+  'settings.topic': 'Topic',
+  'settings.topicsGroup': 'Topics',
+  'settings.scenariosGroup': 'My Scenarios',
+  'settings.manageScenariosTitle': 'Create and edit your own role-play scenarios',
+  'settings.manageScenarios': 'Manage role-play scenarios...',
+  'settings.coachVoice': 'Coach Voice',
+  'settings.feedbackStyle': 'Feedback Style',
+  'settings.flaggedCategories': 'Mistakes to point out',
+  'settings.sessionFeedback': 'This session continues with the feedback it was practised with: {style}. Change a setting to use yours instead.',
+  'settings.nativeLanguage': 'Explain grammar in my language',
+  'settings.nativeLanguageOff': 'No, English only',
+  'settings.nativeLanguageHint': 'Only at Beginner (A1-A2) level. The conversation itself stays in English.',
+  'settings.pace': 'Coach Speaking Pace',
+  'settings.sessionGoal': 'Session Goal',
+  'settings.goalMinutes': '{minutes} minutes',
+  'settings.goalTurns': '{turns} answers',
+  'settings.sessionGoalHint': 'The coach keeps an eye on the time and wraps the session up for you.',
+  'settings.exam': 'Speaking Test',
+  'settings.examHint': 'A practice test in the style of IELTS Speaking: an interview, a long turn with a cue card and a discussion, about 12 minutes in all. You get band scores at the end.',
+  'settings.startExam': 'Take a practice speaking test',
+  'settings.startExamTitle': 'Start a timed speaking test with an examiner',
+  'settings.dailyGoal': 'Daily Goal',
+  'settings.goalMinutesPerDay': '{minutes} minutes a day',
+  'settings.dailyProgress': 'Today: {minutes} of {goal} min.',
+  'settings.streak': '🔥 {days}-day streak',
+  'settings.backend': 'Voice Backend',
+  'settings.backendGemini': 'Gemini Live (online)',
+  'settings.backendMock': 'Offline demo (scripted)',
+  'settings.microphone': 'Microphone',
+  'settings.systemDefault': 'System default',
+  'settings.microphoneNumbered': 'Microphone {number}',
+  'settings.inputMode': 'Input Mode',
+  'settings.vadThreshold': 'Voice threshold: {percent}%',
+  'settings.vadHint': 'Raise it if background noise keeps interrupting, lower it if your voice is missed.',
+  'settings.reports': 'Create a report card after each session',
+  'settings.profile': 'Tell the coach about my weak spots and word list',
+  'settings.profileTitle': 'See and edit what the coach is told about you',
+  'settings.profileEmpty': 'View learner profile (empty)',
+  'settings.profileEdit': 'View & edit learner profile',
+  'settings.apiKeyTitle': 'Set your Google API Key',
+  'settings.apiKeySet': 'API Key Set',
+  'settings.setApiKey': 'Set API Key',
+  'settings.newSessionTitle': 'Start a fresh conversation',
+  'settings.newSession': '🔄 Start New Session',
+
+  'feedbackStyle.detailed': 'Immediate, detailed breakdown',
+  'feedbackStyle.recast': 'Brief recast only',
+  'feedbackStyle.deferred': 'Deferred (review at the end)',
+  'feedbackStyle.fluency': 'Fluency only (no corrections)',
+
+  'pace.slow': 'Slow',
+  'pace.normal': 'Normal',
+  'pace.fast': 'Natural / fast',
+
+  'practiceMode.open': 'Open-ended',
+  'practiceMode.timed': 'Timed session',
+  'practiceMode.turns': 'Set number of answers',
+  'practiceMode.ielts-part2': 'IELTS Speaking Part 2 (1 min prep, 2 min talk)',
+
+  'inputMode.always-on': 'Always on',
+  'inputMode.push-to-talk': 'Push to talk (hold Space)',
+  'inputMode.vad': 'Voice activated',
+
+  'category.preposition': 'Preposition',
+  'category.tense': 'Verb Tense',
+  'category.word-order': 'Word Order',
+  'category.article': 'Article',
+  'category.agreement': 'Subject-Verb Agreement',
+  'category.word-choice': 'Word Choice',
+  'category.pronunciation': 'Pronunciation',
+  'category.other': 'Other',
+
+  'main.switchLevelTitle': 'Switch to {level}',
+  'main.switchLevel': 'Switch to {level}',
+  'main.recommendUp': 'You have averaged fewer than {threshold} corrections per 100 words over your last {count} {current} sessions. Try {level}.',
+  'main.recommendDown': 'You have averaged more than {threshold} corrections per 100 words over your last {count} {current} sessions. {level} may let you speak more freely.',
+  'main.keepLevelTitle': 'Keep your current level',
+  'main.notNow': 'Not now',
+  'main.placementProgress': 'Placement conversation: {count} of {total} answers',
+  'main.unitProgress': 'Course unit: {unit} · {answers} of {minAnswers} answers · {phrases} of {minPhrases} phrases used',
+  'main.sessionReady': 'Your session is ready.',
+  'main.pressMic': 'Press the microphone button to begin your voice conversation, or type a message below.',
+  'main.setKeyFirst': 'Please set your API Key in the settings first.',
+  'main.typed': 'Typed',
+  'main.typeMessage': 'Type a message to your coach...',
+  'main.typeToStart': 'Type a message to start a text conversation...',
+  'main.sendTitle': 'Send your typed message',
+  'main.stopSession': 'Stop session',
+  'main.startSession': 'Start session',
+  'main.reviewMistakesTitle': 'Ask your coach to go through the mistakes saved so far',
+  'main.reviewMistakes': 'Review my mistakes',
+  'main.microphoneLevel': 'Microphone level',
+  'main.holdToTalkTitle': 'Hold to talk (or hold Space)',
+  'main.talking': 'Talking...',
+  'main.talkTimeTitle': 'How much of the speaking time was yours, measured from the audio',
+  'main.talkTimeYou': 'You {percent}%',
+  'main.talkTimeCoach': 'Coach {percent}%',
+  'main.averagePauseTitle': 'Average pause between the coach finishing and you starting to answer',
+  'main.averagePause': 'avg. pause {seconds}s',
+  'main.holdToTalk': 'Hold to talk',
+
+  'notes.closeTitle': 'Close notes panel',
+  'notes.general': 'General Notes',
+  'notes.placeholder': 'Jot down any thoughts, corrections, or feedback from your session...',
+  'notes.saveDisabledTitle': 'Start or load a session to save notes',
+  'notes.saveTitle': 'Save your notes to the current session',
+  'notes.save': 'Save Notes to Session',
+
+  'course.endSessionFirst': 'End your current session first.',
+  'course.closeTitle': 'Close course panel',
+  'course.title': 'Courses',
+  'course.intro': 'Work through a lesson plan one unit at a time. Finish a unit to unlock the next one.',
+  'course.unitsCompleted': '{count} of {total} units completed',
+  'course.inProgress': 'In progress',
+  'course.rolePlay': 'Role-play: {title}',
+  'course.phrases': 'Phrases:',
+  'course.toComplete': 'To complete: give at least {turns} answers and use {phrases} of the phrases.',
+  'course.soFar': 'So far: {turns} answers, {phrases} phrases.',
+  'course.startUnitTitle': 'Set up a session for this unit',
+  'course.startUnit': 'Start unit',
+  'course.practiseAgain': 'Practise again',
+  'course.completedTitle': 'Open the session in which you completed this unit',
+  'course.completedOn': 'Completed {date}',
+
+  'courseStatus.completed': 'Done',
+  'courseStatus.unlocked': 'Next',
+  'courseStatus.locked': 'Locked',
+
+  'learner.endSessionFirst': 'End your current session before switching learner.',
+  'learner.closeTitle': 'Close learner profiles',
+  'learner.title': 'Learners',
+  'learner.intro': 'Everyone sharing this device gets their own sessions, notes, word list and settings.',
+  'learner.confirmDelete': 'Delete {name} and all of their sessions, words and progress? This cannot be undone.',
+  'learner.wrongPin': 'That PIN is not right. Please try again.',
+  'learner.nameRequired': 'Please enter a name.',
+  'learner.pinFormat': 'A PIN must be 4 to 8 digits.',
+  'learner.pinToDelete': "Enter {name}'s PIN to delete their profile.",
+  'learner.pinToContinue': "Enter {name}'s PIN to continue.",
+  'learner.pinPlaceholder': 'PIN',
+  'learner.continue': 'Continue',
+  'learner.switchLearner': 'Switch learner',
+  'learner.back': 'Back',
+  'learner.name': 'Name',
+  'learner.namePlaceholder': 'e.g. Minh',
+  'learner.nativeLanguage': 'Native language',
+  'learner.defaultLevel': 'Default level',
+  'learner.defaultTopic': 'Default topic',
+  'learner.defaultVoice': 'Default coach voice',
+  'learner.notSet': 'Not set',
+  'learner.pin': 'PIN (optional)',
+  'learner.pinKeepPlaceholder': 'Leave blank to keep the current PIN',
+  'learner.pinNewPlaceholder': '4 to 8 digits',
+  'learner.removePin': 'Remove the PIN',
+  'learner.saveChanges': 'Save Changes',
+  'learner.add': 'Add Learner',
+  'learner.addTitle': 'Add someone else who uses this device',
+  'learner.cancel': 'Cancel',
+  'learner.hasPin': '(PIN)',
+  'learner.speaker': '{language} speaker',
+  'learner.unlock': 'Unlock',
+  'learner.edit': 'Edit',
+  'learner.editTitle': 'Edit your name, defaults and PIN',
+  'learner.switch': 'Switch',
+  'learner.switchTitle': 'Switch to {name}',
+  'learner.delete': 'Delete',
+  'learner.deleteTitle': 'Delete {name} and their data',
+
+  'timer.cueCard': 'Listen to your cue card. Preparation starts when the coach has finished.',
+  'timer.prep': 'Preparation time: {time}',
+  'timer.timeLeft': 'Time left: {time}',
+  'timer.answers': 'Answers: {count} of {total}',
+  'timer.wrapUp': "Time's up. The coach is wrapping up...",
+
+  'goal.minutes': '{minutes}-minute',
+  'goal.turns': '{turns}-answer',
+  'goal.ieltsPart2': 'IELTS Part 2',
+
+  'examPart.interview': 'Part 1: Interview',
+  'examPart.long-turn': 'Part 2: Long turn',
+  'examPart.discussion': 'Part 3: Discussion',
+
+  'examCriterion.fluency': 'Fluency and coherence',
+  'examCriterion.lexical': 'Lexical resource',
+  'examCriterion.grammar': 'Grammatical range and accuracy',
+  'examCriterion.pronunciation': 'Pronunciation',
+
+  'exam.cueCard': 'Listen to your cue card',
+  'exam.prep': 'Preparation time: {time}',
+  'exam.timeLeft': '{time} left',
+  'exam.closing': 'The test is over',
+  'exam.resultsCloseTitle': 'Close results',
+  'exam.resultsTitle': 'Speaking Test Results',
+  'exam.stoppedEarly': 'Stopped before the end of the test',
+  'exam.band': 'Band',
+  'exam.bandScore': 'Band {band}',
+  'exam.scoredByExaminer': 'Scored by the examiner model on {date}. Practice bands are a guide, not an official score.',
+  'exam.scoredOffline': 'Estimated offline from your transcript on {date}. Practice bands are a guide, not an official score.',
+  'exam.scoringTest': 'Scoring your test...',
+  'exam.notScored': 'This test has not been scored yet.',
+  'exam.transcript': 'Transcript',
+  'exam.you': 'You',
+  'exam.examiner': 'Examiner',
+  'exam.scoreTitle': 'Mark the test again from the transcript',
+  'exam.scoring': 'Scoring...',
+  'exam.scoreAgain': 'Score Again',
+  'exam.score': 'Score Test',
+
+  'drill.setKeyFirst': 'Set your API Key or choose the offline demo first.',
+  'drill.endConversationFirst': 'End your conversation session first.',
+  'drill.closeTitle': 'Close drill panel',
+  'drill.title': 'Pronunciation Drill',
+  'drill.intro': 'Your coach reads a sentence, you repeat it, and every word is checked.',
+  'drill.sentences': 'Sentences',
+  'drill.position': 'Sentence {index} of {total}',
+  'drill.hearing': 'Hearing: {text}',
+  'drill.yourAttempt': 'Your attempt',
+  'drill.heardTitle': 'Heard "{word}"',
+  'drill.missedTitle': 'Missed',
+  'drill.extraTitle': 'Not in the sentence',
+  'drill.legendCorrect': 'correct',
+  'drill.legendSubstituted': 'substituted',
+  'drill.legendMissed': 'missed',
+  'drill.legendExtra': 'extra',
+  'drill.attempt': 'attempt',
+  'drill.attempts': 'attempts',
+  'drill.best': 'best',
+  'drill.recent': 'Recent: {scores}',
+  'drill.previous': 'Previous',
+  'drill.previousTitle': 'Previous sentence',
+  'drill.repeat': 'Repeat',
+  'drill.repeatTitle': 'Hear the sentence again and have another go',
+  'drill.next': 'Next',
+  'drill.nextTitle': 'Next sentence',
+  'drill.stop': 'Stop Drill',
+  'drill.stopTitle': 'End the drill',
+  'drill.start': 'Start Drill',
+  'drill.startTitle': 'Start reading sentences aloud with your coach',
+
+  'drillSource.corrections': 'My corrected sentences',
+  'drillSource.scenario': 'Scenario vocabulary',
+  'drillSource.built-in': 'Built-in sentences for my level',
+
+  'drillEmpty.corrections': "No corrected sentences yet. Have a conversation first and your coach's corrections will show up here.",
+  'drillEmpty.scenario': 'Pick a role-play scenario with target vocabulary in Settings to drill its phrases.',
+  'drillEmpty.built-in': 'There are no built-in sentences for this level.',
+
+  'review.closeTitle': 'Close review panel',
+  'review.title': 'Review Mistakes',
+  'review.counts': '{due} due • {total} cards total',
+  'review.empty': 'No mistakes to review yet.',
+  'review.emptyHint': 'Corrections from your coach will appear here as flashcards.',
+  'review.caughtUp': 'All caught up!',
+  'review.nextDue': 'Next card is due {date}.',
+  'review.youSaid': 'You said:',
+  'review.better': 'Better:',
+  'review.gradeTitle': 'Rate this card as {grade}',
+  'review.showAnswer': 'Show Answer',
+  'review.showAnswerTitle': 'Reveal the corrected sentence',
+
+  'reviewGrade.again': 'Again',
+  'reviewGrade.hard': 'Hard',
+  'reviewGrade.good': 'Good',
+  'reviewGrade.easy': 'Easy',
+
+  'progress.closeTitle': 'Close progress dashboard',
+  'progress.title': 'Your Progress',
+  'progress.empty': 'No saved conversations yet.',
+  'progress.emptyHint': 'Complete a session to start tracking your progress.',
+  'progress.noData': 'No data yet.',
+  'progress.sessions': 'Sessions',
+  'progress.words': 'Words',
+  'progress.correctionsShort': 'Corr./100w',
+  'progress.speakingMinutes': 'Speaking minutes (est.)',
+  'progress.wordsSpoken': 'Words spoken',
+  'progress.wordsPerTurn': 'Words per turn',
+  'progress.vocabularyRange': 'Vocabulary range',
+  'progress.correctionsPer100': 'Corrections / 100 words',
+  'progress.minutesPerDay': 'Speaking minutes per day',
+  'progress.minutesValue': '{value} min',
+  'progress.wordsPerSession': 'Words per session',
+  'progress.wordsValue': '{value} words',
+  'progress.vocabularyPerSession': 'Vocabulary range per session',
+  'progress.distinctWordsValue': '{value} distinct words',
+  'progress.correctionsPer100Chart': 'Corrections per 100 words',
+  'progress.estimatedLevel': 'Estimated level (CEFR)',
+  'progress.byLevel': 'By level',
+  'progress.byTopic': 'By topic',
+
+  'scenario.closeTitle': 'Close scenario editor',
+  'scenario.heading': 'My Role-play Scenarios',
+  'scenario.new': '+ New Scenario',
+  'scenario.newTitle': 'Create a new scenario',
+  'scenario.import': 'Import',
+  'scenario.importTitle': 'Import a shared scenario',
+  'scenario.importLabel': 'Paste a shared scenario (JSON) or choose a file',
+  'scenario.importButton': 'Import Scenario',
+  'scenario.importFailed': 'Could not import scenario: {message}',
+  'scenario.importFailedUnknown': 'Could not import scenario.',
+  'scenario.titleRequired': 'Please give your scenario a title.',
+  'scenario.confirmDelete': 'Delete the scenario "{title}"?',
+  'scenario.title': 'Title',
+  'scenario.titlePlaceholder': 'e.g. Daily standup with my team',
+  'scenario.coachRole': "Coach's role",
+  'scenario.coachRolePlaceholder': 'e.g. Scrum master',
+  'scenario.learnerRole': 'Your role',
+  'scenario.learnerRolePlaceholder': 'e.g. Backend developer',
+  'scenario.setting': 'Setting',
+  'scenario.settingPlaceholder': 'e.g. A 15-minute video call at the start of the sprint',
+  'scenario.goals': 'Goals to accomplish (one per line)',
+  'scenario.goalsPlaceholder': 'e.g. Report what you did yesterday',
+  'scenario.vocabulary': 'Target vocabulary (one per line)',
+  'scenario.vocabularyPlaceholder': 'e.g. blocker',
+  'scenario.criteria': 'Success criteria (one per line)',
+  'scenario.criteriaPlaceholder': 'e.g. The coach understands your blocker and agrees on a next step',
+  'scenario.save': 'Save Scenario',
+  'scenario.saveTitle': 'Save this scenario',
+  'scenario.share': 'Share (JSON)',
+  'scenario.shareTitle': 'Download this scenario to share it',
+  'scenario.delete': 'Delete',
+  'scenario.deleteTitle': 'Delete this scenario',
+
+  'report.estimatedLevel': 'Estimated level:',
+  'report.example': 'e.g. “{example}”',
+  'report.recurringMistakes': 'Recurring mistakes',
+  'report.newVocabulary': 'New vocabulary you used',
+  'report.phrases': 'Phrases to learn',
+  'report.goals': 'Goals for next time',
+  'report.byCoach': 'Written by your coach on {date}',
+  'report.offline': 'Generated offline from your transcript on {date}',
+
+  'reportLevel.below': 'below the level you selected. Try an easier level for a while.',
+  'reportLevel.matches': 'in line with the level you selected.',
+  'reportLevel.above': 'above the level you selected. You may be ready for a harder level.',
+
+  'wordList.closeTitle': 'Close word list',
+  'wordList.title': 'Word List',
+  'wordList.intro': 'Tap any word in the conversation to look it up and save it. Use your words in later sessions to practise them.',
+  'wordList.empty': 'No saved words yet.',
+  'wordList.remove': 'Remove',
+  'wordList.removeTitle': 'Remove from word list',
+  'wordList.notUsed': 'Not used yet since you saved it.',
+  'wordList.usedCorrectlyOnce': 'Used correctly 1 time',
+  'wordList.usedCorrectly': 'Used correctly {count} times',
+  'wordList.correctedOnce': 'corrected 1 time',
+  'wordList.corrected': 'corrected {count} times',
+  'wordList.lastUsed': 'last {date}',
+
+  'wordPopover.label': 'Definition of {word}',
+  'wordPopover.notInDictionary': 'This word is not in the offline dictionary. You can still add it to your word list.',
+  'wordPopover.saved': 'In your word list',
+  'wordPopover.save': 'Add to word list',
+
+  'profile.closeTitle': 'Close learner profile',
+  'profile.title': 'My Learner Profile',
+  'profile.intro': 'This is what your coach is told about you at the start of each conversation. It is built from your recent sessions, your word list and your last report card.',
+  'profile.edited': 'You have edited it, so it no longer updates on its own.',
+  'profile.focusAreas': 'Mistakes to practise (one per line)',
+  'profile.focusAreasPlaceholder': 'e.g. Prepositions of time',
+  'profile.studyWords': 'Study words (one per line)',
+  'profile.studyWordsPlaceholder': 'e.g. postpone',
+  'profile.goals': 'Goals (one per line)',
+  'profile.goalsPlaceholder': 'e.g. Give longer answers with a reason or an example',
+  'profile.preview': 'What the coach will see',
+  'profile.previewEmpty': 'Nothing yet. Practise a few sessions or add words to your word list.',
+  'profile.save': 'Save Profile',
+  'profile.saveTitle': 'Save your changes to the profile',
+  'profile.rebuild': 'Rebuild from History',
+  'profile.rebuildTitle': 'Throw away your edits and rebuild the profile from your history',
+
+  'coachFeedback.original': 'You said',
+  'coachFeedback.breakdown': 'Why',
+  'coachFeedback.perfect': 'Better',
+
+  'correction.whyTitle': 'Show why this was corrected',
+  'correction.better': 'Better: "{corrected}"',
+
+  'audio.play': 'Play recording',
+  'audio.stop': 'Stop playback',
+  'audio.unavailable': 'Recording is no longer available',
+
+  'exportFormat.json': 'JSON (re-importable)',
+  'exportFormat.markdown': 'Markdown transcript',
+  'exportFormat.srt': 'SRT subtitles',
+  'exportFormat.vtt': 'WebVTT subtitles',
+  'exportFormat.anki': 'Anki deck (CSV)',
+
+  'reviewer.closeTitle': 'Close review',
+  'reviewer.reviewTitle': 'Review Session',
+  'reviewer.feedbackTitle': 'Teacher Feedback',
+  'reviewer.reviewedBy': 'Reviewed by {reviewer} on {date}',
+  'reviewer.yourTeacher': 'your teacher',
+  'reviewer.emptyOnSave': 'Add a comment, a score or a summary before saving the review.',
+  'reviewer.emptyOnSend': 'Add a comment, a score or a summary before sending the review.',
+  'reviewer.reviewer': 'Reviewer',
+  'reviewer.reviewerPlaceholder': 'Your name',
+  'reviewer.rubric': 'Rubric',
+  'reviewer.clearScore': 'Clear this score',
+  'reviewer.score': 'Score {score} of {max}',
+  'reviewer.noScores': 'No scores given.',
+  'reviewer.summary': 'Summary',
+  'reviewer.summaryPlaceholder': 'What went well, and what to work on next',
+  'reviewer.noSummary': 'No summary written.',
+  'reviewer.transcript': 'Transcript',
+  'reviewer.learner': 'Learner',
+  'reviewer.coach': 'Coach',
+  'reviewer.clearMark': 'Clear this mark',
+  'reviewer.agree': 'Agree',
+  'reviewer.disagree': 'Disagree',
+  'reviewer.agreeTitle': "Agree with the coach's correction",
+  'reviewer.disagreeTitle': "Disagree with the coach's correction",
+  'reviewer.agreeMark': 'Teacher: agrees',
+  'reviewer.disagreeMark': 'Teacher: disagrees',
+  'reviewer.commentPlaceholder': 'Comment on this turn',
+  'reviewer.addComment': 'Add comment',
+  'reviewer.teacher': 'Teacher:',
+  'reviewer.save': 'Save Review',
+  'reviewer.saveTitle': 'Save the review with this session',
+  'reviewer.export': 'Export for Learner',
+  'reviewer.exportTitle': 'Save the review and download the session for the learner to import',
+  'reviewer.edit': 'Edit Review',
+  'reviewer.editTitle': 'Change the comments, marks and scores',
+
+  'rubric.fluency': 'Fluency',
+  'rubric.fluencyHint': 'Speaks at length without long pauses or restarts',
+  'rubric.accuracy': 'Accuracy',
+  'rubric.accuracyHint': 'Grammar and word forms are correct',
+  'rubric.vocabulary': 'Vocabulary',
+  'rubric.vocabularyHint': 'Range and precision of the words used',
+  'rubric.interaction': 'Interaction',
+  'rubric.interactionHint': 'Responds to the coach, asks questions and keeps the conversation going',
+};
+
+export default en;
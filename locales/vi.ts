@@ -0,0 +1,596 @@
+import { LocaleMessages } from '../services/i18nService';
+
+// Vietnamese interface strings.
+const vi: LocaleMessages = {
+  'app.title': 'Huấn luyện viên hội thoại tiếng Anh AI',
+  'app.subtitle': 'Luyện nói trôi chảy và tự tin cùng một bạn đồng hành AI.',
+
+  'header.learnerTitle': 'Đổi người học hoặc quản lý hồ sơ người học',
+  'header.notes': 'Ghi chú buổi học',
+  'header.notesTitle': 'Mở bảng ghi chú buổi học',
+  'header.review': 'Ôn lỗi sai',
+  'header.reviewTitle': 'Ôn lại các lỗi đã mắc dưới dạng thẻ ghi nhớ',
+  'header.courses': 'Khóa học',
+  'header.coursesTitle': 'Học theo giáo trình, từng bài một',
+  'header.drill': 'Luyện phát âm',
+  'header.drillTitle': 'Luyện phát âm bằng cách nhắc lại câu',
+  'header.wordList': 'Sổ từ vựng',
+  'header.wordListTitle': 'Các từ bạn đã lưu từ các cuộc hội thoại',
+  'header.history': 'Xem lịch sử',
+  'header.historyTitle': 'Xem các buổi hội thoại trước',
+  'header.progress': 'Tiến độ',
+  'header.progressTitle': 'Xem tiến độ của bạn qua các buổi học',
+  'header.help': 'Trợ giúp & Giới thiệu',
+  'header.helpTitle': 'Hiện trợ giúp và hướng dẫn',
+
+  'common.dismiss': 'Đóng thông báo này',
+  'common.close': 'Đóng',
+
+  'errors.saveSession': 'Không thể lưu buổi học. Vui lòng thử lại.',
+
+  'status.setApiKey': 'Vui lòng nhập API Key để bắt đầu.',
+  'status.apiKeyLoaded': 'Đã tải API Key. Nhấn vào micro để bắt đầu.',
+  'status.invalidSavedKey': 'API Key đã lưu không hợp lệ. Vui lòng nhập key mới.',
+  'status.offlineDemo': 'Đã chọn bản demo ngoại tuyến. Nhấn vào micro để bắt đầu.',
+  'status.apiKeySet': 'Đã lưu API Key! Sẵn sàng bắt đầu buổi học.',
+  'status.apiKeyMissing': 'Chưa có API Key. Vui lòng nhập trong phần cài đặt.',
+  'status.reportReady': 'Phiếu nhận xét của bạn đã sẵn sàng. Xem trong mục Xem lịch sử.',
+  'status.sessionEnded': 'Buổi học đã kết thúc. Nhấn vào micro để luyện tiếp.',
+  'status.placementComplete': 'Đã xong bài xếp lớp! Trình độ của bạn khoảng {level}, nên chúng tôi đã chọn trình độ phù hợp.',
+  'status.placementTooShort': 'Cuộc trò chuyện quá ngắn để ước lượng trình độ. Hãy làm lại bài xếp lớp và trả lời dài hơn.',
+  'status.requestingMicrophone': 'Đang xin quyền dùng micro...',
+  'status.connecting': 'Đang kết nối với gia sư...',
+  'status.reconnected': 'Đã kết nối lại! Hãy tiếp tục từ chỗ bạn dừng.',
+  'status.connectedDrill': 'Đã kết nối! Hãy nghe huấn luyện viên rồi nhắc lại câu.',
+  'status.connectedPlacement': 'Đã kết nối! Hãy trả lời mỗi câu hỏi càng chi tiết càng tốt.',
+  'status.connectedVoice': 'Đã kết nối! Hãy bắt đầu nói khi bạn sẵn sàng.',
+  'status.connectedText': 'Đã kết nối! Hãy gõ tin nhắn bên dưới.',
+  'status.microphoneFailed': 'Không thể bật micro. Vui lòng thử lại.',
+  'status.apiKeyRejected': 'API key của bạn bị từ chối. Vui lòng kiểm tra và thử lại.',
+  'status.connectFailed': 'Không thể kết nối với gia sư. Vui lòng kiểm tra mạng và thử lại.',
+  'status.connectionLostSaved': 'Mất kết nối. Cuộc hội thoại đã được lưu. Nhấn vào micro để tiếp tục.',
+  'status.reconnectingIn': 'Mất kết nối. Đang kết nối lại sau {seconds} giây (lần {attempt}/{max})...',
+  'status.reconnecting': 'Đang kết nối lại với gia sư (lần {attempt}/{max})...',
+  'status.microphoneDenied': 'Không có quyền dùng micro. Vui lòng cho phép rồi thử lại.',
+  'status.startFailed': 'Không thể bắt đầu buổi học. Vui lòng thử lại.',
+  'status.newSession': 'Buổi học mới đã sẵn sàng. Nhấn vào micro để bắt đầu.',
+  'status.viewingSession': 'Đang xem buổi học trước. Nhấn vào micro để tiếp tục.',
+  'status.unitReady': 'Bài học đã sẵn sàng: {unit}. Nhấn vào micro để bắt đầu.',
+  'status.unitComplete': 'Đã hoàn thành bài: {unit}! Bài tiếp theo đã được mở khóa.',
+  'status.courseComplete': 'Chúc mừng, bạn đã hoàn thành khóa {course}!',
+  'status.goalReached': 'Hết giờ! Buổi học của bạn đã được lưu.',
+  'status.connectedExam': 'Đã kết nối! Bài thi nói đã bắt đầu. Giám khảo sẽ không sửa lỗi cho bạn cho đến khi thi xong.',
+  'status.examScoring': 'Đã thi xong. Đang chấm điểm câu trả lời của bạn...',
+  'status.examScored': 'Kết quả bài thi của bạn đã sẵn sàng.',
+  'status.drillEnded': 'Đã kết thúc bài luyện. Làm tốt lắm!',
+
+  'alerts.apiKeyInitFailed': 'Không thể khởi tạo với API Key đã nhập. Vui lòng kiểm tra key và thử lại.',
+  'alerts.apiKeyEmpty': 'Vui lòng nhập API Key hợp lệ.',
+  'alerts.saveNotesEmpty': 'Hãy nói gì đó với huấn luyện viên để bắt đầu hội thoại trước khi lưu.',
+  'alerts.notesCreated': 'Một buổi học mới đã được tạo trong lịch sử và ghi chú của bạn đã được lưu.',
+  'alerts.notesUpdated': 'Đã cập nhật tiến độ buổi học và ghi chú!',
+  'alerts.exportFailed': 'Xuất dữ liệu thất bại. Vui lòng thử lại.',
+  'alerts.imported': 'Đã nhập {count} buổi học.',
+  'alerts.importedCopies': '{count} buổi đã có sẵn nên được nhập dưới dạng bản sao.',
+  'alerts.importedReviews': 'Đã thêm nhận xét của giáo viên vào {count} buổi học.',
+  'alerts.importFailed': 'Không thể nhập tệp này: {message}',
+
+  'confirm.deleteSession': 'Bạn có chắc muốn xóa buổi học này không?',
+  'confirm.clearHistory': 'Bạn có chắc muốn xóa toàn bộ lịch sử hội thoại không? Thao tác này không thể hoàn tác.',
+
+  'apiKey.title': 'Nhập Google API Key của bạn',
+  'apiKey.intro': 'Để dùng Huấn luyện viên AI, bạn cần một Google API key từ Google AI Studio.',
+  'apiKey.step1': 'Truy cập',
+  'apiKey.step2': 'Nhấn "Get API key" và tạo một key mới.',
+  'apiKey.step3': 'Sao chép key và dán vào ô bên dưới.',
+  'apiKey.placeholder': 'Dán API Key của bạn vào đây',
+  'apiKey.saveTitle': 'Lưu API Key',
+  'apiKey.save': 'Lưu và bắt đầu',
+  'apiKey.demoTitle': 'Dùng bản demo ngoại tuyến có sẵn kịch bản, không cần API key',
+  'apiKey.demo': 'Chưa có key? Hãy thử bản demo ngoại tuyến',
+
+  'history.closeTitle': 'Đóng bảng lịch sử',
+  'history.title': 'Lịch sử hội thoại',
+  'history.importTitle': 'Nhập các buổi học từ tệp JSON đã xuất',
+  'history.import': 'Nhập',
+  'history.exportAllTitle': 'Xuất tất cả buổi học',
+  'history.exportAll': 'Xuất tất cả',
+  'history.search': 'Tìm chủ đề, nội dung hội thoại và ghi chú...',
+  'history.empty': 'Chưa có cuộc hội thoại nào được lưu.',
+  'history.emptyHint': 'Các buổi học đã hoàn thành sẽ hiện ở đây.',
+  'history.noMatches': 'Không có buổi học nào khớp với tìm kiếm.',
+  'history.corrections': '{count} lỗi sửa',
+  'history.estimateTitle': 'Trình độ ước lượng từ buổi học này',
+  'history.estimate': 'ước lượng {level}',
+  'history.viewTitle': 'Mở và xem buổi học này',
+  'history.view': 'Xem',
+  'history.showReportTitle': 'Hiện phiếu nhận xét của buổi học này',
+  'history.createReportTitle': 'Tạo phiếu nhận xét cho buổi học này',
+  'history.preparing': 'Đang chuẩn bị...',
+  'history.report': 'Nhận xét',
+  'history.createReport': 'Tạo nhận xét',
+  'history.reviewTitle': 'Nhận xét và chấm điểm buổi học này với vai trò giáo viên',
+  'history.review': 'Chấm bài',
+  'history.feedbackTitle': 'Xem nhận xét và điểm của giáo viên',
+  'history.feedback': 'Nhận xét của GV',
+  'history.reviewedBy': 'Giáo viên {reviewer} đã chấm',
+  'history.exportTitle': 'Xuất buổi học này',
+  'history.export': 'Xuất',
+  'history.deleteTitle': 'Xóa buổi học này',
+  'history.delete': 'Xóa',
+  'history.loadMoreTitle': 'Tải các buổi học cũ hơn',
+  'history.loadMore': 'Tải thêm (còn {count})',
+  'history.clearTitle': 'Xóa toàn bộ lịch sử hội thoại',
+  'history.clear': 'Xóa toàn bộ lịch sử',
+  'history.dailyGoalMet': 'Hôm nay đã đạt mục tiêu',
+  'history.dailyGoalProgress': 'Hôm nay: {minutes}/{goal} phút',
+  'history.streak': 'Chuỗi {days} ngày 🔥',
+  'history.goalMet': '✓ Đạt mục tiêu {goal}',
+  'history.goalMissed': 'Chưa đạt mục tiêu {goal} ({minutes} phút, {answers} câu trả lời)',
+  'history.examBand': 'Bài thi nói: band {band}',
+  'history.examNotScored': 'Bài thi nói: chưa chấm điểm',
+  'history.examStopped': 'dừng sớm',
+  'history.examResults': 'Kết quả',
+  'history.examResultsTitle': 'Xem điểm band của bài thi này',
+  'history.examScoring': 'Đang chấm...',
+
+  'help.closeTitle': 'Đóng bảng trợ giúp',
+  'help.title': 'Cách dùng Huấn luyện viên AI',
+  'help.intro': 'Chào mừng bạn đến với Huấn luyện viên hội thoại tiếng Anh của riêng bạn! Dưới đây là hướng dẫn nhanh để bắt đầu:',
+  'help.step1Title': 'Nhập API Key:',
+  'help.step1': 'Trước tiên, hãy nhập Google API Key trong bảng cài đặt. Bạn chỉ cần làm việc này một lần.',
+  'help.step2Title': 'Thiết lập buổi học:',
+  'help.step2': 'Dùng bảng Cài đặt để chọn trình độ, chủ đề hội thoại và giọng của huấn luyện viên. Nhấn "Bắt đầu buổi học mới" khi đã sẵn sàng.',
+  'help.step3Title': 'Bắt đầu nói:',
+  'help.step3': 'Nhấn vào nút micro lớn. Huấn luyện viên AI của bạn, {coach}, sẽ chào bạn và bắt đầu hội thoại theo chủ đề bạn chọn.',
+  'help.step4Title': 'Nhận góp ý:',
+  'help.step4': 'Huấn luyện viên sẽ góp ý ngay, nhẹ nhàng sửa ngữ pháp và gợi ý cách diễn đạt tự nhiên hơn.',
+  'help.step5Title': 'Xem lại tiến độ:',
+  'help.step5': 'Sau buổi học, bạn có thể tìm lại trong mục "Xem lịch sử" để theo dõi sự tiến bộ của mình.',
+  'help.done': 'Đã hiểu, bắt đầu luyện tập thôi!',
+
+  'settings.closeTitle': 'Đóng bảng cài đặt',
+  'settings.openTitle': 'Mở bảng cài đặt',
+  'settings.title': 'Cài đặt',
+  'settings.meetCoach': '👋 Làm quen với huấn luyện viên {coach}!',
+  'settings.coachIntro': 'Mình sẽ trò chuyện với bạn về nhiều chủ đề để giúp bạn nói tiếng Anh trôi chảy và tự tin hơn. Mình sẽ góp ý và sửa lỗi trong lúc nói chuyện. Bắt đầu nào!',
+  'settings.uiLanguage': 'Ngôn ngữ giao diện',
+  'settings.level': 'Trình độ',
+  'settings.latestEstimate': 'Ước lượng gần nhất:',
+  'settings.estimateFromPlacement': 'bài xếp lớp',
+  'settings.estimateFromSession': 'buổi học',
+  'settings.findLevelTitle': 'Trò chuyện ngắn để tìm trình độ của bạn',
+  'settings.findLevel': 'Chưa chắc? Tìm trình độ của tôi...',
+  'settings.topic': 'Chủ đề',
+  'settings.topicsGroup': 'Chủ đề',
+  'settings.scenariosGroup': 'Tình huống của tôi',
+  'settings.manageScenariosTitle': 'Tạo và sửa các tình huống nhập vai của riêng bạn',
+  'settings.manageScenarios': 'Quản lý tình huống nhập vai...',
+  'settings.coachVoice': 'Giọng huấn luyện viên',
+  'settings.feedbackStyle': 'Cách góp ý',
+  'settings.flaggedCategories': 'Loại lỗi cần chỉ ra',
+  'settings.sessionFeedback': 'Buổi học này tiếp tục với cách góp ý đã dùng khi luyện tập: {style}. Thay đổi một cài đặt để dùng cài đặt của bạn.',
+  'settings.nativeLanguage': 'Giải thích ngữ pháp bằng ngôn ngữ của tôi',
+  'settings.nativeLanguageOff': 'Không, chỉ dùng tiếng Anh',
+  'settings.nativeLanguageHint': 'Chỉ áp dụng ở trình độ Sơ cấp (A1-A2). Cuộc hội thoại vẫn bằng tiếng Anh.',
+  'settings.pace': 'Tốc độ nói của huấn luyện viên',
+  'settings.sessionGoal': 'Mục tiêu buổi học',
+  'settings.goalMinutes': '{minutes} phút',
+  'settings.goalTurns': '{turns} câu trả lời',
+  'settings.sessionGoalHint': 'Huấn luyện viên sẽ canh giờ và tự kết thúc buổi học cho bạn.',
+  'settings.exam': 'Bài thi nói',
+  'settings.examHint': 'Bài thi thử theo kiểu IELTS Speaking: phỏng vấn, nói dài theo đề bài và thảo luận, tổng cộng khoảng 12 phút. Bạn sẽ nhận điểm band khi kết thúc.',
+  'settings.startExam': 'Làm bài thi nói thử',
+  'settings.startExamTitle': 'Bắt đầu bài thi nói có tính giờ với giám khảo',
+  'settings.dailyGoal': 'Mục tiêu mỗi ngày',
+  'settings.goalMinutesPerDay': '{minutes} phút mỗi ngày',
+  'settings.dailyProgress': 'Hôm nay: {minutes}/{goal} phút.',
+  'settings.streak': '🔥 Chuỗi {days} ngày',
+  'settings.backend': 'Dịch vụ giọng nói',
+  'settings.backendGemini': 'Gemini Live (trực tuyến)',
+  'settings.backendMock': 'Demo ngoại tuyến (có kịch bản)',
+  'settings.microphone': 'Micro',
+  'settings.systemDefault': 'Mặc định của hệ thống',
+  'settings.microphoneNumbered': 'Micro {number}',
+  'settings.inputMode': 'Chế độ thu âm',
+  'settings.vadThreshold': 'Ngưỡng giọng nói: {percent}%',
+  'settings.vadHint': 'Tăng lên nếu tiếng ồn xung quanh hay chen vào, giảm xuống nếu giọng của bạn bị bỏ lỡ.',
+  'settings.reports': 'Tạo phiếu nhận xét sau mỗi buổi học',
+  'settings.profile': 'Cho huấn luyện viên biết điểm yếu và sổ từ vựng của tôi',
+  'settings.profileTitle': 'Xem và sửa những gì huấn luyện viên biết về bạn',
+  'settings.profileEmpty': 'Xem hồ sơ học viên (trống)',
+  'settings.profileEdit': 'Xem & sửa hồ sơ học viên',
+  'settings.apiKeyTitle': 'Nhập Google API Key của bạn',
+  'settings.apiKeySet': 'Đã có API Key',
+  'settings.setApiKey': 'Nhập API Key',
+  'settings.newSessionTitle': 'Bắt đầu một cuộc hội thoại mới',
+  'settings.newSession': '🔄 Bắt đầu buổi học mới',
+
+  'feedbackStyle.detailed': 'Ngay lập tức, phân tích chi tiết',
+  'feedbackStyle.recast': 'Chỉ nhắc lại câu đúng ngắn gọn',
+  'feedbackStyle.deferred': 'Để sau (xem lại ở cuối)',
+  'feedbackStyle.fluency': 'Chỉ luyện trôi chảy (không sửa lỗi)',
+
+  'pace.slow': 'Chậm',
+  'pace.normal': 'Bình thường',
+  'pace.fast': 'Tự nhiên / nhanh',
+
+  'practiceMode.open': 'Không giới hạn',
+  'practiceMode.timed': 'Buổi học có hẹn giờ',
+  'practiceMode.turns': 'Số câu trả lời cố định',
+  'practiceMode.ielts-part2': 'IELTS Speaking Part 2 (1 phút chuẩn bị, 2 phút nói)',
+
+  'inputMode.always-on': 'Luôn bật',
+  'inputMode.push-to-talk': 'Nhấn để nói (giữ phím Space)',
+  'inputMode.vad': 'Tự bật khi có giọng nói',
+
+  'category.preposition': 'Giới từ',
+  'category.tense': 'Thì của động từ',
+  'category.word-order': 'Trật tự từ',
+  'category.article': 'Mạo từ',
+  'category.agreement': 'Hòa hợp chủ ngữ - động từ',
+  'category.word-choice': 'Chọn từ',
+  'category.pronunciation': 'Phát âm',
+  'category.other': 'Khác',
+
+  'main.switchLevelTitle': 'Chuyển sang {level}',
+  'main.switchLevel': 'Chuyển sang {level}',
+  'main.recommendUp': 'Bạn trung bình có ít hơn {threshold} lỗi được sửa trên 100 từ trong {count} buổi {current} gần nhất. Hãy thử {level}.',
+  'main.recommendDown': 'Bạn trung bình có nhiều hơn {threshold} lỗi được sửa trên 100 từ trong {count} buổi {current} gần nhất. Trình độ {level} có thể giúp bạn nói thoải mái hơn.',
+  'main.keepLevelTitle': 'Giữ trình độ hiện tại',
+  'main.notNow': 'Để sau',
+  'main.placementProgress': 'Hội thoại xếp lớp: {count}/{total} câu trả lời',
+  'main.unitProgress': 'Bài học: {unit} · {answers}/{minAnswers} câu trả lời · đã dùng {phrases}/{minPhrases} cụm từ',
+  'main.sessionReady': 'Buổi học của bạn đã sẵn sàng.',
+  'main.pressMic': 'Nhấn nút micro để bắt đầu hội thoại bằng giọng nói, hoặc gõ tin nhắn bên dưới.',
+  'main.setKeyFirst': 'Vui lòng nhập API Key trong phần cài đặt trước.',
+  'main.typed': 'Đã gõ',
+  'main.typeMessage': 'Gõ tin nhắn cho huấn luyện viên...',
+  'main.typeToStart': 'Gõ tin nhắn để bắt đầu hội thoại bằng chữ...',
+  'main.sendTitle': 'Gửi tin nhắn bạn đã gõ',
+  'main.stopSession': 'Dừng buổi học',
+  'main.startSession': 'Bắt đầu buổi học',
+  'main.reviewMistakesTitle': 'Nhờ huấn luyện viên xem lại các lỗi đã ghi nhận đến giờ',
+  'main.reviewMistakes': 'Xem lại lỗi của tôi',
+  'main.microphoneLevel': 'Mức âm lượng micro',
+  'main.holdToTalkTitle': 'Giữ để nói (hoặc giữ phím Space)',
+  'main.talking': 'Đang nói...',
+  'main.talkTimeTitle': 'Tỉ lệ thời gian bạn nói so với huấn luyện viên, đo từ âm thanh',
+  'main.talkTimeYou': 'Bạn {percent}%',
+  'main.talkTimeCoach': 'HLV {percent}%',
+  'main.averagePauseTitle': 'Khoảng lặng trung bình từ khi huấn luyện viên nói xong đến khi bạn bắt đầu trả lời',
+  'main.averagePause': 'ngập ngừng TB {seconds}s',
+  'main.holdToTalk': 'Giữ để nói',
+
+  'notes.closeTitle': 'Đóng bảng ghi chú',
+  'notes.general': 'Ghi chú chung',
+  'notes.placeholder': 'Ghi lại suy nghĩ, lỗi sửa hoặc góp ý từ buổi học...',
+  'notes.saveDisabledTitle': 'Hãy bắt đầu hoặc mở một buổi học để lưu ghi chú',
+  'notes.saveTitle': 'Lưu ghi chú vào buổi học hiện tại',
+  'notes.save': 'Lưu ghi chú vào buổi học',
+
+  'course.endSessionFirst': 'Hãy kết thúc buổi học hiện tại trước.',
+  'course.closeTitle': 'Đóng bảng khóa học',
+  'course.title': 'Khóa học',
+  'course.intro': 'Học theo giáo trình từng bài một. Hoàn thành một bài để mở khóa bài tiếp theo.',
+  'course.unitsCompleted': 'Đã hoàn thành {count} / {total} bài',
+  'course.inProgress': 'Đang học',
+  'course.rolePlay': 'Nhập vai: {title}',
+  'course.phrases': 'Cụm từ:',
+  'course.toComplete': 'Để hoàn thành: trả lời ít nhất {turns} lần và dùng {phrases} cụm từ.',
+  'course.soFar': 'Đến giờ: {turns} câu trả lời, {phrases} cụm từ.',
+  'course.startUnitTitle': 'Chuẩn bị một buổi học cho bài này',
+  'course.startUnit': 'Bắt đầu bài',
+  'course.practiseAgain': 'Luyện lại',
+  'course.completedTitle': 'Mở buổi học mà bạn đã hoàn thành bài này',
+  'course.completedOn': 'Hoàn thành ngày {date}',
+
+  'courseStatus.completed': 'Xong',
+  'courseStatus.unlocked': 'Tiếp theo',
+  'courseStatus.locked': 'Đã khóa',
+
+  'learner.endSessionFirst': 'Hãy kết thúc buổi học hiện tại trước khi đổi người học.',
+  'learner.closeTitle': 'Đóng hồ sơ người học',
+  'learner.title': 'Người học',
+  'learner.intro': 'Mỗi người dùng chung thiết bị này có buổi học, ghi chú, sổ từ vựng và cài đặt riêng.',
+  'learner.confirmDelete': 'Xóa {name} cùng toàn bộ buổi học, từ vựng và tiến độ của họ? Không thể hoàn tác.',
+  'learner.wrongPin': 'Mã PIN không đúng. Vui lòng thử lại.',
+  'learner.nameRequired': 'Vui lòng nhập tên.',
+  'learner.pinFormat': 'Mã PIN phải có từ 4 đến 8 chữ số.',
+  'learner.pinToDelete': 'Nhập mã PIN của {name} để xóa hồ sơ.',
+  'learner.pinToContinue': 'Nhập mã PIN của {name} để tiếp tục.',
+  'learner.pinPlaceholder': 'Mã PIN',
+  'learner.continue': 'Tiếp tục',
+  'learner.switchLearner': 'Đổi người học',
+  'learner.back': 'Quay lại',
+  'learner.name': 'Tên',
+  'learner.namePlaceholder': 'VD: Minh',
+  'learner.nativeLanguage': 'Tiếng mẹ đẻ',
+  'learner.defaultLevel': 'Trình độ mặc định',
+  'learner.defaultTopic': 'Chủ đề mặc định',
+  'learner.defaultVoice': 'Giọng huấn luyện viên mặc định',
+  'learner.notSet': 'Chưa đặt',
+  'learner.pin': 'Mã PIN (không bắt buộc)',
+  'learner.pinKeepPlaceholder': 'Để trống để giữ mã PIN hiện tại',
+  'learner.pinNewPlaceholder': '4 đến 8 chữ số',
+  'learner.removePin': 'Bỏ mã PIN',
+  'learner.saveChanges': 'Lưu thay đổi',
+  'learner.add': 'Thêm người học',
+  'learner.addTitle': 'Thêm người khác dùng thiết bị này',
+  'learner.cancel': 'Hủy',
+  'learner.hasPin': '(PIN)',
+  'learner.speaker': 'Nói {language}',
+  'learner.unlock': 'Mở khóa',
+  'learner.edit': 'Sửa',
+  'learner.editTitle': 'Sửa tên, cài đặt mặc định và mã PIN của bạn',
+  'learner.switch': 'Chuyển',
+  'learner.switchTitle': 'Chuyển sang {name}',
+  'learner.delete': 'Xóa',
+  'learner.deleteTitle': 'Xóa {name} và dữ liệu của họ',
+
+  'timer.cueCard': 'Hãy nghe đề bài. Thời gian chuẩn bị bắt đầu khi huấn luyện viên nói xong.',
+  'timer.prep': 'Thời gian chuẩn bị: {time}',
+  'timer.timeLeft': 'Thời gian còn lại: {time}',
+  'timer.answers': 'Câu trả lời: {count}/{total}',
+  'timer.wrapUp': 'Hết giờ. Huấn luyện viên đang kết thúc buổi học...',
+
+  'goal.minutes': '{minutes} phút',
+  'goal.turns': '{turns} câu trả lời',
+  'goal.ieltsPart2': 'IELTS Part 2',
+
+  'examPart.interview': 'Phần 1: Phỏng vấn',
+  'examPart.long-turn': 'Phần 2: Nói dài',
+  'examPart.discussion': 'Phần 3: Thảo luận',
+
+  'examCriterion.fluency': 'Độ trôi chảy và mạch lạc',
+  'examCriterion.lexical': 'Vốn từ vựng',
+  'examCriterion.grammar': 'Độ đa dạng và chính xác của ngữ pháp',
+  'examCriterion.pronunciation': 'Phát âm',
+
+  'exam.cueCard': 'Hãy nghe đề bài',
+  'exam.prep': 'Thời gian chuẩn bị: {time}',
+  'exam.timeLeft': 'Còn {time}',
+  'exam.closing': 'Bài thi đã kết thúc',
+  'exam.resultsCloseTitle': 'Đóng kết quả',
+  'exam.resultsTitle': 'Kết quả bài thi nói',
+  'exam.stoppedEarly': 'Đã dừng trước khi kết thúc bài thi',
+  'exam.band': 'Band',
+  'exam.bandScore': 'Band {band}',
+  'exam.scoredByExaminer': 'Được mô hình giám khảo chấm ngày {date}. Band luyện tập chỉ để tham khảo, không phải điểm chính thức.',
+  'exam.scoredOffline': 'Ước tính ngoại tuyến từ bản ghi của bạn ngày {date}. Band luyện tập chỉ để tham khảo, không phải điểm chính thức.',
+  'exam.scoringTest': 'Đang chấm bài thi của bạn...',
+  'exam.notScored': 'Bài thi này chưa được chấm.',
+  'exam.transcript': 'Bản ghi',
+  'exam.you': 'Bạn',
+  'exam.examiner': 'Giám khảo',
+  'exam.scoreTitle': 'Chấm lại bài thi từ bản ghi',
+  'exam.scoring': 'Đang chấm...',
+  'exam.scoreAgain': 'Chấm lại',
+  'exam.score': 'Chấm bài thi',
+
+  'drill.setKeyFirst': 'Hãy nhập API Key hoặc chọn bản demo ngoại tuyến trước.',
+  'drill.endConversationFirst': 'Hãy kết thúc buổi hội thoại trước.',
+  'drill.closeTitle': 'Đóng bảng luyện phát âm',
+  'drill.title': 'Luyện phát âm',
+  'drill.intro': 'Huấn luyện viên đọc một câu, bạn nhắc lại và từng từ sẽ được kiểm tra.',
+  'drill.sentences': 'Câu luyện',
+  'drill.position': 'Câu {index} / {total}',
+  'drill.hearing': 'Đang nghe: {text}',
+  'drill.yourAttempt': 'Lần thử của bạn',
+  'drill.heardTitle': 'Nghe thành "{word}"',
+  'drill.missedTitle': 'Bị bỏ sót',
+  'drill.extraTitle': 'Không có trong câu',
+  'drill.legendCorrect': 'đúng',
+  'drill.legendSubstituted': 'bị thay',
+  'drill.legendMissed': 'bỏ sót',
+  'drill.legendExtra': 'thừa',
+  'drill.attempt': 'lần thử',
+  'drill.attempts': 'lần thử',
+  'drill.best': 'tốt nhất',
+  'drill.recent': 'Gần đây: {scores}',
+  'drill.previous': 'Trước',
+  'drill.previousTitle': 'Câu trước',
+  'drill.repeat': 'Nhắc lại',
+  'drill.repeatTitle': 'Nghe lại câu và thử thêm lần nữa',
+  'drill.next': 'Tiếp',
+  'drill.nextTitle': 'Câu tiếp theo',
+  'drill.stop': 'Dừng luyện',
+  'drill.stopTitle': 'Kết thúc buổi luyện',
+  'drill.start': 'Bắt đầu luyện',
+  'drill.startTitle': 'Bắt đầu đọc to các câu cùng huấn luyện viên',
+
+  'drillSource.corrections': 'Các câu tôi được sửa',
+  'drillSource.scenario': 'Từ vựng của tình huống',
+  'drillSource.built-in': 'Câu có sẵn cho trình độ của tôi',
+
+  'drillEmpty.corrections': 'Chưa có câu nào được sửa. Hãy trò chuyện trước, các câu huấn luyện viên sửa sẽ hiện ở đây.',
+  'drillEmpty.scenario': 'Chọn một tình huống nhập vai có từ vựng mục tiêu trong Cài đặt để luyện các cụm từ của nó.',
+  'drillEmpty.built-in': 'Không có câu có sẵn cho trình độ này.',
+
+  'review.closeTitle': 'Đóng bảng ôn tập',
+  'review.title': 'Ôn lỗi sai',
+  'review.counts': '{due} thẻ đến hạn • tổng {total} thẻ',
+  'review.empty': 'Chưa có lỗi nào để ôn.',
+  'review.emptyHint': 'Các lỗi huấn luyện viên sửa sẽ xuất hiện ở đây dưới dạng thẻ ghi nhớ.',
+  'review.caughtUp': 'Bạn đã ôn hết!',
+  'review.nextDue': 'Thẻ tiếp theo đến hạn lúc {date}.',
+  'review.youSaid': 'Bạn đã nói:',
+  'review.better': 'Cách nói tốt hơn:',
+  'review.gradeTitle': 'Đánh giá thẻ này là {grade}',
+  'review.showAnswer': 'Xem đáp án',
+  'review.showAnswerTitle': 'Hiện câu đã sửa',
+
+  'reviewGrade.again': 'Lại',
+  'reviewGrade.hard': 'Khó',
+  'reviewGrade.good': 'Tốt',
+  'reviewGrade.easy': 'Dễ',
+
+  'progress.closeTitle': 'Đóng bảng tiến độ',
+  'progress.title': 'Tiến độ của bạn',
+  'progress.empty': 'Chưa có cuộc hội thoại nào được lưu.',
+  'progress.emptyHint': 'Hoàn thành một buổi học để bắt đầu theo dõi tiến độ.',
+  'progress.noData': 'Chưa có dữ liệu.',
+  'progress.sessions': 'Buổi học',
+  'progress.words': 'Số từ',
+  'progress.correctionsShort': 'Lỗi/100 từ',
+  'progress.speakingMinutes': 'Số phút nói (ước tính)',
+  'progress.wordsSpoken': 'Số từ đã nói',
+  'progress.wordsPerTurn': 'Số từ mỗi lượt',
+  'progress.vocabularyRange': 'Vốn từ',
+  'progress.correctionsPer100': 'Lỗi được sửa / 100 từ',
+  'progress.minutesPerDay': 'Số phút nói mỗi ngày',
+  'progress.minutesValue': '{value} phút',
+  'progress.wordsPerSession': 'Số từ mỗi buổi',
+  'progress.wordsValue': '{value} từ',
+  'progress.vocabularyPerSession': 'Vốn từ mỗi buổi',
+  'progress.distinctWordsValue': '{value} từ khác nhau',
+  'progress.correctionsPer100Chart': 'Số lỗi được sửa trên 100 từ',
+  'progress.estimatedLevel': 'Trình độ ước tính (CEFR)',
+  'progress.byLevel': 'Theo trình độ',
+  'progress.byTopic': 'Theo chủ đề',
+
+  'scenario.closeTitle': 'Đóng trình chỉnh sửa tình huống',
+  'scenario.heading': 'Tình huống nhập vai của tôi',
+  'scenario.new': '+ Tình huống mới',
+  'scenario.newTitle': 'Tạo tình huống mới',
+  'scenario.import': 'Nhập',
+  'scenario.importTitle': 'Nhập một tình huống được chia sẻ',
+  'scenario.importLabel': 'Dán tình huống được chia sẻ (JSON) hoặc chọn tệp',
+  'scenario.importButton': 'Nhập tình huống',
+  'scenario.importFailed': 'Không thể nhập tình huống: {message}',
+  'scenario.importFailedUnknown': 'Không thể nhập tình huống.',
+  'scenario.titleRequired': 'Vui lòng đặt tiêu đề cho tình huống.',
+  'scenario.confirmDelete': 'Xóa tình huống "{title}"?',
+  'scenario.title': 'Tiêu đề',
+  'scenario.titlePlaceholder': 'VD: Họp giao ban hằng ngày với nhóm',
+  'scenario.coachRole': 'Vai của huấn luyện viên',
+  'scenario.coachRolePlaceholder': 'VD: Scrum master',
+  'scenario.learnerRole': 'Vai của bạn',
+  'scenario.learnerRolePlaceholder': 'VD: Lập trình viên backend',
+  'scenario.setting': 'Bối cảnh',
+  'scenario.settingPlaceholder': 'VD: Cuộc gọi video 15 phút đầu sprint',
+  'scenario.goals': 'Mục tiêu cần đạt (mỗi dòng một mục)',
+  'scenario.goalsPlaceholder': 'VD: Báo cáo việc bạn đã làm hôm qua',
+  'scenario.vocabulary': 'Từ vựng mục tiêu (mỗi dòng một từ)',
+  'scenario.vocabularyPlaceholder': 'VD: blocker',
+  'scenario.criteria': 'Tiêu chí thành công (mỗi dòng một tiêu chí)',
+  'scenario.criteriaPlaceholder': 'VD: Huấn luyện viên hiểu vướng mắc của bạn và thống nhất bước tiếp theo',
+  'scenario.save': 'Lưu tình huống',
+  'scenario.saveTitle': 'Lưu tình huống này',
+  'scenario.share': 'Chia sẻ (JSON)',
+  'scenario.shareTitle': 'Tải tình huống này xuống để chia sẻ',
+  'scenario.delete': 'Xóa',
+  'scenario.deleteTitle': 'Xóa tình huống này',
+
+  'report.estimatedLevel': 'Trình độ ước tính:',
+  'report.example': 'VD: “{example}”',
+  'report.recurringMistakes': 'Lỗi lặp lại',
+  'report.newVocabulary': 'Từ vựng mới bạn đã dùng',
+  'report.phrases': 'Cụm từ nên học',
+  'report.goals': 'Mục tiêu cho lần sau',
+  'report.byCoach': 'Do huấn luyện viên viết lúc {date}',
+  'report.offline': 'Tạo ngoại tuyến từ bản ghi của bạn lúc {date}',
+
+  'reportLevel.below': 'thấp hơn trình độ bạn đã chọn. Hãy thử trình độ dễ hơn một thời gian.',
+  'reportLevel.matches': 'phù hợp với trình độ bạn đã chọn.',
+  'reportLevel.above': 'cao hơn trình độ bạn đã chọn. Có thể bạn đã sẵn sàng cho trình độ khó hơn.',
+
+  'wordList.closeTitle': 'Đóng sổ từ vựng',
+  'wordList.title': 'Sổ từ vựng',
+  'wordList.intro': 'Chạm vào bất kỳ từ nào trong cuộc hội thoại để tra và lưu lại. Hãy dùng các từ đã lưu trong những buổi sau để luyện tập.',
+  'wordList.empty': 'Chưa có từ nào được lưu.',
+  'wordList.remove': 'Xóa',
+  'wordList.removeTitle': 'Xóa khỏi sổ từ vựng',
+  'wordList.notUsed': 'Chưa dùng kể từ khi lưu.',
+  'wordList.usedCorrectlyOnce': 'Dùng đúng 1 lần',
+  'wordList.usedCorrectly': 'Dùng đúng {count} lần',
+  'wordList.correctedOnce': 'bị sửa 1 lần',
+  'wordList.corrected': 'bị sửa {count} lần',
+  'wordList.lastUsed': 'lần cuối {date}',
+
+  'wordPopover.label': 'Nghĩa của {word}',
+  'wordPopover.notInDictionary': 'Từ này không có trong từ điển ngoại tuyến. Bạn vẫn có thể thêm nó vào sổ từ vựng.',
+  'wordPopover.saved': 'Đã có trong sổ từ vựng',
+  'wordPopover.save': 'Thêm vào sổ từ vựng',
+
+  'profile.closeTitle': 'Đóng hồ sơ người học',
+  'profile.title': 'Hồ sơ người học của tôi',
+  'profile.intro': 'Đây là những gì huấn luyện viên được biết về bạn khi bắt đầu mỗi cuộc hội thoại. Hồ sơ được tạo từ các buổi học gần đây, sổ từ vựng và phiếu đánh giá gần nhất của bạn.',
+  'profile.edited': 'Bạn đã chỉnh sửa hồ sơ nên nó không còn tự cập nhật.',
+  'profile.focusAreas': 'Lỗi cần luyện (mỗi dòng một mục)',
+  'profile.focusAreasPlaceholder': 'VD: Giới từ chỉ thời gian',
+  'profile.studyWords': 'Từ cần học (mỗi dòng một từ)',
+  'profile.studyWordsPlaceholder': 'VD: postpone',
+  'profile.goals': 'Mục tiêu (mỗi dòng một mục)',
+  'profile.goalsPlaceholder': 'VD: Trả lời dài hơn kèm lý do hoặc ví dụ',
+  'profile.preview': 'Những gì huấn luyện viên sẽ thấy',
+  'profile.previewEmpty': 'Chưa có gì. Hãy luyện vài buổi hoặc thêm từ vào sổ từ vựng.',
+  'profile.save': 'Lưu hồ sơ',
+  'profile.saveTitle': 'Lưu các thay đổi cho hồ sơ',
+  'profile.rebuild': 'Tạo lại từ lịch sử',
+  'profile.rebuildTitle': 'Bỏ các chỉnh sửa và tạo lại hồ sơ từ lịch sử của bạn',
+
+  'coachFeedback.original': 'Bạn đã nói',
+  'coachFeedback.breakdown': 'Vì sao',
+  'coachFeedback.perfect': 'Tốt hơn',
+
+  'correction.whyTitle': 'Xem vì sao câu này được sửa',
+  'correction.better': 'Tốt hơn: "{corrected}"',
+
+  'audio.play': 'Phát bản ghi âm',
+  'audio.stop': 'Dừng phát',
+  'audio.unavailable': 'Bản ghi âm không còn nữa',
+
+  'exportFormat.json': 'JSON (có thể nhập lại)',
+  'exportFormat.markdown': 'Bản ghi Markdown',
+  'exportFormat.srt': 'Phụ đề SRT',
+  'exportFormat.vtt': 'Phụ đề WebVTT',
+  'exportFormat.anki': 'Bộ thẻ Anki (CSV)',
+
+  'reviewer.closeTitle': 'Đóng bài nhận xét',
+  'reviewer.reviewTitle': 'Nhận xét buổi học',
+  'reviewer.feedbackTitle': 'Nhận xét của giáo viên',
+  'reviewer.reviewedBy': 'Được {reviewer} nhận xét ngày {date}',
+  'reviewer.yourTeacher': 'giáo viên của bạn',
+  'reviewer.emptyOnSave': 'Hãy thêm nhận xét, điểm hoặc tóm tắt trước khi lưu bài nhận xét.',
+  'reviewer.emptyOnSend': 'Hãy thêm nhận xét, điểm hoặc tóm tắt trước khi gửi bài nhận xét.',
+  'reviewer.reviewer': 'Người nhận xét',
+  'reviewer.reviewerPlaceholder': 'Tên của bạn',
+  'reviewer.rubric': 'Thang điểm',
+  'reviewer.clearScore': 'Xóa điểm này',
+  'reviewer.score': 'Điểm {score} / {max}',
+  'reviewer.noScores': 'Chưa có điểm.',
+  'reviewer.summary': 'Tóm tắt',
+  'reviewer.summaryPlaceholder': 'Điều gì làm tốt và cần luyện gì tiếp theo',
+  'reviewer.noSummary': 'Chưa có tóm tắt.',
+  'reviewer.transcript': 'Bản ghi',
+  'reviewer.learner': 'Người học',
+  'reviewer.coach': 'Huấn luyện viên',
+  'reviewer.clearMark': 'Xóa đánh dấu này',
+  'reviewer.agree': 'Đồng ý',
+  'reviewer.disagree': 'Không đồng ý',
+  'reviewer.agreeTitle': 'Đồng ý với lỗi huấn luyện viên đã sửa',
+  'reviewer.disagreeTitle': 'Không đồng ý với lỗi huấn luyện viên đã sửa',
+  'reviewer.agreeMark': 'Giáo viên: đồng ý',
+  'reviewer.disagreeMark': 'Giáo viên: không đồng ý',
+  'reviewer.commentPlaceholder': 'Nhận xét lượt nói này',
+  'reviewer.addComment': 'Thêm nhận xét',
+  'reviewer.teacher': 'Giáo viên:',
+  'reviewer.save': 'Lưu nhận xét',
+  'reviewer.saveTitle': 'Lưu bài nhận xét cùng buổi học này',
+  'reviewer.export': 'Xuất cho người học',
+  'reviewer.exportTitle': 'Lưu bài nhận xét và tải buổi học xuống để người học nhập vào',
+  'reviewer.edit': 'Sửa nhận xét',
+  'reviewer.editTitle': 'Thay đổi nhận xét, đánh dấu và điểm',
+
+  'rubric.fluency': 'Độ trôi chảy',
+  'rubric.fluencyHint': 'Nói dài mà không ngập ngừng lâu hay nói lại',
+  'rubric.accuracy': 'Độ chính xác',
+  'rubric.accuracyHint': 'Ngữ pháp và dạng từ đúng',
+  'rubric.vocabulary': 'Từ vựng',
+  'rubric.vocabularyHint': 'Độ phong phú và chính xác của từ được dùng',
+  'rubric.interaction': 'Tương tác',
+  'rubric.interactionHint': 'Đáp lại huấn luyện viên, đặt câu hỏi và duy trì cuộc hội thoại',
+};
+
+export default vi;
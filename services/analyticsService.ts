@@ -0,0 +1,171 @@
+import { ConversationSession } from '../types';
+import { getSessionCorrections } from './correctionService';
+
+// Spoken turns saved before turn timing was recorded have no measured
+// speaking time, so theirs is estimated from the word count at a typical
+// learner speaking rate.
+const ESTIMATED_SPEAKING_WPM = 110;
+
+const IRREGULAR_LEMMAS: Record<string, string> = {
+  am: 'be', is: 'be', are: 'be', was: 'be', were: 'be', been: 'be', being: 'be',
+  has: 'have', had: 'have', having: 'have',
+  does: 'do', did: 'do', done: 'do',
+  went: 'go', gone: 'go', goes: 'go',
+  made: 'make', took: 'take', taken: 'take', got: 'get', gotten: 'get',
+  saw: 'see', seen: 'see', said: 'say', came: 'come', knew: 'know', known: 'know',
+  thought: 'think', told: 'tell', felt: 'feel', left: 'leave', bought: 'buy',
+  brought: 'bring', ate: 'eat', eaten: 'eat', wrote: 'write', written: 'write',
+  ran: 'run', spoke: 'speak', spoken: 'speak', began: 'begin', begun: 'begin',
+  children: 'child', people: 'person', men: 'man', women: 'woman', better: 'good', best: 'good',
+};
+
+export interface SessionMetrics {
+  sessionId: number;
+  timestamp: number;
+  level: string;
+  topic: string;
+  userWords: number;
+  userTurns: number;
+  wordsPerTurn: number;
+  distinctLemmas: number;
+  corrections: number;
+  correctionsPer100Words: number;
+  speakingMinutes: number;
+}
+
+export interface DailyMetrics {
+  day: string;
+  speakingMinutes: number;
+  sessions: number;
+}
+
+export interface BreakdownRow {
+  key: string;
+  sessions: number;
+  userWords: number;
+  correctionsPer100Words: number;
+}
+
+export interface ProgressSummary {
+  sessions: SessionMetrics[];
+  daily: DailyMetrics[];
+  byLevel: BreakdownRow[];
+  byTopic: BreakdownRow[];
+  totalSpeakingMinutes: number;
+  totalUserWords: number;
+  vocabularyRange: number;
+  averageWordsPerTurn: number;
+  correctionsPer100Words: number;
+}
+
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[a-z]+(?:'[a-z]+)?/g) ?? [];
+}
+
+/**
+ * A deliberately small rule-based lemmatizer: good enough to stop "walk",
+ * "walks" and "walked" being counted as three words in the vocabulary range.
+ */
+export function lemmatize(word: string): string {
+  const base = word === "won't" ? 'will' : word === "can't" ? 'can' : word.replace(/n't$/, '').replace(/'(?:s|re|ve|ll|d|m)$/, '');
+  if (IRREGULAR_LEMMAS[base]) return IRREGULAR_LEMMAS[base];
+  if (base.length <= 3) return base;
+  if (base.endsWith('ies')) return base.slice(0, -3) + 'y';
+  if (base.endsWith('ied')) return base.slice(0, -3) + 'y';
+  if (/(?:ss|sh|ch|x|z)es$/.test(base)) return base.slice(0, -2);
+  if (base.endsWith('ing') && base.length > 5) return base.slice(0, -3).replace(/(.)\1$/, '$1');
+  if (base.endsWith('ed') && base.length > 4) return base.slice(0, -2).replace(/(.)\1$/, '$1');
+  if (base.endsWith('s') && !base.endsWith('ss') && !base.endsWith('us')) return base.slice(0, -1);
+  return base;
+}
+
+export function getSessionTimestamp(session: ConversationSession): number {
+  const timestamp = Date.parse(session.date);
+  return Number.isNaN(timestamp) ? session.id : timestamp;
+}
+
+export function toDayKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function per100(count: number, words: number): number {
+  return words > 0 ? (count / words) * 100 : 0;
+}
+
+export function computeSessionMetrics(session: ConversationSession): SessionMetrics {
+  const userMessages = session.messages.filter(msg => msg.role === 'user');
+  const words = userMessages.flatMap(msg => tokenize(msg.content));
+  const spokenMessages = userMessages.filter(msg => msg.modality !== 'text');
+  const measuredMs = spokenMessages.reduce((sum, msg) => sum + (msg.timing?.speakingMs ?? 0), 0);
+  const unmeasuredWords = spokenMessages.filter(msg => msg.timing?.speakingMs === undefined).flatMap(msg => tokenize(msg.content));
+  const corrections = getSessionCorrections(session).length;
+
+  return {
+    sessionId: session.id,
+    timestamp: getSessionTimestamp(session),
+    level: session.level,
+    topic: session.topic,
+    userWords: words.length,
+    userTurns: userMessages.length,
+    wordsPerTurn: userMessages.length > 0 ? words.length / userMessages.length : 0,
+    distinctLemmas: new Set(words.map(lemmatize)).size,
+    corrections,
+    correctionsPer100Words: per100(corrections, words.length),
+    speakingMinutes: measuredMs / 60000 + unmeasuredWords.length / ESTIMATED_SPEAKING_WPM,
+  };
+}
+
+function buildBreakdown(sessions: SessionMetrics[], keyOf: (s: SessionMetrics) => string): BreakdownRow[] {
+  const groups = new Map<string, { sessions: number; userWords: number; corrections: number }>();
+  for (const metrics of sessions) {
+    const key = keyOf(metrics);
+    const group = groups.get(key) ?? { sessions: 0, userWords: 0, corrections: 0 };
+    group.sessions += 1;
+    group.userWords += metrics.userWords;
+    group.corrections += metrics.corrections;
+    groups.set(key, group);
+  }
+  return Array.from(groups, ([key, group]) => ({
+    key,
+    sessions: group.sessions,
+    userWords: group.userWords,
+    correctionsPer100Words: per100(group.corrections, group.userWords),
+  })).sort((a, b) => b.sessions - a.sessions);
+}
+
+export function computeProgress(history: ConversationSession[]): ProgressSummary {
+  const sessions = history
+    .map(computeSessionMetrics)
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  const dailyMap = new Map<string, DailyMetrics>();
+  for (const metrics of sessions) {
+    const day = toDayKey(metrics.timestamp);
+    const entry = dailyMap.get(day) ?? { day, speakingMinutes: 0, sessions: 0 };
+    entry.speakingMinutes += metrics.speakingMinutes;
+    entry.sessions += 1;
+    dailyMap.set(day, entry);
+  }
+
+  const allWords = history.flatMap(session =>
+    session.messages.filter(msg => msg.role === 'user').flatMap(msg => tokenize(msg.content))
+  );
+  const totalUserWords = allWords.length;
+  const totalTurns = sessions.reduce((sum, s) => sum + s.userTurns, 0);
+  const totalCorrections = sessions.reduce((sum, s) => sum + s.corrections, 0);
+
+  return {
+    sessions,
+    daily: Array.from(dailyMap.values()),
+    byLevel: buildBreakdown(sessions, s => s.level.split(':')[0]),
+    byTopic: buildBreakdown(sessions, s => s.topic),
+    totalSpeakingMinutes: sessions.reduce((sum, s) => sum + s.speakingMinutes, 0),
+    totalUserWords,
+    vocabularyRange: new Set(allWords.map(lemmatize)).size,
+    averageWordsPerTurn: totalTurns > 0 ? totalUserWords / totalTurns : 0,
+    correctionsPer100Words: per100(totalCorrections, totalUserWords),
+  };
+}
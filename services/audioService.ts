@@ -0,0 +1,85 @@
+// Recording helpers for per-turn audio clips. Clips are stored as 16-bit mono
+// WAV so they can be played back with a plain <audio> element.
+
+const SILENCE_THRESHOLD = 500;
+const SILENCE_WINDOW_MS = 20;
+const SILENCE_PADDING_MS = 250;
+
+export function floatTo16BitPcm(data: Float32Array): Int16Array {
+  const int16 = new Int16Array(data.length);
+  for (let i = 0; i < data.length; i++) {
+    int16[i] = Math.max(-32768, Math.min(32767, data[i] * 32768));
+  }
+  return int16;
+}
+
+export function concatPcm(chunks: Int16Array[]): Int16Array {
+  const total = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const result = new Int16Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+function isWindowSilent(samples: Int16Array, start: number, end: number): boolean {
+  let sumSquares = 0;
+  for (let i = start; i < end; i++) {
+    sumSquares += samples[i] * samples[i];
+  }
+  return Math.sqrt(sumSquares / Math.max(1, end - start)) < SILENCE_THRESHOLD;
+}
+
+/**
+ * The microphone streams continuously, so a learner's turn also captures the
+ * pause before they spoke and the time the coach was answering. Trim leading
+ * and trailing silence, keeping a little padding so words are not clipped.
+ */
+export function trimSilence(samples: Int16Array, sampleRate: number): Int16Array {
+  const windowSize = Math.max(1, Math.floor(sampleRate * SILENCE_WINDOW_MS / 1000));
+  const padding = Math.floor(sampleRate * SILENCE_PADDING_MS / 1000);
+
+  let start = 0;
+  while (start < samples.length && isWindowSilent(samples, start, Math.min(samples.length, start + windowSize))) {
+    start += windowSize;
+  }
+  if (start >= samples.length) {
+    return new Int16Array(0);
+  }
+  let end = samples.length;
+  while (end > start && isWindowSilent(samples, Math.max(start, end - windowSize), end)) {
+    end -= windowSize;
+  }
+  return samples.subarray(Math.max(0, start - padding), Math.min(samples.length, end + padding));
+}
+
+export function encodeWav(samples: Int16Array, sampleRate: number): Blob {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+  new Int16Array(buffer, 44).set(samples);
+
+  return new Blob([buffer], { type: 'audio/wav' });
+}
+
+export function createAudioClipId(role: string): string {
+  return `${Date.now()}-${role}-${Math.random().toString(36).slice(2, 8)}`;
+}
@@ -0,0 +1,49 @@
+// Provider-neutral contract for a realtime voice conversation. The UI only
+// deals with these normalized events, so any realtime provider (or the
+// scripted mock) can sit behind it.
+
+export type BackendId = 'gemini' | 'mock';
+
+/**
+ * `auth` failures (bad or revoked key, no access to the model) will not fix
+ * themselves and need the user; `transient` ones (network drops, server
+ * restarts, session time limits) are worth retrying.
+ */
+export type BackendErrorKind = 'auth' | 'transient';
+
+export type BackendEvent =
+  | { type: 'open' }
+  /** A chunk of the live transcription of the learner's speech. */
+  | { type: 'inputTranscript'; text: string }
+  /** A chunk of the live transcription of the coach's speech. */
+  | { type: 'outputTranscript'; text: string }
+  /** Coach speech as 16-bit little-endian mono PCM. */
+  | { type: 'audio'; pcm: Uint8Array; sampleRate: number }
+  | { type: 'turnComplete' }
+  /** The learner barged in; any queued coach audio should be dropped. */
+  | { type: 'interrupted' }
+  | { type: 'error'; kind: BackendErrorKind; message: string; cause?: unknown }
+  /** The connection ended, including when the client closed it. */
+  | { type: 'close'; kind: BackendErrorKind; code?: number; reason?: string };
+
+export interface BackendConnectOptions {
+  systemInstruction: string;
+  voiceName: string;
+}
+
+export interface LiveConnection {
+  /** Streams one buffer of 16 kHz mono microphone samples in the -1..1 range. */
+  sendAudio(samples: Float32Array): void;
+  /** Sends a typed learner turn; the coach answers it like a spoken one. */
+  sendText(text: string): void;
+  close(): void;
+}
+
+export interface ConversationBackend {
+  id: BackendId;
+  /** Whether the backend needs an API key before it can connect. */
+  requiresApiKey: boolean;
+  connect(options: BackendConnectOptions, onEvent: (event: BackendEvent) => void): Promise<LiveConnection>;
+  /** Classifies an error thrown by `connect`. */
+  classifyError(error: unknown): BackendErrorKind;
+}
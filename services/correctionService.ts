@@ -0,0 +1,250 @@
+import { Correction, CorrectionCategory, ConversationSession } from '../types';
+
+// Quoted text may contain apostrophes ("don't"), so a closing quote only counts
+// when it is followed by whitespace, punctuation or the end of the string.
+const QUOTED = `["'“‘](.+?)["'”’](?=[\\s.,!?;:]|$)`;
+
+// Live coach turns come from speech transcription, which rarely has quote
+// marks, so an unquoted sentence runs to the next sentence end instead.
+const UNQUOTED = `([^.!?]+[.!?]?)`;
+
+const ORIGINAL_PATTERN = new RegExp(`you said[:,]?\\s*(?:${QUOTED}|${UNQUOTED})`, 'i');
+
+const CORRECTED_PATTERNS: RegExp[] = [
+  new RegExp(`(?:perfect|natural|better|correct)[^.!?"'“‘]*?(?:say(?: this| it)?|sentence)(?: would be| is)?[:,]?\\s*${QUOTED}`, 'i'),
+  new RegExp(`you (?:could|can|should) say[:,]?\\s*${QUOTED}`, 'i'),
+  new RegExp(`(?:try|instead)[:,]?\\s*${QUOTED}`, 'i'),
+];
+
+// Only tried when no quoted sentence is found. Without quotes only an explicit
+// lead-in counts, since ordinary advice ("A better way would be to practise
+// more.") reads the same. The sentence may not be a question, which is the
+// coach moving on, or start with "to", which is advice rather than a sentence.
+const UNQUOTED_STATEMENT = `(?!to\\s)([^.!?]+(?:[.!]|$))`;
+const UNQUOTED_CORRECTED_PATTERNS: RegExp[] = [
+  new RegExp(`(?:perfect|natural|better|correct)[^.!?]*?(?:way to say (?:this|it|that)|sentence)(?: would be| is)[:,]?\\s+${UNQUOTED_STATEMENT}`, 'i'),
+  new RegExp(`you (?:could|can|should) say[:,]?\\s+${UNQUOTED_STATEMENT}`, 'i'),
+  new RegExp(`\\b(?:better|try|instead)\\s*:\\s*${UNQUOTED_STATEMENT}`, 'i'),
+];
+
+const CATEGORY_KEYWORDS: [CorrectionCategory, RegExp][] = [
+  ['preposition', /\bprepositions?\b/i],
+  ['tense', /\b(?:tense|past participle|present perfect|past simple|simple past|future)\b/i],
+  ['word-order', /\bword order\b|\border of\b|\bplace the\b/i],
+  ['article', /\barticles?\b|\b'(?:a|an|the)'/i],
+  ['agreement', /\bagree(?:ment)?\b|\bsingular\b|\bplural\b|\bthird person\b/i],
+  ['pronunciation', /\bpronounc/i],
+  ['word-choice', /\bword choice\b|\bvocabulary\b|\bmore natural word\b|\binstead of\b/i],
+];
+
+export function categorizeCorrection(explanation: string): CorrectionCategory {
+  for (const [category, pattern] of CATEGORY_KEYWORDS) {
+    if (pattern.test(explanation)) {
+      return category;
+    }
+  }
+  return 'other';
+}
+
+function stripQuotes(sentence: string): string {
+  return sentence.trim().replace(/^["'“‘]+|["'”’]+$/g, '').trim();
+}
+
+function findFirstMatch(text: string, patterns: RegExp[]): { sentence: string; index: number } | null {
+  let best: { sentence: string; index: number } | null = null;
+  for (const pattern of patterns) {
+    const match = pattern.exec(text);
+    if (match && (!best || match.index < best.index)) {
+      best = { sentence: stripQuotes(match[1]), index: match.index };
+    }
+  }
+  return best;
+}
+
+function findCorrected(text: string): { sentence: string; index: number } | null {
+  return findFirstMatch(text, CORRECTED_PATTERNS) ?? findFirstMatch(text, UNQUOTED_CORRECTED_PATTERNS);
+}
+
+/**
+ * Extracts structured corrections from a coach turn that follows the feedback
+ * format requested by the system prompt ("You said: '...'", breakdown,
+ * "perfect way to say this would be: '...'"), with or without the quote
+ * marks. A turn may contain several
+ * corrections; each one starts at a "You said" quote. When the coach gives a
+ * perfect sentence without quoting the learner, the learner's own turn is used
+ * as the original.
+ */
+export function extractCorrections(tutorText: string, userText = ''): Correction[] {
+  const starts: number[] = [];
+  const startPattern = new RegExp(ORIGINAL_PATTERN.source, 'gi');
+  let startMatch: RegExpExecArray | null;
+  while ((startMatch = startPattern.exec(tutorText)) !== null) {
+    starts.push(startMatch.index);
+  }
+
+  const segments = starts.length > 0
+    ? starts.map((start, i) => tutorText.slice(start, starts[i + 1] ?? tutorText.length))
+    : [tutorText];
+
+  const corrections: Correction[] = [];
+  for (const segment of segments) {
+    const originalMatch = ORIGINAL_PATTERN.exec(segment);
+    const original = originalMatch ? stripQuotes(originalMatch[1] ?? originalMatch[2]) : userText.trim();
+    const corrected = findCorrected(segment);
+    if (!original || !corrected || corrected.sentence === original) {
+      continue;
+    }
+
+    const explanationStart = originalMatch ? originalMatch.index + originalMatch[0].length : 0;
+    // The lead-in to the perfect sentence ("A more natural way...") is not part
+    // of the breakdown, so cut back to the last complete sentence.
+    let explanation = segment
+      .slice(explanationStart, corrected.index)
+      .replace(/^[\s"'”’.,!?]+/, '')
+      .trim();
+    const lastSentenceEnd = Math.max(explanation.lastIndexOf('. '), explanation.lastIndexOf('! '), explanation.lastIndexOf('? '));
+    const lastClauseEnd = explanation.lastIndexOf(', ');
+    if (!/[.!?]$/.test(explanation) && lastSentenceEnd !== -1) {
+      explanation = explanation.slice(0, lastSentenceEnd + 1);
+    } else if (!/[.!?]$/.test(explanation) && lastClauseEnd !== -1) {
+      // Unquoted turns often run the lead-in on from the breakdown ("..., so a more natural way would be").
+      explanation = `${explanation.slice(0, lastClauseEnd)}.`;
+    }
+
+    corrections.push({
+      original,
+      corrected: corrected.sentence,
+      category: categorizeCorrection(explanation),
+      explanation,
+    });
+  }
+  return corrections;
+}
+
+export function getSessionCorrections(session: ConversationSession): Correction[] {
+  return session.messages.flatMap(msg => msg.corrections ?? []);
+}
+
+export interface WordDiffSegment {
+  type: 'same' | 'removed' | 'added';
+  text: string;
+}
+
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '').replace(/[’‘]/g, "'");
+}
+
+/**
+ * Word-level diff between what the learner said and the coach's correction.
+ * Words are compared without case or punctuation, so "movies." and "movies"
+ * count as the same word; the learner's own spelling is kept for those.
+ */
+export function diffWords(original: string, corrected: string): WordDiffSegment[] {
+  const from = original.match(/\S+/g) ?? [];
+  const to = corrected.match(/\S+/g) ?? [];
+  const fromKeys = from.map(normalizeWord);
+  const toKeys = to.map(normalizeWord);
+
+  // Longest common subsequence table, filled from the end so the walk below
+  // can go forwards.
+  const lcs: number[][] = Array.from({ length: from.length + 1 }, () => new Array<number>(to.length + 1).fill(0));
+  for (let i = from.length - 1; i >= 0; i--) {
+    for (let j = to.length - 1; j >= 0; j--) {
+      lcs[i][j] = fromKeys[i] === toKeys[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segments: WordDiffSegment[] = [];
+  const push = (type: WordDiffSegment['type'], word: string) => {
+    const last = segments[segments.length - 1];
+    if (last?.type === type) {
+      last.text += ` ${word}`;
+    } else {
+      segments.push({ type, text: word });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < from.length || j < to.length) {
+    if (i < from.length && j < to.length && fromKeys[i] === toKeys[j]) {
+      push('same', from[i]);
+      i++;
+      j++;
+    } else if (i < from.length && (j === to.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      push('removed', from[i]);
+      i++;
+    } else {
+      push('added', to[j]);
+      j++;
+    }
+  }
+  return segments;
+}
+
+export type CoachFeedbackSectionKind = 'encouragement' | 'original' | 'breakdown' | 'perfect' | 'follow-up';
+
+export interface CoachFeedbackSection {
+  kind: CoachFeedbackSectionKind;
+  text: string;
+}
+
+function sentenceStartBefore(text: string, index: number): number {
+  const before = text.slice(0, index);
+  const boundary = Math.max(before.lastIndexOf('. '), before.lastIndexOf('! '), before.lastIndexOf('? '));
+  return boundary === -1 ? 0 : boundary + 2;
+}
+
+// The perfect sentence may offer alternatives ("...: 'A.' or 'B.'"), so it
+// only ends where a new sentence starts with a capital letter.
+function sentenceEndAfter(text: string, index: number): number {
+  const match = /[.!?]["'”’]?\s+(?=[A-Z])/.exec(text.slice(index));
+  return match ? index + match.index + match[0].length : text.length;
+}
+
+/**
+ * Splits a coach turn into the parts of the feedback format (encouragement,
+ * quoted original, breakdown, perfect sentence) and the conversational
+ * follow-up, for display. Turns without feedback come back as one follow-up
+ * section.
+ */
+export function splitCoachFeedback(tutorText: string): CoachFeedbackSection[] {
+  const sections: CoachFeedbackSection[] = [];
+  const push = (kind: CoachFeedbackSectionKind, text: string) => {
+    if (text.trim()) sections.push({ kind, text: text.trim() });
+  };
+
+  const startPattern = new RegExp(ORIGINAL_PATTERN.source, 'gi');
+  const starts: number[] = [];
+  let startMatch: RegExpExecArray | null;
+  while ((startMatch = startPattern.exec(tutorText)) !== null) {
+    starts.push(startMatch.index);
+  }
+  if (starts.length === 0) {
+    push('follow-up', tutorText);
+    return sections;
+  }
+
+  push('encouragement', tutorText.slice(0, starts[0]));
+  starts.forEach((start, i) => {
+    const segment = tutorText.slice(start, starts[i + 1] ?? tutorText.length);
+    const originalMatch = ORIGINAL_PATTERN.exec(segment)!;
+    const matchEnd = originalMatch.index + originalMatch[0].length;
+    const quotedEnd = matchEnd + /^[.!?]?/.exec(segment.slice(matchEnd))![0].length;
+    push('original', segment.slice(0, quotedEnd));
+
+    const rest = segment.slice(quotedEnd);
+    const corrected = findCorrected(rest);
+    if (!corrected) {
+      push('breakdown', rest);
+      return;
+    }
+    const perfectStart = sentenceStartBefore(rest, corrected.index);
+    const quoteEnd = rest.indexOf(corrected.sentence, corrected.index) + corrected.sentence.length;
+    const perfectEnd = sentenceEndAfter(rest, Math.max(perfectStart, quoteEnd - 1));
+    push('breakdown', rest.slice(0, perfectStart));
+    push('perfect', rest.slice(perfectStart, perfectEnd));
+    push('follow-up', rest.slice(perfectEnd));
+  });
+  return sections;
+}
@@ -0,0 +1,89 @@
+import { Course, CourseUnit, CourseUnitRef, Message, UnitCompletion } from '../types';
+import { COURSES } from '../courses';
+import { tokenize } from './analyticsService';
+import { learnerKey } from './learnerService';
+
+const COURSE_PROGRESS_KEY = 'courseProgress';
+
+export type UnitStatus = 'completed' | 'unlocked' | 'locked';
+
+export interface UnitEvaluation {
+  userTurns: number;
+  phrasesUsed: string[];
+  isComplete: boolean;
+}
+
+export function loadCourseProgress(): UnitCompletion[] {
+  try {
+    const saved = localStorage.getItem(learnerKey(COURSE_PROGRESS_KEY));
+    return saved ? JSON.parse(saved) : [];
+  } catch (e) {
+    console.error("Failed to load course progress:", e);
+    localStorage.removeItem(learnerKey(COURSE_PROGRESS_KEY));
+    return [];
+  }
+}
+
+export function saveCourseProgress(progress: UnitCompletion[]): void {
+  try {
+    localStorage.setItem(learnerKey(COURSE_PROGRESS_KEY), JSON.stringify(progress));
+  } catch (e) {
+    console.error("Failed to save course progress:", e);
+  }
+}
+
+export function findCourseUnit(ref: CourseUnitRef): { course: Course; unit: CourseUnit; index: number } | null {
+  const course = COURSES.find(c => c.id === ref.courseId);
+  const index = course ? course.units.findIndex(u => u.id === ref.unitId) : -1;
+  return course && index >= 0 ? { course, unit: course.units[index], index } : null;
+}
+
+/** The first completion of each unit in the course, keyed by unit id. */
+export function getUnitCompletions(course: Course, progress: UnitCompletion[]): Map<string, UnitCompletion> {
+  const completions = new Map<string, UnitCompletion>();
+  progress
+    .filter(completion => completion.courseId === course.id)
+    .forEach(completion => { if (!completions.has(completion.unitId)) completions.set(completion.unitId, completion); });
+  return completions;
+}
+
+/** Units unlock strictly in order: each one needs the unit before it completed. */
+export function getUnitStatuses(course: Course, progress: UnitCompletion[]): UnitStatus[] {
+  const completions = getUnitCompletions(course, progress);
+  return course.units.map((unit, index) => {
+    if (completions.has(unit.id)) return 'completed';
+    return index === 0 || completions.has(course.units[index - 1].id) ? 'unlocked' : 'locked';
+  });
+}
+
+// Phrases are matched word by word so "I'd like" is found in "Hi, I'd like a
+// coffee" regardless of punctuation or capitals.
+function containsPhrase(words: string[], phrase: string): boolean {
+  const phraseWords = tokenize(phrase);
+  if (phraseWords.length === 0) return false;
+  for (let start = 0; start + phraseWords.length <= words.length; start++) {
+    if (phraseWords.every((word, offset) => words[start + offset] === word)) return true;
+  }
+  return false;
+}
+
+/** Checks a conversation against the unit's completion criterion, counting only what the learner said. */
+export function evaluateUnit(unit: CourseUnit, messages: Message[]): UnitEvaluation {
+  const userTexts = messages.filter(msg => msg.role === 'user').map(msg => msg.content.replace(/[‘’]/g, "'"));
+  // The empty word between turns stops a phrase matching across two answers.
+  const words = userTexts.flatMap(text => [...tokenize(text), '']);
+  const phrasesUsed = unit.targetPhrases.filter(phrase => containsPhrase(words, phrase));
+  return {
+    userTurns: userTexts.length,
+    phrasesUsed,
+    isComplete: userTexts.length >= unit.completion.minUserTurns && phrasesUsed.length >= unit.completion.minPhrasesUsed,
+  };
+}
+
+/** Describes the unit for the system prompt's "Current Settings" block. */
+export function buildUnitInstructions(unit: CourseUnit): string {
+  const lines = [`- Course Lesson: ${unit.title}`];
+  if (unit.objectives.length > 0) lines.push(`- Lesson objectives (steer the conversation so the user practises each one):\n${unit.objectives.map(objective => `    - ${objective}`).join('\n')}`);
+  if (unit.targetPhrases.length > 0) lines.push(`- Target phrases (create natural chances for the user to say them; do not just ask them to repeat them): ${unit.targetPhrases.join(', ')}`);
+  return lines.join('\n');
+}
@@ -0,0 +1,127 @@
+import { ConversationSession, DrillAttempt, DrillSource, DrillWordResult, Scenario } from '../types';
+import { DRILL_SENTENCES, LEVELS } from '../constants';
+import { getSessionCorrections } from './correctionService';
+import { learnerKey } from './learnerService';
+
+const DRILL_ATTEMPTS_KEY = 'drillAttempts';
+const MAX_STORED_ATTEMPTS = 500;
+const MAX_CORRECTION_TARGETS = 20;
+
+/** Every drill source, in menu order. Their labels are `drillSource.*` locale keys. */
+export const DRILL_SOURCES = ['corrections', 'scenario', 'built-in'] as const satisfies readonly DrillSource[];
+
+/** Prefix for the app's own text turns, so the coach can tell them apart from the learner. */
+export const DRILL_TARGET_PREFIX = 'TARGET:';
+
+export function loadDrillAttempts(): DrillAttempt[] {
+  try {
+    const saved = localStorage.getItem(learnerKey(DRILL_ATTEMPTS_KEY));
+    return saved ? JSON.parse(saved) : [];
+  } catch (e) {
+    console.error("Failed to load drill attempts:", e);
+    localStorage.removeItem(learnerKey(DRILL_ATTEMPTS_KEY));
+    return [];
+  }
+}
+
+export function saveDrillAttempts(attempts: DrillAttempt[]): void {
+  try {
+    localStorage.setItem(learnerKey(DRILL_ATTEMPTS_KEY), JSON.stringify(attempts.slice(-MAX_STORED_ATTEMPTS)));
+  } catch (e) {
+    console.error("Failed to save drill attempts:", e);
+  }
+}
+
+/**
+ * Target sentences for a drill. Corrections come newest first, so the
+ * sentences the learner most recently got wrong are practised first.
+ */
+export function getDrillTargets(source: DrillSource, history: ConversationSession[], scenario: Scenario | null, level: string): string[] {
+  switch (source) {
+    case 'corrections': {
+      const sentences = [...history]
+        .sort((a, b) => b.date.localeCompare(a.date))
+        .flatMap(session => getSessionCorrections(session).map(correction => correction.corrected));
+      return Array.from(new Set(sentences)).slice(0, MAX_CORRECTION_TARGETS);
+    }
+    case 'scenario':
+      return scenario?.targetVocabulary ?? [];
+    case 'built-in':
+      return DRILL_SENTENCES[level] ?? DRILL_SENTENCES[LEVELS[0]];
+  }
+}
+
+export function normalizeDrillWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[’‘]/g, "'")
+    .replace(/[^\p{L}\p{N}'\s-]/gu, ' ')
+    .split(/[\s-]+/)
+    .map(word => word.replace(/^'+|'+$/g, ''))
+    .filter(Boolean);
+}
+
+/**
+ * Aligns what was heard against the target with a word-level edit distance,
+ * preferring a substitution over an omission plus an extra word.
+ */
+export function compareDrillWords(target: string, transcript: string): DrillWordResult[] {
+  const expected = normalizeDrillWords(target);
+  const heard = normalizeDrillWords(transcript);
+  // Transcriptions are inconsistent about apostrophes ("o'clock" / "oclock").
+  const same = (i: number, j: number) => expected[i].replace(/'/g, '') === heard[j].replace(/'/g, '');
+  const rows = expected.length + 1;
+  const cols = heard.length + 1;
+  const cost: number[][] = Array.from({ length: rows }, (_, i) => Array.from({ length: cols }, (_, j) => (i === 0 ? j : j === 0 ? i : 0)));
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const substitution = cost[i - 1][j - 1] + (same(i - 1, j - 1) ? 0 : 1);
+      cost[i][j] = Math.min(substitution, cost[i - 1][j] + 1, cost[i][j - 1] + 1);
+    }
+  }
+
+  const results: DrillWordResult[] = [];
+  let i = expected.length;
+  let j = heard.length;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && cost[i][j] === cost[i - 1][j - 1] + (same(i - 1, j - 1) ? 0 : 1)) {
+      results.push(same(i - 1, j - 1)
+        ? { type: 'match', expected: expected[i - 1] }
+        : { type: 'substituted', expected: expected[i - 1], heard: heard[j - 1] });
+      i--;
+      j--;
+    } else if (i > 0 && cost[i][j] === cost[i - 1][j] + 1) {
+      results.push({ type: 'omitted', expected: expected[i - 1] });
+      i--;
+    } else {
+      results.push({ type: 'extra', heard: heard[j - 1] });
+      j--;
+    }
+  }
+  return results.reverse();
+}
+
+/** Percentage of target words said correctly, with extra words counting against it. */
+export function scoreDrillWords(words: DrillWordResult[]): number {
+  const matches = words.filter(word => word.type === 'match').length;
+  return words.length > 0 ? Math.round(matches / words.length * 100) : 0;
+}
+
+export function createDrillAttempt(target: string, transcript: string, source: DrillSource): DrillAttempt {
+  const words = compareDrillWords(target, transcript);
+  return {
+    id: `drill-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    target,
+    transcript,
+    words,
+    score: scoreDrillWords(words),
+    source,
+    attemptedAt: new Date().toISOString(),
+  };
+}
+
+export function getAttemptsForTarget(attempts: DrillAttempt[], target: string): DrillAttempt[] {
+  const key = normalizeDrillWords(target).join(' ');
+  return attempts.filter(attempt => normalizeDrillWords(attempt.target).join(' ') === key);
+}
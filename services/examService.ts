@@ -0,0 +1,330 @@
+import { Type } from "@google/genai";
+import { ConversationSession, ExamCriterion, ExamCriterionScore, ExamPart, ExamPartStart, ExamRecord, ExamResult, Message } from '../types';
+import { lemmatize, tokenize } from './analyticsService';
+import { measureSession } from './levelService';
+import { computeTalkTime } from './timingService';
+import { TimerProgress, WRAP_UP_GRACE_MS } from './goalService';
+import { initializeAi } from './geminiService';
+
+// English names for the examiner prompts and exported transcripts. The
+// interface shows the `examPart.*` and `examCriterion.*` locale keys instead.
+export const EXAM_PART_LABELS: Record<ExamPart, string> = {
+  'interview': 'Part 1: Interview',
+  'long-turn': 'Part 2: Long turn',
+  'discussion': 'Part 3: Discussion',
+};
+
+export const EXAM_CRITERION_LABELS: Record<ExamCriterion, string> = {
+  'fluency': 'Fluency and coherence',
+  'lexical': 'Lexical resource',
+  'grammar': 'Grammatical range and accuracy',
+  'pronunciation': 'Pronunciation',
+};
+
+export const EXAM_TOPIC = 'Speaking test';
+
+/** Prefix for the app's cues to the examiner, so it can tell them apart from the candidate. */
+export const EXAM_CUE_PREFIX = 'EXAM:';
+
+export const EXAM_INTERVIEW_MINUTES = 4;
+export const EXAM_PREP_SECONDS = 60;
+export const EXAM_LONG_TURN_MINUTES = 2;
+export const EXAM_DISCUSSION_MINUTES = 4;
+
+const SCORING_MODEL = 'gemini-2.5-flash';
+export const EXAM_MAX_BAND = 9;
+const MAX_QUOTES = 3;
+const MAX_QUOTE_WORDS = 25;
+// Fewer words than this give the offline estimate nothing to go on.
+const MIN_SCORED_WORDS = 30;
+// Offline bands start here and go up one band per threshold the learner passes.
+const OFFLINE_BASE_BAND = 3;
+
+export class ExamScoringError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExamScoringError';
+  }
+}
+
+/**
+ * `questions` runs on the clock, `cue-card` waits for the examiner to hand
+ * over the cue card and `closing` waits for the examiner's goodbye.
+ */
+export type ExamPhase = 'questions' | 'cue-card' | 'prep' | 'talk' | 'closing';
+
+export interface ExamState {
+  part: ExamPart;
+  phase: ExamPhase;
+  /** When the current phase ends, or null if it ends on something other than time. */
+  phaseEndsAt: number | null;
+  /** Messages on screen when the test started. */
+  startMessageCount: number;
+  /** Examiner turns when the current phase started, to tell when the next one has arrived. */
+  coachTurnsAtPhaseStart: number;
+  /** Each part starts at the examiner's first turn in it. */
+  parts: ExamPartStart[];
+}
+
+export function startExam(now: number, startMessageCount: number): ExamState {
+  return {
+    part: 'interview',
+    phase: 'questions',
+    phaseEndsAt: now + EXAM_INTERVIEW_MINUTES * 60_000,
+    startMessageCount,
+    coachTurnsAtPhaseStart: 0,
+    parts: [],
+  };
+}
+
+// Turns arrive as a user message followed by the examiner's, so the
+// examiner's latest turn is the last message.
+function recordPartStart(exam: ExamState, progress: TimerProgress): ExamState {
+  if (exam.parts.some(start => start.part === exam.part) || progress.coachTurns <= exam.coachTurnsAtPhaseStart) return exam;
+  const messageIndex = exam.startMessageCount + progress.userTurns + progress.coachTurns - 1;
+  return { ...exam, parts: [...exam.parts, { part: exam.part, messageIndex }] };
+}
+
+/**
+ * Moves the test on to `now`. Returns the same state object when nothing
+ * changed, and the cue to send the examiner when the test moved on.
+ */
+export function advanceExam(exam: ExamState, now: number, progress: TimerProgress): { exam: ExamState; message: string | null } {
+  const recorded = recordPartStart(exam, progress);
+  const isTimeUp = recorded.phaseEndsAt !== null && now >= recorded.phaseEndsAt;
+  const moveTo = (part: ExamPart, phase: ExamPhase, phaseEndsAt: number | null): ExamState =>
+    ({ ...recorded, part, phase, phaseEndsAt, coachTurnsAtPhaseStart: progress.coachTurns });
+
+  switch (recorded.phase) {
+    case 'questions':
+      if (!isTimeUp) break;
+      if (recorded.part === 'interview') {
+        return {
+          exam: moveTo('long-turn', 'cue-card', null),
+          message: `${EXAM_CUE_PREFIX} Part 1 is over. Move on to Part 2 now, as described in your instructions.`,
+        };
+      }
+      return {
+        exam: moveTo(recorded.part, 'closing', now + WRAP_UP_GRACE_MS),
+        message: `${EXAM_CUE_PREFIX} The test is over. Thank the candidate and say goodbye in one or two sentences. Do not comment on their performance or give a score.`,
+      };
+    case 'cue-card':
+      if (progress.coachTurns <= recorded.coachTurnsAtPhaseStart) break;
+      return { exam: moveTo('long-turn', 'prep', now + EXAM_PREP_SECONDS * 1000), message: null };
+    case 'prep':
+      if (!isTimeUp) break;
+      return {
+        exam: moveTo('long-turn', 'talk', now + EXAM_LONG_TURN_MINUTES * 60_000),
+        message: `${EXAM_CUE_PREFIX} Preparation time is over. Ask the candidate to start talking now.`,
+      };
+    case 'talk':
+      if (!isTimeUp) break;
+      return {
+        exam: moveTo('discussion', 'questions', now + EXAM_DISCUSSION_MINUTES * 60_000),
+        message: `${EXAM_CUE_PREFIX} The ${EXAM_LONG_TURN_MINUTES} minutes are up. If the candidate is still speaking, stop them politely. Then move on to Part 3, as described in your instructions.`,
+      };
+  }
+  return { exam: recorded, message: null };
+}
+
+/** The record saved with the session. The test is complete once the examiner was asked to close it. */
+export function finishExam(exam: ExamState): ExamRecord {
+  return { parts: exam.parts, isComplete: exam.phase === 'closing' };
+}
+
+/** The session's messages grouped by test part, in order. */
+export function splitExamParts(messages: Message[], exam: ExamRecord): { part: ExamPart; messages: Message[] }[] {
+  return exam.parts.map((start, index) => ({
+    part: start.part,
+    messages: messages.slice(index === 0 ? 0 : start.messageIndex, exam.parts[index + 1]?.messageIndex ?? messages.length),
+  }));
+}
+
+/** IELTS rounds the average to the nearest half band, with quarters rounding up. */
+export function computeOverallBand(scores: ExamCriterionScore[]): number | null {
+  if (scores.length === 0) return null;
+  const average = scores.reduce((sum, score) => sum + score.band, 0) / scores.length;
+  return Math.round(average * 2) / 2;
+}
+
+function normalizeForQuote(text: string): string {
+  return tokenize(text).join(' ');
+}
+
+/** Keeps only quotes the learner actually said, so a result never puts words in their mouth. */
+function filterQuotes(quotes: string[], learnerTurns: string[]): string[] {
+  const spoken = learnerTurns.map(normalizeForQuote);
+  return quotes
+    .map(quote => quote.trim().replace(/^["“']+|["”']+$/g, ''))
+    .filter(quote => {
+      const normalized = normalizeForQuote(quote);
+      return normalized !== '' && spoken.some(turn => ` ${turn} `.includes(` ${normalized} `));
+    })
+    .slice(0, MAX_QUOTES);
+}
+
+function getLearnerTurns(session: ConversationSession): string[] {
+  return session.messages.filter(msg => msg.role === 'user').map(msg => msg.content);
+}
+
+function shortenQuote(text: string): string {
+  const words = text.trim().split(/\s+/);
+  return words.length > MAX_QUOTE_WORDS ? `${words.slice(0, MAX_QUOTE_WORDS).join(' ')}...` : words.join(' ');
+}
+
+function splitSentences(turns: string[]): string[] {
+  return turns.flatMap(turn => turn.match(/[^.!?]+[.!?]*/g) ?? []).map(sentence => sentence.trim()).filter(sentence => tokenize(sentence).length > 0);
+}
+
+function pickBy<T>(items: T[], measure: (item: T) => number): T | undefined {
+  return items.reduce<T | undefined>((best, item) => best === undefined || measure(item) > measure(best) ? item : best, undefined);
+}
+
+/**
+ * Rough bands from the transcript alone, for the offline demo or when the
+ * model is unavailable. Pronunciation cannot be judged from text, so it is
+ * left out.
+ */
+export function buildOfflineExamResult(session: ConversationSession): ExamResult {
+  const turns = getLearnerTurns(session);
+  const measures = measureSession(session);
+  const generatedAt = new Date().toISOString();
+  if (measures.userWords < MIN_SCORED_WORDS) {
+    return { generatedAt, source: 'offline', scores: [], overallBand: null, summary: 'You said too little during the test to estimate a band. Try to give longer answers next time.' };
+  }
+
+  const bandAbove = (value: number, thresholds: number[]) => Math.min(EXAM_MAX_BAND, OFFLINE_BASE_BAND + thresholds.filter(threshold => value >= threshold).length);
+  const wordsPerTurn = measures.userWords / turns.length;
+  const longestTurn = pickBy(turns, turn => tokenize(turn).length) ?? '';
+  const sentences = splitSentences(turns);
+  const { averageResponseDelayMs } = computeTalkTime(session.messages);
+
+  let fluency = bandAbove(wordsPerTurn, [8, 15, 25, 40, 60]);
+  // Long pauses before answering pull fluency down, as they would in the real test.
+  if (averageResponseDelayMs !== null && averageResponseDelayMs > 3000) fluency = Math.max(0, fluency - 1);
+  const scores: ExamCriterionScore[] = [
+    {
+      criterion: 'fluency',
+      band: fluency,
+      justification: `You averaged about ${Math.round(wordsPerTurn)} words per answer${averageResponseDelayMs !== null ? ` and paused about ${(averageResponseDelayMs / 1000).toFixed(1)} seconds before answering` : ''}. Your longest answer was ${tokenize(longestTurn).length} words.`,
+      quotes: [shortenQuote(longestTurn)],
+    },
+    {
+      criterion: 'lexical',
+      band: bandAbove(measures.lexicalRange, [45, 52, 58, 64, 70]),
+      justification: `About ${Math.round(measures.lexicalRange)} of every 100 words you used were different words.`,
+      quotes: [shortenQuote(pickBy(sentences, sentence => new Set(tokenize(sentence).filter(word => word.length >= 6).map(lemmatize)).size) ?? '')],
+    },
+    {
+      criterion: 'grammar',
+      band: bandAbove(measures.wordsPerSentence, [5, 8, 11, 14, 18]),
+      justification: `Your sentences averaged ${Math.round(measures.wordsPerSentence)} words. Longer sentences usually mean more complex structures; accuracy could not be checked offline.`,
+      quotes: [shortenQuote(pickBy(sentences, sentence => tokenize(sentence).length) ?? '')],
+    },
+  ];
+  for (const score of scores) score.quotes = score.quotes.filter(quote => quote !== '');
+
+  const overallBand = computeOverallBand(scores);
+  return {
+    generatedAt,
+    source: 'offline',
+    scores,
+    overallBand,
+    summary: `You gave ${turns.length} answer${turns.length === 1 ? '' : 's'}, about ${measures.userWords} words in total. This is a rough estimate of band ${overallBand} from your transcript; pronunciation was not scored.`,
+  };
+}
+
+const EXAM_RESULT_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    scores: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          criterion: { type: Type.STRING, enum: Object.keys(EXAM_CRITERION_LABELS) },
+          band: { type: Type.INTEGER },
+          justification: { type: Type.STRING },
+          quotes: { type: Type.ARRAY, items: { type: Type.STRING } },
+        },
+        required: ['criterion', 'band', 'justification', 'quotes'],
+      },
+    },
+    summary: { type: Type.STRING },
+  },
+  required: ['scores', 'summary'],
+};
+
+function buildScoringPrompt(session: ConversationSession, exam: ExamRecord): string {
+  const transcript = splitExamParts(session.messages, exam)
+    .map(({ part, messages }) => `## ${EXAM_PART_LABELS[part]}\n${messages.map(msg => `${msg.role === 'user' ? 'Candidate' : 'Examiner'}: ${msg.content}`).join('\n')}`)
+    .join('\n\n');
+  return `You are an experienced IELTS speaking examiner marking a practice test.${exam.isComplete ? '' : ' The candidate stopped the test early, so mark only what they said.'}
+
+Transcript:
+${transcript}
+
+Mark the candidate against the public IELTS speaking band descriptors, judging only the candidate's turns:
+- scores: one entry for each of ${Object.keys(EXAM_CRITERION_LABELS).map(criterion => `"${criterion}" (${EXAM_CRITERION_LABELS[criterion as ExamCriterion]})`).join(', ')}. Give a whole band from 0 to ${EXAM_MAX_BAND}, a justification of two or three sentences written to the candidate ("you"), and up to ${MAX_QUOTES} short quotes copied word for word from the candidate's turns that show why. The transcript comes from speech recognition, so judge pronunciation only from signs such as misrecognised words, and say so in its justification.
+- summary: two or three sentences on how the test went and what would most raise the candidate's band.`;
+}
+
+function readScores(raw: unknown, learnerTurns: string[]): ExamCriterionScore[] {
+  if (!Array.isArray(raw)) return [];
+  const criteria = Object.keys(EXAM_CRITERION_LABELS) as ExamCriterion[];
+  return criteria.flatMap(criterion => {
+    const score = raw.find((item: any) => item?.criterion === criterion);
+    if (typeof score?.band !== 'number' || typeof score.justification !== 'string') return [];
+    return [{
+      criterion,
+      band: Math.max(0, Math.min(EXAM_MAX_BAND, Math.round(score.band))),
+      justification: score.justification.trim(),
+      quotes: filterQuotes(Array.isArray(score.quotes) ? score.quotes.filter((quote: unknown): quote is string => typeof quote === 'string') : [], learnerTurns),
+    }];
+  });
+}
+
+async function scoreWithCoach(apiKey: string, session: ConversationSession, exam: ExamRecord): Promise<ExamResult> {
+  const ai = initializeAi(apiKey);
+  const response = await ai.models.generateContent({
+    model: SCORING_MODEL,
+    contents: buildScoringPrompt(session, exam),
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: EXAM_RESULT_SCHEMA,
+    },
+  });
+
+  let raw: any;
+  try {
+    raw = JSON.parse(response.text ?? '');
+  } catch {
+    throw new ExamScoringError('The examiner returned a result that is not valid JSON.');
+  }
+  const scores = readScores(raw?.scores, getLearnerTurns(session));
+  if (typeof raw?.summary !== 'string' || scores.length === 0) {
+    throw new ExamScoringError('The examiner returned an incomplete result.');
+  }
+  return {
+    generatedAt: new Date().toISOString(),
+    source: 'coach',
+    scores,
+    overallBand: computeOverallBand(scores),
+    summary: raw.summary.trim(),
+  };
+}
+
+/**
+ * Scores a finished test. With an API key the model marks it; without one, or
+ * if that fails, it falls back to the offline estimate.
+ */
+export async function scoreExam(session: ConversationSession, exam: ExamRecord, apiKey?: string): Promise<ExamResult> {
+  if (apiKey) {
+    try {
+      return await scoreWithCoach(apiKey, session, exam);
+    } catch (e) {
+      console.error('Failed to score the test with the coach, using the offline estimate instead:', e);
+    }
+  }
+  return buildOfflineExamResult(session);
+}
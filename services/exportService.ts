@@ -0,0 +1,423 @@
+import { ConversationSession, Message, TeacherReview } from '../types';
+import { CORRECTION_CATEGORY_LABELS, RUBRIC_CRITERION_LABELS, RUBRIC_MAX_SCORE } from '../constants';
+import { getAudioClip, migrateSession, SESSION_SCHEMA_VERSION } from './sessionStore';
+import { t } from './i18nService';
+import { getCorrectionVerdict, getMessageComment, getScoredCriteria, isReviewedCopy } from './teacherReviewService';
+import { EXAM_CRITERION_LABELS, EXAM_MAX_BAND, EXAM_PART_LABELS } from './examService';
+
+const EXPORT_FORMAT = 'english-conversation-coach/sessions';
+
+export interface SessionExport {
+  format: typeof EXPORT_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  sessions: ConversationSession[];
+  /** Base64-encoded audio clips keyed by `Message.audioClipId`. */
+  audio?: Record<string, { mimeType: string; data: string }>;
+}
+
+export interface ImportResult {
+  sessions: ConversationSession[];
+  audio: Record<string, Blob>;
+  renamedIds: number;
+  /** Teacher reviews of sessions already in history, to be attached to them rather than imported as copies. */
+  reviews: { sessionId: number; review: TeacherReview }[];
+}
+
+export class SessionImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionImportError';
+  }
+}
+
+export function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'session';
+}
+
+export function getExportBaseName(session: ConversationSession): string {
+  return `${session.date.slice(0, 10)}-${slugify(session.topic)}`;
+}
+
+export function downloadFile(fileName: string, content: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoking straight after click() can cancel the download in Firefox and older Safari.
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+async function blobToBase64(blob: Blob): Promise<string> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+function base64ToBlob(data: string, mimeType: string): Blob {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+}
+
+// ---------------------------------------------------------------------------
+// JSON
+
+export async function exportSessionsJson(sessions: ConversationSession[], includeAudio = true): Promise<string> {
+  const payload: SessionExport = {
+    format: EXPORT_FORMAT,
+    schemaVersion: SESSION_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    sessions,
+  };
+
+  if (includeAudio) {
+    const audio: NonNullable<SessionExport['audio']> = {};
+    for (const msg of sessions.flatMap(session => session.messages)) {
+      if (!msg.audioClipId) continue;
+      const clip = await getAudioClip(msg.audioClipId);
+      if (clip) {
+        audio[msg.audioClipId] = { mimeType: clip.type || 'audio/wav', data: await blobToBase64(clip) };
+      }
+    }
+    if (Object.keys(audio).length > 0) payload.audio = audio;
+  }
+
+  return JSON.stringify(payload, null, 2);
+}
+
+// `in` would also accept inherited names such as "toString".
+const isLabelKey = (labels: object, key: unknown): boolean => typeof key === 'string' && Object.prototype.hasOwnProperty.call(labels, key);
+
+function assertValidMessage(msg: any, path: string): void {
+  if (!msg || typeof msg !== 'object') throw new SessionImportError(`${path} is not an object.`);
+  if (msg.role !== 'user' && msg.role !== 'ai') throw new SessionImportError(`${path}.role must be "user" or "ai".`);
+  if (typeof msg.content !== 'string') throw new SessionImportError(`${path}.content must be a string.`);
+  if (msg.corrections !== undefined && !Array.isArray(msg.corrections)) throw new SessionImportError(`${path}.corrections must be an array.`);
+  (msg.corrections ?? []).forEach((correction: any, i: number) => {
+    const itemPath = `${path}.corrections[${i}]`;
+    if (!correction || typeof correction !== 'object') throw new SessionImportError(`${itemPath} is not an object.`);
+    for (const field of ['original', 'corrected', 'explanation']) {
+      if (typeof correction[field] !== 'string') throw new SessionImportError(`${itemPath}.${field} must be a string.`);
+    }
+    if (!isLabelKey(CORRECTION_CATEGORY_LABELS, correction.category)) throw new SessionImportError(`${itemPath}.category is not a correction category.`);
+  });
+}
+
+function assertValidSession(session: any, path: string): void {
+  if (!session || typeof session !== 'object') throw new SessionImportError(`${path} is not an object.`);
+  if (typeof session.id !== 'number') throw new SessionImportError(`${path}.id must be a number.`);
+  for (const field of ['date', 'level', 'topic']) {
+    if (typeof session[field] !== 'string') throw new SessionImportError(`${path}.${field} must be a string.`);
+  }
+  if (!Array.isArray(session.messages)) throw new SessionImportError(`${path}.messages must be an array.`);
+  session.messages.forEach((msg: unknown, i: number) => assertValidMessage(msg, `${path}.messages[${i}]`));
+  if (session.review !== undefined) assertValidReview(session.review, `${path}.review`);
+  if (session.exam !== undefined) assertValidExam(session.exam, `${path}.exam`);
+}
+
+function assertValidExam(exam: any, path: string): void {
+  if (!exam || typeof exam !== 'object') throw new SessionImportError(`${path} is not an object.`);
+  if (!Array.isArray(exam.parts)) throw new SessionImportError(`${path}.parts must be an array.`);
+  exam.parts.forEach((partStart: any, i: number) => {
+    const itemPath = `${path}.parts[${i}]`;
+    if (!partStart || typeof partStart !== 'object') throw new SessionImportError(`${itemPath} is not an object.`);
+    if (!isLabelKey(EXAM_PART_LABELS, partStart.part)) throw new SessionImportError(`${itemPath}.part is not a test part.`);
+    if (!Number.isInteger(partStart.messageIndex)) throw new SessionImportError(`${itemPath}.messageIndex must be a whole number.`);
+  });
+  if (typeof exam.isComplete !== 'boolean') throw new SessionImportError(`${path}.isComplete must be a boolean.`);
+  if (exam.result !== undefined) {
+    if (!exam.result || typeof exam.result !== 'object') throw new SessionImportError(`${path}.result is not an object.`);
+    if (!Array.isArray(exam.result.scores)) throw new SessionImportError(`${path}.result.scores must be an array.`);
+    if (typeof exam.result.summary !== 'string') throw new SessionImportError(`${path}.result.summary must be a string.`);
+    exam.result.scores.forEach((score: any, i: number) => {
+      const itemPath = `${path}.result.scores[${i}]`;
+      if (!score || typeof score !== 'object') throw new SessionImportError(`${itemPath} is not an object.`);
+      if (!isLabelKey(EXAM_CRITERION_LABELS, score.criterion)) throw new SessionImportError(`${itemPath}.criterion is not a test criterion.`);
+      if (!Number.isInteger(score.band) || score.band < 0 || score.band > EXAM_MAX_BAND) {
+        throw new SessionImportError(`${itemPath}.band must be a whole number from 0 to ${EXAM_MAX_BAND}.`);
+      }
+      if (typeof score.justification !== 'string') throw new SessionImportError(`${itemPath}.justification must be a string.`);
+      if (!Array.isArray(score.quotes) || score.quotes.some((quote: unknown) => typeof quote !== 'string')) {
+        throw new SessionImportError(`${itemPath}.quotes must be a list of strings.`);
+      }
+    });
+  }
+}
+
+function assertValidReview(review: any, path: string): void {
+  if (!review || typeof review !== 'object') throw new SessionImportError(`${path} is not an object.`);
+  for (const field of ['reviewer', 'reviewedAt', 'summary']) {
+    if (typeof review[field] !== 'string') throw new SessionImportError(`${path}.${field} must be a string.`);
+  }
+  for (const field of ['comments', 'corrections']) {
+    if (!Array.isArray(review[field])) throw new SessionImportError(`${path}.${field} must be an array.`);
+  }
+  review.comments.forEach((comment: any, i: number) => {
+    const itemPath = `${path}.comments[${i}]`;
+    if (!comment || typeof comment !== 'object') throw new SessionImportError(`${itemPath} is not an object.`);
+    if (!Number.isInteger(comment.messageIndex)) throw new SessionImportError(`${itemPath}.messageIndex must be a whole number.`);
+    if (typeof comment.text !== 'string') throw new SessionImportError(`${itemPath}.text must be a string.`);
+  });
+  review.corrections.forEach((correction: any, i: number) => {
+    const itemPath = `${path}.corrections[${i}]`;
+    if (!correction || typeof correction !== 'object') throw new SessionImportError(`${itemPath} is not an object.`);
+    for (const field of ['messageIndex', 'correctionIndex']) {
+      if (!Number.isInteger(correction[field])) throw new SessionImportError(`${itemPath}.${field} must be a whole number.`);
+    }
+    if (correction.verdict !== 'agree' && correction.verdict !== 'disagree') throw new SessionImportError(`${itemPath}.verdict must be "agree" or "disagree".`);
+  });
+  if (!review.rubric || typeof review.rubric !== 'object' || Array.isArray(review.rubric)) throw new SessionImportError(`${path}.rubric must be an object.`);
+  for (const [criterion, score] of Object.entries(review.rubric)) {
+    if (!isLabelKey(RUBRIC_CRITERION_LABELS, criterion)) throw new SessionImportError(`${path}.rubric.${criterion} is not a rubric criterion.`);
+    if (!Number.isInteger(score) || (score as number) < 1 || (score as number) > RUBRIC_MAX_SCORE) {
+      throw new SessionImportError(`${path}.rubric.${criterion} must be a whole number from 1 to ${RUBRIC_MAX_SCORE}.`);
+    }
+  }
+}
+
+/**
+ * Parses and validates a JSON export. Sessions whose id is already taken are
+ * given a fresh id so importing never overwrites existing history, except
+ * that a reviewed copy of one of `existingSessions` (the current learner's)
+ * only contributes its review. `storedIds` holds every id in the store,
+ * including other learners' sessions, which are never matched or replaced.
+ */
+export function parseSessionsJson(text: string, existingSessions: ConversationSession[], storedIds: Iterable<number> = []): ImportResult {
+  let payload: any;
+  try {
+    payload = JSON.parse(text);
+  } catch {
+    throw new SessionImportError('The file is not valid JSON.');
+  }
+
+  // Accept a bare session or array of sessions as well as the wrapped format.
+  const rawSessions: unknown[] = payload?.format === EXPORT_FORMAT
+    ? payload.sessions
+    : Array.isArray(payload) ? payload : [payload];
+  if (!Array.isArray(rawSessions) || rawSessions.length === 0) {
+    throw new SessionImportError('The file does not contain any sessions.');
+  }
+  if (typeof payload?.schemaVersion === 'number' && payload.schemaVersion > SESSION_SCHEMA_VERSION) {
+    throw new SessionImportError('This file was exported by a newer version of the app.');
+  }
+  rawSessions.forEach((session, i) => assertValidSession(session, `sessions[${i}]`));
+
+  const rawAudio: Record<string, any> = payload?.audio && typeof payload.audio === 'object' ? payload.audio : {};
+  const audio: Record<string, Blob> = {};
+  const existingById = new Map(existingSessions.map(session => [session.id, session]));
+  const takenIds = new Set([...existingById.keys(), ...storedIds]);
+  const reviews: ImportResult['reviews'] = [];
+  let nextId = Date.now();
+  let renamedIds = 0;
+
+  const restoreClip = (sourceClipId: string, clipId: string) => {
+    const clip = rawAudio[sourceClipId];
+    if (typeof clip?.data === 'string') {
+      audio[clipId] = base64ToBlob(clip.data, typeof clip.mimeType === 'string' ? clip.mimeType : 'audio/wav');
+    }
+  };
+
+  const sessions = rawSessions.flatMap(raw => {
+    let session = migrateSession(raw);
+    const existing = existingById.get(session.id);
+    if (existing && isReviewedCopy(session, existing)) {
+      reviews.push({ sessionId: session.id, review: session.review! });
+      return [];
+    }
+    if (takenIds.has(session.id)) {
+      while (takenIds.has(nextId)) nextId += 1;
+      const newId = nextId;
+      // Give the copy its own audio clips too, so deleting either session
+      // does not remove recordings the other one still references.
+      session = {
+        ...session,
+        id: newId,
+        messages: session.messages.map(msg => {
+          if (!msg.audioClipId) return msg;
+          const clipId = `${msg.audioClipId}-${newId}`;
+          restoreClip(msg.audioClipId, clipId);
+          return { ...msg, audioClipId: clipId };
+        }),
+      };
+      renamedIds += 1;
+    } else {
+      session.messages.forEach(msg => {
+        if (msg.audioClipId) restoreClip(msg.audioClipId, msg.audioClipId);
+      });
+    }
+    takenIds.add(session.id);
+    return [session];
+  });
+
+  return { sessions, audio, renamedIds, reviews };
+}
+
+// ---------------------------------------------------------------------------
+// Markdown
+
+function speakerName(msg: Message): string {
+  return msg.role === 'user' ? 'You' : 'Coach';
+}
+
+export function exportSessionMarkdown(session: ConversationSession): string {
+  const lines: string[] = [
+    `# ${session.topic}`,
+    '',
+    `- **Date:** ${new Date(session.date).toLocaleString()}`,
+    `- **Level:** ${session.level}`,
+    ...(session.feedback ? [`- **Feedback:** ${t(`feedbackStyle.${session.feedback.style}`)}`] : []),
+    '',
+    '## Transcript',
+    '',
+  ];
+
+  const { review, exam } = session;
+  session.messages.forEach((msg, messageIndex) => {
+    const partStart = exam?.parts.find(start => start.messageIndex === messageIndex);
+    if (partStart) lines.push(`### ${EXAM_PART_LABELS[partStart.part]}`, '');
+    lines.push(`**${speakerName(msg)}${msg.modality === 'text' ? ' (typed)' : ''}:** ${msg.content}`, '');
+    (msg.corrections ?? []).forEach((correction, correctionIndex) => {
+      const verdict = review && getCorrectionVerdict(review, messageIndex, correctionIndex);
+      lines.push(
+        `> ✏️ *${CORRECTION_CATEGORY_LABELS[correction.category]}* — ~~${correction.original}~~ → **${correction.corrected}**${verdict ? ` (teacher ${verdict === 'agree' ? 'agrees' : 'disagrees'})` : ''}`,
+        ...(correction.explanation ? [`> ${correction.explanation}`] : []),
+        ''
+      );
+    });
+    const comment = review && getMessageComment(review, messageIndex);
+    if (comment) lines.push(`> 💬 **Teacher:** ${comment}`, '');
+  });
+
+  if (session.notes?.general.trim()) {
+    lines.push('## Notes', '', session.notes.general.trim(), '');
+  }
+
+  if (exam?.result) {
+    const { result } = exam;
+    lines.push('## Test Results', '', `- **Overall band:** ${result.overallBand ?? 'Not scored'}${exam.isComplete ? '' : ' (test stopped early)'}`);
+    for (const score of result.scores) {
+      lines.push(`- **${EXAM_CRITERION_LABELS[score.criterion]}:** ${score.band}. ${score.justification}`, ...score.quotes.map(quote => `  > "${quote}"`));
+    }
+    lines.push('', result.summary, '');
+  }
+
+  if (review) {
+    lines.push('## Teacher Review', '', `- **Reviewer:** ${review.reviewer || 'Teacher'}`, `- **Reviewed:** ${new Date(review.reviewedAt).toLocaleString()}`);
+    for (const criterion of getScoredCriteria(review)) {
+      lines.push(`- **${RUBRIC_CRITERION_LABELS[criterion]}:** ${review.rubric[criterion]}/${RUBRIC_MAX_SCORE}`);
+    }
+    lines.push('', ...(review.summary.trim() ? [review.summary.trim(), ''] : []));
+  }
+
+  return lines.join('\n');
+}
+
+// ---------------------------------------------------------------------------
+// Subtitles
+
+export function hasTurnTimestamps(session: ConversationSession): boolean {
+  return session.messages.some(msg => msg.startedAt !== undefined && msg.endedAt !== undefined);
+}
+
+function formatTimestamp(ms: number, separator: ',' | '.'): string {
+  const clamped = Math.max(0, Math.round(ms));
+  const hours = Math.floor(clamped / 3600000);
+  const minutes = Math.floor((clamped % 3600000) / 60000);
+  const seconds = Math.floor((clamped % 60000) / 1000);
+  const millis = clamped % 1000;
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(millis, 3)}`;
+}
+
+function getTimedCues(session: ConversationSession): { start: number; end: number; text: string }[] {
+  const timed = session.messages.filter(msg => msg.startedAt !== undefined && msg.endedAt !== undefined);
+  if (timed.length === 0) return [];
+  const origin = Math.min(...timed.map(msg => msg.startedAt!));
+  return timed.map(msg => ({
+    start: msg.startedAt! - origin,
+    end: Math.max(msg.endedAt!, msg.startedAt! + 1000) - origin,
+    text: `${speakerName(msg)}: ${msg.content}`,
+  }));
+}
+
+export function exportSessionSrt(session: ConversationSession): string {
+  return getTimedCues(session)
+    .map((cue, i) => `${i + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.text}\n`)
+    .join('\n');
+}
+
+export function exportSessionVtt(session: ConversationSession): string {
+  const cues = getTimedCues(session)
+    .map(cue => `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${cue.text}\n`);
+  return ['WEBVTT', '', ...cues].join('\n');
+}
+
+// ---------------------------------------------------------------------------
+// Anki
+
+function csvField(value: string): string {
+  return `"${value.replace(/"/g, '""')}"`;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * One row per correction: front, back (HTML, with the explanation), tags.
+ * Import into Anki with "Allow HTML in fields" enabled and the third column
+ * mapped to Tags.
+ */
+export function exportCorrectionsAnkiCsv(sessions: ConversationSession[]): string {
+  const rows = sessions.flatMap(session =>
+    session.messages.flatMap(msg => (msg.corrections ?? []).map(correction => {
+      const back = correction.explanation
+        ? `${escapeHtml(correction.corrected)}<br><br><small>${escapeHtml(correction.explanation)}</small>`
+        : escapeHtml(correction.corrected);
+      const tags = ['english-coach', correction.category, slugify(session.topic)].join(' ');
+      return [csvField(escapeHtml(correction.original)), csvField(back), csvField(tags)].join(',');
+    }))
+  );
+  return ['#separator:Comma', '#html:true', '#tags column:3', ...rows].join('\n');
+}
+
+// ---------------------------------------------------------------------------
+
+export type ExportFormat = 'json' | 'markdown' | 'srt' | 'vtt' | 'anki';
+
+/** Every export format, in menu order. Their labels are `exportFormat.*` locale keys. */
+export const EXPORT_FORMATS = ['json', 'markdown', 'srt', 'vtt', 'anki'] as const satisfies readonly ExportFormat[];
+
+export async function downloadSessionsExport(sessions: ConversationSession[], format: ExportFormat): Promise<void> {
+  const baseName = sessions.length === 1
+    ? getExportBaseName(sessions[0])
+    : `english-coach-sessions-${new Date().toISOString().slice(0, 10)}`;
+
+  switch (format) {
+    case 'json':
+      downloadFile(`${baseName}.json`, await exportSessionsJson(sessions), 'application/json');
+      break;
+    case 'markdown':
+      downloadFile(`${baseName}.md`, sessions.map(exportSessionMarkdown).join('\n---\n\n'), 'text/markdown');
+      break;
+    case 'srt':
+      downloadFile(`${baseName}.srt`, exportSessionSrt(sessions[0]), 'application/x-subrip');
+      break;
+    case 'vtt':
+      downloadFile(`${baseName}.vtt`, exportSessionVtt(sessions[0]), 'text/vtt');
+      break;
+    case 'anki':
+      downloadFile(`${baseName}-anki.csv`, exportCorrectionsAnkiCsv(sessions), 'text/csv');
+      break;
+  }
+}
@@ -0,0 +1,42 @@
+import { CorrectionCategory, FeedbackSettings, FeedbackStyle, SpeakingPace } from '../types';
+import { CORRECTION_CATEGORY_LABELS } from '../constants';
+import { learnerKey } from './learnerService';
+
+/** Every feedback style, in menu order. Their labels are `feedbackStyle.*` locale keys. */
+export const FEEDBACK_STYLES = ['detailed', 'recast', 'deferred', 'fluency'] as const satisfies readonly FeedbackStyle[];
+
+/** Every speaking pace, in menu order. Their labels are `pace.*` locale keys. */
+export const SPEAKING_PACES = ['slow', 'normal', 'fast'] as const satisfies readonly SpeakingPace[];
+
+/** Every category the learner can switch on or off. "Other" is always flagged. */
+export const FLAGGABLE_CATEGORIES = (Object.keys(CORRECTION_CATEGORY_LABELS) as CorrectionCategory[]).filter(category => category !== 'other');
+
+export const DEFAULT_FEEDBACK_SETTINGS: FeedbackSettings = {
+  style: 'detailed',
+  flaggedCategories: FLAGGABLE_CATEGORIES,
+  pace: 'normal',
+};
+
+/** Prefix for the app's request to review deferred corrections, so the coach can tell it apart from the learner. */
+export const FEEDBACK_REVIEW_PREFIX = 'REVIEW:';
+
+const FEEDBACK_SETTINGS_KEY = 'feedbackSettings';
+
+export function loadFeedbackSettings(): FeedbackSettings {
+  try {
+    const saved = localStorage.getItem(learnerKey(FEEDBACK_SETTINGS_KEY));
+    return saved ? { ...DEFAULT_FEEDBACK_SETTINGS, ...JSON.parse(saved) } : DEFAULT_FEEDBACK_SETTINGS;
+  } catch (e) {
+    console.error("Failed to load feedback settings:", e);
+    localStorage.removeItem(learnerKey(FEEDBACK_SETTINGS_KEY));
+    return DEFAULT_FEEDBACK_SETTINGS;
+  }
+}
+
+export function saveFeedbackSettings(settings: FeedbackSettings): void {
+  try {
+    localStorage.setItem(learnerKey(FEEDBACK_SETTINGS_KEY), JSON.stringify(settings));
+  } catch (e) {
+    console.error("Failed to save feedback settings:", e);
+  }
+}
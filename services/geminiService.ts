@@ -1,6 +1,8 @@
-import { GoogleGenAI, LiveSession, LiveServerMessage, Modality, Blob, ErrorEvent, CloseEvent } from "@google/genai";
+import { GoogleGenAI, LiveServerMessage, Modality, Blob } from "@google/genai";
+import { ConversationBackend, BackendEvent, BackendErrorKind } from './conversationBackend';
 
 const model = 'gemini-2.5-flash-native-audio-preview-09-2025';
+const GEMINI_OUTPUT_SAMPLE_RATE = 24000;
 
 export function initializeAi(apiKey: string): GoogleGenAI {
   if (!apiKey) {
@@ -35,7 +37,7 @@ export async function decodeAudioData(
   sampleRate: number,
   numChannels: number,
 ): Promise<AudioBuffer> {
-  const dataInt16 = new Int16Array(data.buffer);
+  const dataInt16 = new Int16Array(data.buffer, data.byteOffset, data.byteLength / 2);
   const frameCount = dataInt16.length / numChannels;
   const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
 
@@ -48,36 +50,6 @@ export async function decodeAudioData(
   return buffer;
 }
 
-export const connectToLiveSession = (
-  ai: GoogleGenAI,
-  systemInstruction: string,
-  voiceName: string,
-  callbacks: {
-    onopen: () => void;
-    onmessage: (message: LiveServerMessage) => void;
-    onerror: (e: ErrorEvent) => void;
-    onclose: (e: CloseEvent) => void;
-  }
-): Promise<LiveSession> => {
-  if (!ai) {
-    throw new Error("GoogleGenAI not initialized. Please provide an API key.");
-  }
-
-  return ai.live.connect({
-    model: model,
-    callbacks: callbacks,
-    config: {
-      responseModalities: [Modality.AUDIO],
-      speechConfig: {
-        voiceConfig: { prebuiltVoiceConfig: { voiceName: voiceName } },
-      },
-      systemInstruction: systemInstruction,
-      inputAudioTranscription: {},
-      outputAudioTranscription: {},
-    },
-  });
-};
-
 export function createPcmBlob(data: Float32Array): Blob {
     const l = data.length;
     const int16 = new Int16Array(l);
@@ -88,4 +60,81 @@ export function createPcmBlob(data: Float32Array): Blob {
       data: encode(new Uint8Array(int16.buffer)),
       mimeType: 'audio/pcm;rate=16000',
     };
-}
\ No newline at end of file
+}
+
+function toBackendEvents(message: LiveServerMessage): BackendEvent[] {
+  const events: BackendEvent[] = [];
+  const content = message.serverContent;
+  if (!content) return events;
+
+  if (content.inputTranscription?.text) {
+    events.push({ type: 'inputTranscript', text: content.inputTranscription.text });
+  }
+  if (content.outputTranscription?.text) {
+    events.push({ type: 'outputTranscript', text: content.outputTranscription.text });
+  }
+  if (content.turnComplete) {
+    events.push({ type: 'turnComplete' });
+  }
+  for (const part of content.modelTurn?.parts ?? []) {
+    const base64Audio = part.inlineData?.data;
+    if (base64Audio) {
+      events.push({ type: 'audio', pcm: decode(base64Audio), sampleRate: GEMINI_OUTPUT_SAMPLE_RATE });
+    }
+  }
+  if (content.interrupted) {
+    events.push({ type: 'interrupted' });
+  }
+  return events;
+}
+
+const AUTH_FAILURE_PATTERN = /api[ _-]?key|permission|unauthenticated|unauthori[sz]ed|forbidden|\b40[13]\b/i;
+// WebSocket close code the Live API uses when it rejects the request itself.
+const POLICY_VIOLATION_CLOSE_CODE = 1008;
+
+export function classifyGeminiFailure(message: string, closeCode?: number): BackendErrorKind {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return 'transient';
+  if (AUTH_FAILURE_PATTERN.test(message)) return 'auth';
+  if (closeCode === POLICY_VIOLATION_CLOSE_CODE && /key|auth|access/i.test(message)) return 'auth';
+  return 'transient';
+}
+
+/** Gemini Live API backend, streaming native audio in both directions. */
+export function createGeminiBackend(apiKey: string): ConversationBackend {
+  const ai = initializeAi(apiKey);
+
+  return {
+    id: 'gemini',
+    requiresApiKey: true,
+    connect: async ({ systemInstruction, voiceName }, onEvent) => {
+      const session = await ai.live.connect({
+        model: model,
+        callbacks: {
+          onopen: () => onEvent({ type: 'open' }),
+          onmessage: (message: LiveServerMessage) => toBackendEvents(message).forEach(onEvent),
+          onerror: (e: ErrorEvent) => {
+            const message = e.message || 'Connection error';
+            onEvent({ type: 'error', kind: classifyGeminiFailure(message), message, cause: e.error });
+          },
+          onclose: (e: CloseEvent) => onEvent({ type: 'close', kind: classifyGeminiFailure(e.reason, e.code), code: e.code, reason: e.reason }),
+        },
+        config: {
+          responseModalities: [Modality.AUDIO],
+          speechConfig: {
+            voiceConfig: { prebuiltVoiceConfig: { voiceName: voiceName } },
+          },
+          systemInstruction: systemInstruction,
+          inputAudioTranscription: {},
+          outputAudioTranscription: {},
+        },
+      });
+
+      return {
+        sendAudio: (samples) => session.sendRealtimeInput({ media: createPcmBlob(samples) }),
+        sendText: (text) => session.sendClientContent({ turns: [{ role: 'user', parts: [{ text }] }], turnComplete: true }),
+        close: () => session.close(),
+      };
+    },
+    classifyError: (error) => classifyGeminiFailure(error instanceof Error ? error.message : String(error)),
+  };
+}
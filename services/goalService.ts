@@ -0,0 +1,210 @@
+import { GoalSettings, PracticeModeId, SessionGoal, SessionGoalResult } from '../types';
+import { learnerKey } from './learnerService';
+import { toDayKey } from './analyticsService';
+
+/** Every practice mode, in menu order. Their labels are `practiceMode.*` locale keys. */
+export const PRACTICE_MODES = ['open', 'timed', 'turns', 'ielts-part2'] as const satisfies readonly PracticeModeId[];
+
+export const DEFAULT_GOAL_SETTINGS: GoalSettings = {
+  mode: 'open',
+  minutes: 10,
+  turns: 10,
+  dailyMinutes: 10,
+};
+
+/** Prefix for the app's timekeeping messages, so the coach can tell them apart from the learner. */
+export const SESSION_TIMER_PREFIX = 'TIMER:';
+
+const IELTS_PART2_PREP_SECONDS = 60;
+const IELTS_PART2_TALK_MINUTES = 2;
+// The coach is warned this close to the end, as long as the session is
+// long enough for a warning to be any use.
+const TIME_WARNING_MS = 60_000;
+const TURNS_WARNING = 2;
+// How long the coach gets for its closing turn before the session ends anyway.
+export const WRAP_UP_GRACE_MS = 20_000;
+
+const GOAL_SETTINGS_KEY = 'goalSettings';
+const PRACTICE_LOG_KEY = 'practiceLog';
+
+/** Milliseconds practised per local day, keyed `YYYY-MM-DD`. */
+export type PracticeLog = Record<string, number>;
+
+export type TimerPhase = 'cue-card' | 'prep' | 'talk' | 'wrap-up';
+
+export interface SessionTimer {
+  goal: SessionGoal;
+  phase: TimerPhase;
+  /** When the current phase ends, or null if it ends on something other than time. */
+  phaseEndsAt: number | null;
+  /** Messages on screen when the session started; only later turns count towards the goal. */
+  startMessageCount: number;
+  hasWarned: boolean;
+  /** Coach turns before the wrap-up was asked for, to tell when the closing turn has arrived. */
+  coachTurnsBeforeWrapUp?: number;
+}
+
+/** Turns taken since the session started. */
+export interface TimerProgress {
+  userTurns: number;
+  coachTurns: number;
+}
+
+export function loadGoalSettings(): GoalSettings {
+  try {
+    const saved = localStorage.getItem(learnerKey(GOAL_SETTINGS_KEY));
+    return saved ? { ...DEFAULT_GOAL_SETTINGS, ...JSON.parse(saved) } : DEFAULT_GOAL_SETTINGS;
+  } catch (e) {
+    console.error("Failed to load goal settings:", e);
+    localStorage.removeItem(learnerKey(GOAL_SETTINGS_KEY));
+    return DEFAULT_GOAL_SETTINGS;
+  }
+}
+
+export function saveGoalSettings(settings: GoalSettings): void {
+  try {
+    localStorage.setItem(learnerKey(GOAL_SETTINGS_KEY), JSON.stringify(settings));
+  } catch (e) {
+    console.error("Failed to save goal settings:", e);
+  }
+}
+
+export function loadPracticeLog(): PracticeLog {
+  try {
+    const saved = localStorage.getItem(learnerKey(PRACTICE_LOG_KEY));
+    return saved ? JSON.parse(saved) : {};
+  } catch (e) {
+    console.error("Failed to load practice log:", e);
+    localStorage.removeItem(learnerKey(PRACTICE_LOG_KEY));
+    return {};
+  }
+}
+
+export function savePracticeLog(log: PracticeLog): void {
+  try {
+    localStorage.setItem(learnerKey(PRACTICE_LOG_KEY), JSON.stringify(log));
+  } catch (e) {
+    console.error("Failed to save practice log:", e);
+  }
+}
+
+export function recordPractice(log: PracticeLog, practisedMs: number, now: number): PracticeLog {
+  const day = toDayKey(now);
+  return { ...log, [day]: (log[day] ?? 0) + practisedMs };
+}
+
+export function getSessionGoal(settings: GoalSettings): SessionGoal | null {
+  switch (settings.mode) {
+    case 'timed':
+      return { mode: 'timed', minutes: settings.minutes };
+    case 'turns':
+      return { mode: 'turns', turns: settings.turns };
+    case 'ielts-part2':
+      return { mode: 'ielts-part2', minutes: IELTS_PART2_TALK_MINUTES, prepSeconds: IELTS_PART2_PREP_SECONDS };
+    default:
+      return null;
+  }
+}
+
+export function buildGoalInstructions(goal: SessionGoal): string {
+  const lines = [
+    'Session Timer:',
+    `Messages starting with "${SESSION_TIMER_PREFIX}" come from the app, not the user. They tell you how the session is going for time. Never read them out or answer them as if the user had said them; just do what they ask in your next turn, without mentioning the timer.`,
+  ];
+  if (goal.mode === 'ielts-part2') {
+    lines.push(`This is IELTS Speaking Part 2 practice. Instead of opening as described above, briefly introduce yourself, then give the user a cue card: one topic (for example, "Describe a place you like to visit") and three or four points to cover, read out clearly. Tell them they have one minute to prepare and may make notes, then stop talking and say nothing until you receive "${SESSION_TIMER_PREFIX} Preparation time is over". Then ask them to begin. During their long turn of up to ${goal.minutes} minutes, do not interrupt, correct them or ask questions. If they stop well before the time is up, briefly encourage them to say more about one of the points.`);
+  } else if (goal.minutes) {
+    lines.push(`This is a ${goal.minutes}-minute session. Pace the conversation so it can finish naturally in that time.`);
+  } else if (goal.turns) {
+    lines.push(`This session ends after the user has given ${goal.turns} answers. Pace the conversation so it can finish naturally by then.`);
+  }
+  return lines.join('\n');
+}
+
+export function startSessionTimer(goal: SessionGoal, now: number, startMessageCount: number): SessionTimer {
+  // Preparation only starts once the coach has read out the cue card.
+  if (goal.prepSeconds) {
+    return { goal, phase: 'cue-card', phaseEndsAt: null, startMessageCount, hasWarned: false };
+  }
+  return { goal, phase: 'talk', phaseEndsAt: goal.minutes ? now + goal.minutes * 60_000 : null, startMessageCount, hasWarned: false };
+}
+
+function buildWrapUpMessage(goal: SessionGoal): string {
+  return goal.mode === 'ielts-part2'
+    ? `${SESSION_TIMER_PREFIX} The ${goal.minutes} minutes are up. If the user is still talking, stop them politely. Thank them, say one thing they did well and one thing to work on in their long turn, then say goodbye.`
+    : `${SESSION_TIMER_PREFIX} Time is up. Wrap up now: respond briefly to the user's last turn if needed, give a short, encouraging summary of how they did and say goodbye. Do not ask another question.`;
+}
+
+function buildWarningMessage(timer: SessionTimer, now: number, progress: TimerProgress): string | null {
+  const { goal, phaseEndsAt } = timer;
+  // Warnings would interrupt an IELTS long turn, which the learner has to pace themselves.
+  if (goal.prepSeconds) return null;
+  if (phaseEndsAt !== null && goal.minutes && goal.minutes * 60_000 > 2 * TIME_WARNING_MS && phaseEndsAt - now <= TIME_WARNING_MS) {
+    return `${SESSION_TIMER_PREFIX} About one minute left. Start steering the conversation towards a natural close.`;
+  }
+  if (goal.turns && goal.turns > TURNS_WARNING && goal.turns - progress.userTurns <= TURNS_WARNING) {
+    return `${SESSION_TIMER_PREFIX} The user has ${goal.turns - progress.userTurns} answers left. Start steering the conversation towards a natural close.`;
+  }
+  return null;
+}
+
+/**
+ * Moves the timer on to `now`. Returns the same timer object when nothing
+ * changed, and the message to send the coach when something did.
+ */
+export function advanceSessionTimer(timer: SessionTimer, now: number, progress: TimerProgress): { timer: SessionTimer; message: string | null } {
+  const { goal } = timer;
+  switch (timer.phase) {
+    case 'cue-card':
+      if (progress.coachTurns === 0) break;
+      return { timer: { ...timer, phase: 'prep', phaseEndsAt: now + (goal.prepSeconds ?? 0) * 1000 }, message: null };
+    case 'prep':
+      if (timer.phaseEndsAt !== null && now < timer.phaseEndsAt) break;
+      return {
+        timer: { ...timer, phase: 'talk', phaseEndsAt: goal.minutes ? now + goal.minutes * 60_000 : null },
+        message: `${SESSION_TIMER_PREFIX} Preparation time is over. Ask the user to start talking now.`,
+      };
+    case 'talk': {
+      const isTimeUp = timer.phaseEndsAt !== null && now >= timer.phaseEndsAt;
+      const areTurnsDone = !!goal.turns && progress.userTurns >= goal.turns;
+      if (isTimeUp || areTurnsDone) {
+        return {
+          timer: { ...timer, phase: 'wrap-up', phaseEndsAt: now + WRAP_UP_GRACE_MS, coachTurnsBeforeWrapUp: progress.coachTurns },
+          message: buildWrapUpMessage(goal),
+        };
+      }
+      if (timer.hasWarned) break;
+      const warning = buildWarningMessage(timer, now, progress);
+      if (warning) return { timer: { ...timer, hasWarned: true }, message: warning };
+      break;
+    }
+  }
+  return { timer, message: null };
+}
+
+/** A goal counts as met once the session reached its wrap-up, however it was reached. */
+export function evaluateGoal(timer: SessionTimer, practisedMs: number, userTurns: number): SessionGoalResult {
+  return { goal: timer.goal, practisedMs, userTurns, met: timer.phase === 'wrap-up' };
+}
+
+export interface DailyProgress {
+  todayMs: number;
+  isTodayMet: boolean;
+  /** Consecutive days the daily goal was met, up to today, or up to yesterday while today is not met yet. */
+  streakDays: number;
+}
+
+export function getDailyProgress(log: PracticeLog, dailyMinutes: number, now: number): DailyProgress {
+  const targetMs = dailyMinutes * 60_000;
+  const isMet = (day: Date) => (log[toDayKey(day.getTime())] ?? 0) >= targetMs;
+  const todayMs = log[toDayKey(now)] ?? 0;
+  const day = new Date(now);
+  const isTodayMet = isMet(day);
+  if (!isTodayMet) day.setDate(day.getDate() - 1);
+  let streakDays = 0;
+  while (isMet(day)) {
+    streakDays += 1;
+    day.setDate(day.getDate() - 1);
+  }
+  return { todayMs, isTodayMet, streakDays };
+}
@@ -0,0 +1,47 @@
+// Interface translations. Each locale lives in its own file under `locales/`
+// and must define every key in the English file; add new locales to LOCALES.
+// The active locale is module state so plain functions and callbacks can
+// translate without it being threaded through; App re-renders on change.
+import en from '../locales/en';
+import vi from '../locales/vi';
+
+export type MessageKey = keyof typeof en;
+export type LocaleMessages = Record<MessageKey, string>;
+
+export const LOCALES: Record<string, { name: string; messages: LocaleMessages }> = {
+  en: { name: 'English', messages: en },
+  vi: { name: 'Tiếng Việt', messages: vi },
+};
+
+export const DEFAULT_LOCALE = 'en';
+
+const LOCALE_KEY = 'uiLanguage';
+
+let currentLocale = DEFAULT_LOCALE;
+
+/** The saved interface language, or the browser's language if it is supported. */
+export function loadLocale(): string {
+  const saved = localStorage.getItem(LOCALE_KEY);
+  if (saved && LOCALES[saved]) return saved;
+  const browserLocale = navigator.language?.split('-')[0];
+  return browserLocale && LOCALES[browserLocale] ? browserLocale : DEFAULT_LOCALE;
+}
+
+export function saveLocale(locale: string): void {
+  localStorage.setItem(LOCALE_KEY, locale);
+}
+
+export function getLocale(): string {
+  return currentLocale;
+}
+
+export function setLocale(locale: string): void {
+  currentLocale = LOCALES[locale] ? locale : DEFAULT_LOCALE;
+  document.documentElement.lang = currentLocale;
+}
+
+/** Translates a key, filling `{name}` placeholders from `params`. */
+export function t(key: MessageKey, params: Record<string, string | number> = {}): string {
+  const template = LOCALES[currentLocale].messages[key] ?? en[key];
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => (name in params ? String(params[name]) : placeholder));
+}
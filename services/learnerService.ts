@@ -0,0 +1,117 @@
+import { Learner } from '../types';
+
+const LEARNERS_KEY = 'learners';
+const CURRENT_LEARNER_KEY = 'currentLearner';
+// Kept in sessionStorage so a PIN is asked for again once the browser is closed.
+const UNLOCKED_LEARNER_KEY = 'unlockedLearner';
+
+export const DEFAULT_LEARNER_ID = 'default';
+const DEFAULT_LEARNER_NAME = 'Learner';
+
+// Settings and progress that belong to one learner. The API key, voice
+// backend, microphone and interface language stay shared by the device.
+const LEARNER_SCOPED_KEYS = [
+  'reviewSchedules',
+  'customScenarios',
+  'sessionReports',
+  'drillAttempts',
+  'learnerProfile',
+  'learnerProfileEnabled',
+  'levelHistory',
+  'feedbackSettings',
+  'courseProgress',
+  'goalSettings',
+  'practiceLog',
+];
+
+let currentLearnerId: string | null = null;
+
+function scopedKey(learnerId: string, key: string): string {
+  return `learner:${learnerId}:${key}`;
+}
+
+// Before learners existed everything was stored under plain keys. The first
+// run after upgrading moves that data into a default learner.
+function migrateLegacyData(): Learner[] {
+  const learner: Learner = { id: DEFAULT_LEARNER_ID, name: DEFAULT_LEARNER_NAME, createdAt: new Date().toISOString() };
+  for (const key of LEARNER_SCOPED_KEYS) {
+    const value = localStorage.getItem(key);
+    if (value === null) continue;
+    localStorage.setItem(scopedKey(learner.id, key), value);
+    localStorage.removeItem(key);
+  }
+  saveLearners([learner]);
+  localStorage.setItem(CURRENT_LEARNER_KEY, learner.id);
+  return [learner];
+}
+
+export function loadLearners(): Learner[] {
+  try {
+    const saved = localStorage.getItem(LEARNERS_KEY);
+    const learners: Learner[] = saved ? JSON.parse(saved) : [];
+    if (learners.length > 0) return learners;
+  } catch (e) {
+    console.error("Failed to load learners:", e);
+  }
+  return migrateLegacyData();
+}
+
+export function saveLearners(learners: Learner[]): void {
+  try {
+    localStorage.setItem(LEARNERS_KEY, JSON.stringify(learners));
+  } catch (e) {
+    console.error("Failed to save learners:", e);
+  }
+}
+
+export function getCurrentLearnerId(): string {
+  if (currentLearnerId === null) {
+    const learners = loadLearners();
+    const saved = localStorage.getItem(CURRENT_LEARNER_KEY);
+    currentLearnerId = learners.some(learner => learner.id === saved) ? saved! : learners[0].id;
+  }
+  return currentLearnerId;
+}
+
+/** Makes another learner current. Data already loaded for the previous learner must be reloaded by the caller. */
+export function setCurrentLearnerId(learnerId: string): void {
+  currentLearnerId = learnerId;
+  localStorage.setItem(CURRENT_LEARNER_KEY, learnerId);
+}
+
+/** The localStorage key holding the current learner's copy of a setting. */
+export function learnerKey(key: string): string {
+  return scopedKey(getCurrentLearnerId(), key);
+}
+
+export function createLearner(fields: Omit<Learner, 'id' | 'createdAt'>): Learner {
+  return {
+    ...fields,
+    id: `learner-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/** Removes a learner's settings and progress. Their sessions and words live in the session store. */
+export function deleteLearnerSettings(learnerId: string): void {
+  LEARNER_SCOPED_KEYS.forEach(key => localStorage.removeItem(scopedKey(learnerId, key)));
+}
+
+// A PIN only keeps colleagues on a shared laptop out of each other's
+// sessions; it is not meant to resist someone with access to the browser.
+export async function hashPin(learnerId: string, pin: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${learnerId}:${pin}`));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export async function verifyPin(learner: Learner, pin: string): Promise<boolean> {
+  return !learner.pinHash || learner.pinHash === await hashPin(learner.id, pin);
+}
+
+export function isLearnerUnlocked(learner: Learner): boolean {
+  return !learner.pinHash || sessionStorage.getItem(UNLOCKED_LEARNER_KEY) === learner.id;
+}
+
+export function markLearnerUnlocked(learnerId: string): void {
+  sessionStorage.setItem(UNLOCKED_LEARNER_KEY, learnerId);
+}
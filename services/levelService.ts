@@ -0,0 +1,159 @@
+import { CefrLevel, ConversationSession, LevelAssessment, LevelAssessmentSource } from '../types';
+import { CEFR_LEVELS, LEVELS } from '../constants';
+import { getSessionCorrections } from './correctionService';
+import { getSessionTimestamp, lemmatize, tokenize } from './analyticsService';
+import { learnerKey } from './learnerService';
+
+const LEVEL_HISTORY_KEY = 'levelHistory';
+const MAX_STORED_ASSESSMENTS = 500;
+// Fewer words than this say too little about the learner to place them.
+const MIN_ASSESSMENT_WORDS = 30;
+// The share of distinct words falls as a text gets longer, so lexical range is
+// always measured over the same number of words.
+const LEXICAL_SAMPLE_WORDS = 100;
+const RECOMMENDATION_WINDOW = 5;
+const STEP_UP_CORRECTIONS_PER_100 = 3;
+const STEP_DOWN_CORRECTIONS_PER_100 = 10;
+
+/** How many answers the learner gives in the placement conversation before it ends. */
+export const PLACEMENT_TURNS = 6;
+export const PLACEMENT_TOPIC = 'Placement conversation';
+
+export interface TranscriptMeasures {
+  userWords: number;
+  wordsPerSentence: number;
+  correctionsPer100Words: number;
+  lexicalRange: number;
+}
+
+export interface LevelRecommendation {
+  /** The `LEVELS` entry to switch to. */
+  level: string;
+  direction: 'up' | 'down';
+  /** How many recent sessions at the current level the average covers. */
+  sessionCount: number;
+  /** The corrections-per-100-words average the sessions stayed below (up) or above (down). */
+  threshold: number;
+}
+
+export function loadLevelHistory(): LevelAssessment[] {
+  try {
+    const saved = localStorage.getItem(learnerKey(LEVEL_HISTORY_KEY));
+    return saved ? JSON.parse(saved) : [];
+  } catch (e) {
+    console.error("Failed to load level history:", e);
+    localStorage.removeItem(learnerKey(LEVEL_HISTORY_KEY));
+    return [];
+  }
+}
+
+export function saveLevelHistory(assessments: LevelAssessment[]): void {
+  try {
+    localStorage.setItem(learnerKey(LEVEL_HISTORY_KEY), JSON.stringify(assessments.slice(-MAX_STORED_ASSESSMENTS)));
+  } catch (e) {
+    console.error("Failed to save level history:", e);
+  }
+}
+
+/** The CEFR levels covered by a `LEVELS` entry, e.g. A1 and A2 for "Beginner (A1-A2)". */
+export function getSelectedCefrLevels(level: string): CefrLevel[] {
+  const codes = (level.match(/\b[ABC][12]\b/g) ?? []) as CefrLevel[];
+  if (codes.length === 2) {
+    return CEFR_LEVELS.slice(CEFR_LEVELS.indexOf(codes[0]), CEFR_LEVELS.indexOf(codes[1]) + 1);
+  }
+  return codes;
+}
+
+/** How the estimated level compares to the level the learner practised at. */
+export function compareToSelectedLevel(estimated: CefrLevel, level: string): 'below' | 'matches' | 'above' {
+  const selected = getSelectedCefrLevels(level).map(code => CEFR_LEVELS.indexOf(code));
+  if (selected.length === 0) return 'matches';
+  const rank = CEFR_LEVELS.indexOf(estimated);
+  if (rank < Math.min(...selected)) return 'below';
+  if (rank > Math.max(...selected)) return 'above';
+  return 'matches';
+}
+
+/** The `LEVELS` entry that covers a CEFR level. */
+export function getLevelOption(cefr: CefrLevel): string {
+  return LEVELS.find(level => getSelectedCefrLevels(level).includes(cefr)) ?? LEVELS[0];
+}
+
+/** Short name of a `LEVELS` entry, e.g. "A1-A2" or "B2". */
+export function getLevelCode(level: string): string {
+  return getSelectedCefrLevels(level).join('-') || level.split(':')[0];
+}
+
+export function measureSession(session: ConversationSession): TranscriptMeasures {
+  const userTexts = session.messages.filter(msg => msg.role === 'user').map(msg => msg.content);
+  const words = userTexts.flatMap(tokenize);
+  const sentences = userTexts
+    .flatMap(text => text.split(/[.!?]+/))
+    .filter(sentence => tokenize(sentence).length > 0);
+  const sample = words.slice(0, LEXICAL_SAMPLE_WORDS);
+
+  return {
+    userWords: words.length,
+    wordsPerSentence: sentences.length > 0 ? words.length / sentences.length : 0,
+    correctionsPer100Words: words.length > 0 ? getSessionCorrections(session).length / words.length * 100 : 0,
+    lexicalRange: sample.length > 0 ? new Set(sample.map(lemmatize)).size / sample.length * 100 : 0,
+  };
+}
+
+/**
+ * A rough CEFR estimate from sentence length, accuracy and lexical range. Each
+ * is ranked against a threshold per level above A1 and the ranks are averaged.
+ */
+export function estimateCefrLevel(measures: TranscriptMeasures): CefrLevel {
+  const rankAbove = (value: number, thresholds: number[]) => thresholds.filter(threshold => value >= threshold).length;
+  const ranks = [
+    rankAbove(measures.wordsPerSentence, [5, 8, 11, 14, 18]),
+    [12, 8, 5, 3, 1.5].filter(threshold => measures.correctionsPer100Words <= threshold).length,
+  ];
+  // Very short samples always look lexically rich.
+  if (measures.userWords >= LEXICAL_SAMPLE_WORDS / 2) {
+    ranks.push(rankAbove(measures.lexicalRange, [45, 52, 58, 64, 70]));
+  }
+  const rank = Math.round(ranks.reduce((sum, r) => sum + r, 0) / ranks.length);
+  return CEFR_LEVELS[Math.max(0, Math.min(CEFR_LEVELS.length - 1, rank))];
+}
+
+/** Places a saved session on the level history, or returns null if the learner said too little. */
+export function assessSession(session: ConversationSession, source: LevelAssessmentSource): LevelAssessment | null {
+  const measures = measureSession(session);
+  if (measures.userWords < MIN_ASSESSMENT_WORDS) return null;
+  return {
+    level: estimateCefrLevel(measures),
+    source,
+    assessedAt: new Date().toISOString(),
+    sessionId: session.id,
+    wordsPerSentence: measures.wordsPerSentence,
+    correctionsPer100Words: measures.correctionsPer100Words,
+    lexicalRange: measures.lexicalRange,
+  };
+}
+
+/**
+ * Suggests moving up or down a level once the learner's last few sessions at
+ * their current level are consistently very accurate or very error-prone.
+ */
+export function recommendLevel(history: ConversationSession[], level: string): LevelRecommendation | null {
+  const recent = history
+    .filter(session => session.level === level && session.topic !== PLACEMENT_TOPIC)
+    .sort((a, b) => getSessionTimestamp(b) - getSessionTimestamp(a))
+    .slice(0, RECOMMENDATION_WINDOW)
+    .map(measureSession)
+    .filter(measures => measures.userWords > 0);
+  if (recent.length < RECOMMENDATION_WINDOW) return null;
+
+  const average = recent.reduce((sum, measures) => sum + measures.correctionsPer100Words, 0) / recent.length;
+  const index = LEVELS.indexOf(level);
+
+  if (average < STEP_UP_CORRECTIONS_PER_100 && index >= 0 && index < LEVELS.length - 1) {
+    return { level: LEVELS[index + 1], direction: 'up', sessionCount: recent.length, threshold: STEP_UP_CORRECTIONS_PER_100 };
+  }
+  if (average > STEP_DOWN_CORRECTIONS_PER_100 && index > 0) {
+    return { level: LEVELS[index - 1], direction: 'down', sessionCount: recent.length, threshold: STEP_DOWN_CORRECTIONS_PER_100 };
+  }
+  return null;
+}
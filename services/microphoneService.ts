@@ -0,0 +1,153 @@
+// Microphone capture for the live session. Audio is collected on the audio
+// thread by an AudioWorklet and handed to the app in fixed-size frames, each
+// with its RMS level for the input meter and voice activity detection.
+
+export type InputMode = 'always-on' | 'push-to-talk' | 'vad';
+
+/** Every input mode, in menu order. Their labels are `inputMode.*` locale keys. */
+export const INPUT_MODES = ['always-on', 'push-to-talk', 'vad'] as const satisfies readonly InputMode[];
+
+export interface InputSettings {
+  mode: InputMode;
+  /** RMS level (0..1) above which voice-activated mode starts sending. */
+  vadThreshold: number;
+  /** Empty for the browser's default microphone. */
+  deviceId: string;
+}
+
+export const DEFAULT_INPUT_SETTINGS: InputSettings = {
+  mode: 'always-on',
+  vadThreshold: 0.03,
+  deviceId: '',
+};
+
+const INPUT_SETTINGS_KEY = 'inputSettings';
+const CAPTURE_FRAME_SIZE = 2048;
+const WORKLET_NAME = 'microphone-capture';
+// Keep sending for a moment after the level drops so word endings and short
+// pauses between words are not cut off.
+export const VAD_HANGOVER_MS = 600;
+
+// Worklets run in their own global scope and must be loaded from a URL, so the
+// processor is shipped as source text and loaded through a Blob URL.
+const WORKLET_SOURCE = `
+class MicrophoneCaptureProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.frame = new Float32Array(${CAPTURE_FRAME_SIZE});
+    this.length = 0;
+  }
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+    let offset = 0;
+    while (offset < channel.length) {
+      const count = Math.min(channel.length - offset, this.frame.length - this.length);
+      this.frame.set(channel.subarray(offset, offset + count), this.length);
+      this.length += count;
+      offset += count;
+      if (this.length === this.frame.length) {
+        this.port.postMessage(this.frame, [this.frame.buffer]);
+        this.frame = new Float32Array(${CAPTURE_FRAME_SIZE});
+        this.length = 0;
+      }
+    }
+    return true;
+  }
+}
+registerProcessor('${WORKLET_NAME}', MicrophoneCaptureProcessor);
+`;
+
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+export function loadInputSettings(): InputSettings {
+  try {
+    const saved = localStorage.getItem(INPUT_SETTINGS_KEY);
+    return saved ? { ...DEFAULT_INPUT_SETTINGS, ...JSON.parse(saved) } : DEFAULT_INPUT_SETTINGS;
+  } catch (e) {
+    console.error("Failed to load input settings:", e);
+    localStorage.removeItem(INPUT_SETTINGS_KEY);
+    return DEFAULT_INPUT_SETTINGS;
+  }
+}
+
+export function saveInputSettings(settings: InputSettings): void {
+  try {
+    localStorage.setItem(INPUT_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error("Failed to save input settings:", e);
+  }
+}
+
+export function computeRms(samples: Float32Array): number {
+  let sumSquares = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sumSquares += samples[i] * samples[i];
+  }
+  return samples.length > 0 ? Math.sqrt(sumSquares / samples.length) : 0;
+}
+
+/** Audio input devices. Labels are empty until microphone permission has been granted. */
+export async function listMicrophones(): Promise<MediaDeviceInfo[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(device => device.kind === 'audioinput');
+}
+
+export function openMicrophone(deviceId: string): Promise<MediaStream> {
+  return navigator.mediaDevices.getUserMedia({ audio: deviceId ? { deviceId: { exact: deviceId } } : true });
+}
+
+export interface MicrophoneCapture {
+  stop(): void;
+}
+
+/**
+ * Starts delivering microphone frames. Falls back to the deprecated
+ * ScriptProcessorNode in browsers without AudioWorklet support.
+ */
+export async function startMicrophoneCapture(
+  context: AudioContext,
+  stream: MediaStream,
+  onFrame: (samples: Float32Array, level: number) => void,
+): Promise<MicrophoneCapture> {
+  const source = context.createMediaStreamSource(stream);
+
+  if (context.audioWorklet) {
+    if (!loadedContexts.has(context)) {
+      const url = URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: 'application/javascript' }));
+      try {
+        await context.audioWorklet.addModule(url);
+      } finally {
+        URL.revokeObjectURL(url);
+      }
+      loadedContexts.add(context);
+    }
+    const node = new AudioWorkletNode(context, WORKLET_NAME, { numberOfInputs: 1, numberOfOutputs: 0 });
+    node.port.onmessage = (event: MessageEvent<Float32Array>) => onFrame(event.data, computeRms(event.data));
+    source.connect(node);
+    return {
+      stop: () => {
+        node.port.onmessage = null;
+        source.disconnect();
+        node.disconnect();
+      },
+    };
+  }
+
+  const scriptProcessor = context.createScriptProcessor(CAPTURE_FRAME_SIZE, 1, 1);
+  scriptProcessor.onaudioprocess = (audioProcessingEvent) => {
+    // The buffer is reused by the audio thread, so hand out a copy.
+    const samples = new Float32Array(audioProcessingEvent.inputBuffer.getChannelData(0));
+    onFrame(samples, computeRms(samples));
+  };
+  source.connect(scriptProcessor);
+  scriptProcessor.connect(context.destination);
+  return {
+    stop: () => {
+      scriptProcessor.onaudioprocess = null;
+      source.disconnect();
+      scriptProcessor.disconnect();
+    },
+  };
+}
@@ -0,0 +1,156 @@
+import { ConversationBackend, BackendEvent } from './conversationBackend';
+
+// Offline stand-in for a realtime provider. It replays a canned conversation
+// with synthesized PCM "speech" so the whole UI can be exercised without a
+// network connection or API quota.
+
+const MOCK_OUTPUT_SAMPLE_RATE = 24000;
+const CHUNK_INTERVAL_MS = 120;
+const MS_PER_WORD = 320;
+const VOICE_THRESHOLD = 0.02;
+const END_OF_SPEECH_SILENCE_MS = 1200;
+const IDLE_REPLY_MS = 8000;
+
+export interface MockTurn {
+  /** What the learner is pretended to have said. Omitted for the greeting. */
+  user?: string;
+  coach: string;
+}
+
+export const DEFAULT_MOCK_SCRIPT: MockTurn[] = [
+  {
+    coach: "Hi there! I'm your practice coach. This is the offline demo, so I'll follow a script. What do you like to do in your free time?",
+  },
+  {
+    user: 'I enjoy on my free time watching movies.',
+    coach: "Great effort! You said: 'I enjoy on my free time watching movies.' The phrase 'on my free time' uses the wrong preposition. In English, we use the preposition 'in' for periods of time. The word order is also a little unnatural. A more natural and perfect way to say this would be: 'In my free time, I enjoy watching movies.' Does that make sense? What kind of movies do you like?",
+  },
+  {
+    user: 'I like action movies because they are exciting.',
+    coach: "That's a perfect sentence, well done! Action movies are a lot of fun. Who is your favorite action movie star?",
+  },
+  {
+    user: 'My favorite is Jackie Chan, he make me laugh.',
+    coach: "Nice choice! You said: 'he make me laugh.' With 'he', the verb needs an 's' because of subject-verb agreement in the third person. A more natural and perfect way to say this would be: 'My favorite is Jackie Chan. He makes me laugh.' Does that make sense? Which of his movies have you seen?",
+  },
+  {
+    user: 'I have seen Rush Hour two times.',
+    coach: "Very good! You could also say 'twice' instead of 'two times'. That's the end of the demo script. Thanks for practicing with me!",
+  },
+];
+
+function splitIntoChunks(text: string): string[] {
+  return text.match(/\S+\s*/g) ?? [];
+}
+
+/** A soft, wobbling tone standing in for speech, long enough to match the text. */
+function synthesizeSpeech(text: string): Uint8Array {
+  const durationSeconds = Math.max(0.5, splitIntoChunks(text).length * MS_PER_WORD / 1000);
+  const frameCount = Math.floor(durationSeconds * MOCK_OUTPUT_SAMPLE_RATE);
+  const samples = new Int16Array(frameCount);
+  for (let i = 0; i < frameCount; i++) {
+    const t = i / MOCK_OUTPUT_SAMPLE_RATE;
+    const envelope = 0.5 + 0.5 * Math.sin(2 * Math.PI * 3 * t);
+    samples[i] = Math.round(Math.sin(2 * Math.PI * (180 + 40 * Math.sin(2 * Math.PI * 0.7 * t)) * t) * envelope * 2500);
+  }
+  return new Uint8Array(samples.buffer);
+}
+
+export function createMockBackend(script: MockTurn[] = DEFAULT_MOCK_SCRIPT): ConversationBackend {
+  return {
+    id: 'mock',
+    requiresApiKey: false,
+    connect: async (_options, onEvent) => {
+      let turnIndex = 0;
+      let isClosed = false;
+      let isCoachSpeaking = false;
+      let heardVoice = false;
+      let lastVoiceAt = 0;
+      let idleSince = Date.now();
+      const timers = new Set<ReturnType<typeof setTimeout>>();
+
+      const schedule = (fn: () => void, delay: number) => {
+        const timer = setTimeout(() => {
+          timers.delete(timer);
+          if (!isClosed) fn();
+        }, delay);
+        timers.add(timer);
+      };
+
+      const emit = (event: BackendEvent) => {
+        if (!isClosed) onEvent(event);
+      };
+
+      const playTurn = (turn: MockTurn) => {
+        isCoachSpeaking = true;
+        const userChunks = turn.user ? splitIntoChunks(turn.user) : [];
+        const coachChunks = splitIntoChunks(turn.coach);
+        let delay = 0;
+        for (const chunk of userChunks) {
+          schedule(() => emit({ type: 'inputTranscript', text: chunk }), delay);
+          delay += CHUNK_INTERVAL_MS;
+        }
+        schedule(() => emit({ type: 'audio', pcm: synthesizeSpeech(turn.coach), sampleRate: MOCK_OUTPUT_SAMPLE_RATE }), delay);
+        for (const chunk of coachChunks) {
+          schedule(() => emit({ type: 'outputTranscript', text: chunk }), delay);
+          delay += CHUNK_INTERVAL_MS;
+        }
+        schedule(() => {
+          emit({ type: 'turnComplete' });
+          isCoachSpeaking = false;
+          heardVoice = false;
+          idleSince = Date.now();
+        }, delay);
+      };
+
+      const playNextTurn = () => {
+        const turn = script[turnIndex];
+        if (!turn) return;
+        turnIndex += 1;
+        playTurn(turn);
+      };
+
+      schedule(() => {
+        emit({ type: 'open' });
+        playNextTurn();
+      }, 300);
+
+      return {
+        // The mock has no speech recognition: it only watches the microphone
+        // level to decide when the learner has finished a turn, and falls
+        // back to replying after a pause so the script advances hands-free.
+        sendAudio: (samples) => {
+          if (isClosed || isCoachSpeaking || turnIndex >= script.length) return;
+          let sumSquares = 0;
+          for (let i = 0; i < samples.length; i++) sumSquares += samples[i] * samples[i];
+          const now = Date.now();
+          if (Math.sqrt(sumSquares / samples.length) > VOICE_THRESHOLD) {
+            heardVoice = true;
+            lastVoiceAt = now;
+          }
+          const finishedSpeaking = heardVoice && now - lastVoiceAt > END_OF_SPEECH_SILENCE_MS;
+          if (finishedSpeaking || now - idleSince > IDLE_REPLY_MS) {
+            playNextTurn();
+          }
+        },
+        // Typed turns are already in the transcript, so only the coach's
+        // scripted reply is played.
+        sendText: () => {
+          if (isClosed || isCoachSpeaking) return;
+          const turn = script[turnIndex];
+          if (!turn) return;
+          turnIndex += 1;
+          playTurn({ coach: turn.coach });
+        },
+        close: () => {
+          if (isClosed) return;
+          isClosed = true;
+          timers.forEach(clearTimeout);
+          timers.clear();
+          onEvent({ type: 'close', kind: 'transient', reason: 'Closed by client' });
+        },
+      };
+    },
+    classifyError: () => 'transient',
+  };
+}
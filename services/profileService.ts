@@ -0,0 +1,94 @@
+import { ConversationSession, CorrectionCategory, LearnerProfile, SavedWord } from '../types';
+import { CORRECTION_CATEGORY_LABELS } from '../constants';
+import { getSessionCorrections } from './correctionService';
+import { getSessionTimestamp } from './analyticsService';
+import { computeWordUsage } from './vocabularyService';
+import { learnerKey } from './learnerService';
+
+const LEARNER_PROFILE_KEY = 'learnerProfile';
+// Older habits the learner has since fixed should not keep steering the coach.
+const PROFILE_SESSION_WINDOW = 10;
+const MAX_FOCUS_AREAS = 3;
+const MIN_FOCUS_AREA_CORRECTIONS = 2;
+const MAX_STUDY_WORDS = 8;
+
+export function createEmptyProfile(): LearnerProfile {
+  return { focusAreas: [], studyWords: [], goals: [] };
+}
+
+/** The learner's hand-edited profile, or null if they have not edited one. */
+export function loadLearnerProfile(): LearnerProfile | null {
+  try {
+    const saved = localStorage.getItem(learnerKey(LEARNER_PROFILE_KEY));
+    return saved ? { ...createEmptyProfile(), ...JSON.parse(saved) } : null;
+  } catch (e) {
+    console.error("Failed to load learner profile:", e);
+    localStorage.removeItem(learnerKey(LEARNER_PROFILE_KEY));
+    return null;
+  }
+}
+
+export function saveLearnerProfile(profile: LearnerProfile | null): void {
+  try {
+    if (profile) {
+      localStorage.setItem(learnerKey(LEARNER_PROFILE_KEY), JSON.stringify(profile));
+    } else {
+      localStorage.removeItem(learnerKey(LEARNER_PROFILE_KEY));
+    }
+  } catch (e) {
+    console.error("Failed to save learner profile:", e);
+  }
+}
+
+export function isProfileEmpty(profile: LearnerProfile): boolean {
+  return profile.focusAreas.length === 0 && profile.studyWords.length === 0 && profile.goals.length === 0;
+}
+
+/**
+ * Builds a profile from the learner's recent sessions: the mistake categories
+ * the coach corrected most, the saved words they have used correctly least
+ * often, and the goals from their latest report card.
+ */
+export function buildLearnerProfile(history: ConversationSession[], savedWords: SavedWord[]): LearnerProfile {
+  const recent = [...history]
+    .sort((a, b) => getSessionTimestamp(b) - getSessionTimestamp(a))
+    .slice(0, PROFILE_SESSION_WINDOW);
+
+  // Sessions are newest first, so the first example kept is the most recent.
+  const byCategory = new Map<CorrectionCategory, { count: number; example: string }>();
+  for (const session of recent) {
+    for (const correction of getSessionCorrections(session)) {
+      const area = byCategory.get(correction.category) ?? { count: 0, example: correction.corrected };
+      area.count += 1;
+      byCategory.set(correction.category, area);
+    }
+  }
+  const focusAreas = Array.from(byCategory)
+    .filter(([, area]) => area.count >= MIN_FOCUS_AREA_CORRECTIONS)
+    .sort(([, a], [, b]) => b.count - a.count)
+    .slice(0, MAX_FOCUS_AREAS)
+    .map(([category, area]) => `${CORRECTION_CATEGORY_LABELS[category]} (${area.count} corrections), e.g. "${area.example}"`);
+
+  const studyWords = savedWords
+    .map(word => ({ word: word.word, addedAt: word.addedAt, correct: computeWordUsage(word, history).correct }))
+    .sort((a, b) => a.correct - b.correct || b.addedAt.localeCompare(a.addedAt))
+    .slice(0, MAX_STUDY_WORDS)
+    .map(word => word.word);
+
+  const goals = recent.find(session => session.report)?.report?.goals ?? [];
+
+  return { focusAreas, studyWords, goals: [...goals] };
+}
+
+function bulletList(items: string[]): string {
+  return items.map(item => `    - ${item}`).join('\n');
+}
+
+/** The profile as it is sent to the coach, or an empty string if there is nothing to send. */
+export function buildProfileInstructions(profile: LearnerProfile): string {
+  const lines: string[] = [];
+  if (profile.focusAreas.length > 0) lines.push(`- Recurring mistakes to practise:\n${bulletList(profile.focusAreas)}`);
+  if (profile.studyWords.length > 0) lines.push(`- Study words to reuse: ${profile.studyWords.join(', ')}`);
+  if (profile.goals.length > 0) lines.push(`- The user's goals from earlier sessions:\n${bulletList(profile.goals)}`);
+  return lines.join('\n');
+}
@@ -0,0 +1,206 @@
+import { Type } from "@google/genai";
+import { ConversationSession, CorrectionCategory, RecurringMistake, SessionReport } from '../types';
+import { CEFR_LEVELS, CORRECTION_CATEGORY_LABELS } from '../constants';
+import { getSessionCorrections } from './correctionService';
+import { computeSessionMetrics, lemmatize, tokenize } from './analyticsService';
+import { estimateCefrLevel, measureSession } from './levelService';
+import { initializeAi } from './geminiService';
+
+const REPORT_MODEL = 'gemini-2.5-flash';
+const MAX_RECURRING_MISTAKES = 3;
+const MAX_NEW_VOCABULARY = 10;
+const MAX_SUGGESTED_PHRASES = 5;
+// Short words are almost always function words, which are not worth
+// celebrating as "new vocabulary".
+const MIN_VOCABULARY_WORD_LENGTH = 5;
+
+const CATEGORY_GOALS: Record<CorrectionCategory, string> = {
+  'preposition': 'Collect five time and place expressions with their prepositions (in the morning, at night, on Monday) and use three of them next session.',
+  'tense': 'Tell a short story about last weekend and keep every verb in the past tense.',
+  'word-order': 'Before answering, start your sentence with the subject and verb, then add time and place at the end.',
+  'article': "Check every singular noun for 'a', 'an' or 'the' before you say it.",
+  'agreement': "Listen for he, she and it in your answers and remember the -s in the present simple ('she works').",
+  'word-choice': 'Learn the suggested phrases from this report and use two of them next time.',
+  'pronunciation': 'Replay your recordings of the corrected words and repeat each one slowly three times.',
+  'other': 'Go through this session\'s corrections in the review deck before your next session.',
+};
+
+export class ReportGenerationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReportGenerationError';
+  }
+}
+
+function getLearnerLemmas(session: ConversationSession): Set<string> {
+  return new Set(session.messages
+    .filter(msg => msg.role === 'user')
+    .flatMap(msg => tokenize(msg.content))
+    .filter(word => word.length >= MIN_VOCABULARY_WORD_LENGTH)
+    .map(lemmatize));
+}
+
+/** Words the learner used in this session but in none of their earlier sessions. */
+export function findNewVocabulary(session: ConversationSession, previousSessions: ConversationSession[]): string[] {
+  const known = new Set<string>();
+  for (const previous of previousSessions) {
+    getLearnerLemmas(previous).forEach(lemma => known.add(lemma));
+  }
+  return Array.from(getLearnerLemmas(session)).filter(lemma => !known.has(lemma)).slice(0, MAX_NEW_VOCABULARY);
+}
+
+function findRecurringMistakes(session: ConversationSession): RecurringMistake[] {
+  const byCategory = new Map<CorrectionCategory, RecurringMistake>();
+  for (const correction of getSessionCorrections(session)) {
+    const mistake = byCategory.get(correction.category) ?? { category: correction.category, count: 0, example: correction.corrected };
+    mistake.count += 1;
+    byCategory.set(correction.category, mistake);
+  }
+  return Array.from(byCategory.values())
+    .sort((a, b) => b.count - a.count)
+    .slice(0, MAX_RECURRING_MISTAKES);
+}
+
+/** Builds a report card from the transcript alone, for the offline demo or when the model is unavailable. */
+export function buildOfflineReport(session: ConversationSession, previousSessions: ConversationSession[]): SessionReport {
+  const metrics = computeSessionMetrics(session);
+  const corrections = getSessionCorrections(session);
+  const recurringMistakes = findRecurringMistakes(session);
+  const newVocabulary = findNewVocabulary(session, previousSessions);
+
+  const suggestedPhrases = Array.from(new Set(corrections.map(c => c.corrected)));
+  if (session.scenario) {
+    const usedWords = session.messages.filter(msg => msg.role === 'user').map(msg => msg.content.toLowerCase()).join(' ');
+    suggestedPhrases.push(...session.scenario.targetVocabulary.filter(item => !usedWords.includes(item.toLowerCase())));
+  }
+
+  const goals = recurringMistakes.slice(0, 2).map(mistake => CATEGORY_GOALS[mistake.category]);
+  if (metrics.wordsPerTurn < 10) {
+    goals.push('Give longer answers: add a reason or an example to each reply ("because...", "for example...").');
+  }
+  if (goals.length < 3 && newVocabulary.length > 0) {
+    goals.push(`Reuse three of today's new words next time, such as "${newVocabulary.slice(0, 3).join('", "')}".`);
+  }
+  if (goals.length < 2) {
+    goals.push('Ask the coach at least two questions of your own to keep the conversation going.');
+  }
+
+  const mistakeSummary = recurringMistakes.length > 0
+    ? ` The coach corrected ${corrections.length} sentence${corrections.length === 1 ? '' : 's'}, mostly ${CORRECTION_CATEGORY_LABELS[recurringMistakes[0].category].toLowerCase()}.`
+    : ' The coach did not need to correct any of your sentences.';
+
+  return {
+    generatedAt: new Date().toISOString(),
+    source: 'offline',
+    summary: `You talked about ${session.topic} in ${metrics.userTurns} turn${metrics.userTurns === 1 ? '' : 's'}, about ${metrics.userWords} words in total.${mistakeSummary}`,
+    recurringMistakes,
+    newVocabulary,
+    suggestedPhrases: suggestedPhrases.slice(0, MAX_SUGGESTED_PHRASES),
+    estimatedLevel: estimateCefrLevel(measureSession(session)),
+    goals: goals.slice(0, 3),
+  };
+}
+
+const REPORT_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING },
+    recurringMistakes: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          category: { type: Type.STRING, enum: Object.keys(CORRECTION_CATEGORY_LABELS) },
+          count: { type: Type.INTEGER },
+          example: { type: Type.STRING },
+        },
+        required: ['category', 'count'],
+      },
+    },
+    suggestedPhrases: { type: Type.ARRAY, items: { type: Type.STRING } },
+    estimatedLevel: { type: Type.STRING, enum: CEFR_LEVELS },
+    goals: { type: Type.ARRAY, items: { type: Type.STRING } },
+  },
+  required: ['summary', 'recurringMistakes', 'suggestedPhrases', 'estimatedLevel', 'goals'],
+};
+
+function buildReportPrompt(session: ConversationSession): string {
+  const transcript = session.messages.map(msg => `${msg.role === 'user' ? 'Learner' : 'Coach'}: ${msg.content}`).join('\n');
+  return `You are an experienced English teacher writing a short report card for a learner after a speaking practice session.
+
+- Selected level: ${session.level}
+- Topic: ${session.topic}
+
+Transcript:
+${transcript}
+
+Write the report to the learner ("you"), in simple English suitable for their level:
+- summary: two or three sentences on what was discussed and how it went.
+- recurringMistakes: up to ${MAX_RECURRING_MISTAKES} mistake types the learner made more than once or that matter most, each with how often it happened and one corrected example sentence.
+- suggestedPhrases: up to ${MAX_SUGGESTED_PHRASES} natural phrases that would have helped in this conversation.
+- estimatedLevel: the CEFR level the learner actually demonstrated, judged only from their own turns.
+- goals: two or three concrete, achievable goals for the next session.`;
+}
+
+function readStrings(value: unknown, limit: number): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '').slice(0, limit) : [];
+}
+
+async function generateCoachReport(apiKey: string, session: ConversationSession, previousSessions: ConversationSession[]): Promise<SessionReport> {
+  const ai = initializeAi(apiKey);
+  const response = await ai.models.generateContent({
+    model: REPORT_MODEL,
+    contents: buildReportPrompt(session),
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: REPORT_SCHEMA,
+    },
+  });
+
+  let raw: any;
+  try {
+    raw = JSON.parse(response.text ?? '');
+  } catch {
+    throw new ReportGenerationError('The coach returned a report that is not valid JSON.');
+  }
+  if (typeof raw?.summary !== 'string' || !CEFR_LEVELS.includes(raw.estimatedLevel)) {
+    throw new ReportGenerationError('The coach returned an incomplete report.');
+  }
+
+  const categories = Object.keys(CORRECTION_CATEGORY_LABELS);
+  const recurringMistakes: RecurringMistake[] = (Array.isArray(raw.recurringMistakes) ? raw.recurringMistakes : [])
+    .filter((mistake: any) => categories.includes(mistake?.category) && typeof mistake.count === 'number')
+    .slice(0, MAX_RECURRING_MISTAKES)
+    .map((mistake: any) => ({
+      category: mistake.category,
+      count: mistake.count,
+      ...(typeof mistake.example === 'string' && mistake.example ? { example: mistake.example } : {}),
+    }));
+
+  return {
+    generatedAt: new Date().toISOString(),
+    source: 'coach',
+    summary: raw.summary.trim(),
+    recurringMistakes,
+    // Only the app knows what the learner said in earlier sessions.
+    newVocabulary: findNewVocabulary(session, previousSessions),
+    suggestedPhrases: readStrings(raw.suggestedPhrases, MAX_SUGGESTED_PHRASES),
+    estimatedLevel: raw.estimatedLevel,
+    goals: readStrings(raw.goals, 3),
+  };
+}
+
+/**
+ * Writes the report card for a saved session. With an API key the coach model
+ * writes it; without one, or if that fails, it falls back to the offline report.
+ */
+export async function generateSessionReport(session: ConversationSession, previousSessions: ConversationSession[], apiKey?: string): Promise<SessionReport> {
+  if (apiKey) {
+    try {
+      return await generateCoachReport(apiKey, session, previousSessions);
+    } catch (e) {
+      console.error('Failed to generate the coach report, using the offline report instead:', e);
+    }
+  }
+  return buildOfflineReport(session, previousSessions);
+}
@@ -0,0 +1,104 @@
+import { ConversationSession, ReviewCard, ReviewGrade, ReviewSchedule } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASE_FACTOR = 1.3;
+const INITIAL_EASE_FACTOR = 2.5;
+
+// SM-2 rates recall on a 0-5 scale; the review panel exposes four buttons.
+const GRADE_QUALITY: Record<ReviewGrade, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5,
+};
+
+export function createInitialSchedule(now: Date = new Date()): ReviewSchedule {
+  return {
+    easeFactor: INITIAL_EASE_FACTOR,
+    intervalDays: 0,
+    repetitions: 0,
+    dueDate: now.toISOString(),
+  };
+}
+
+/**
+ * Applies one SM-2 review step. A failed recall resets the repetition count
+ * and brings the card back tomorrow; successful recalls grow the interval
+ * (1 day, 6 days, then interval * ease factor).
+ */
+export function scheduleReview(schedule: ReviewSchedule, grade: ReviewGrade, now: Date = new Date()): ReviewSchedule {
+  const quality = GRADE_QUALITY[grade];
+  let { repetitions, intervalDays } = schedule;
+
+  if (quality < 3) {
+    repetitions = 0;
+    intervalDays = 1;
+  } else {
+    if (repetitions === 0) {
+      intervalDays = 1;
+    } else if (repetitions === 1) {
+      intervalDays = 6;
+    } else {
+      intervalDays = Math.round(intervalDays * schedule.easeFactor);
+    }
+    repetitions += 1;
+  }
+
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    schedule.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  return {
+    easeFactor,
+    intervalDays,
+    repetitions,
+    dueDate: new Date(now.getTime() + intervalDays * DAY_MS).toISOString(),
+    lastReviewed: now.toISOString(),
+  };
+}
+
+export function getCardId(sessionId: number, messageIndex: number, correctionIndex: number): string {
+  return `${sessionId}-${messageIndex}-${correctionIndex}`;
+}
+
+/**
+ * Turns every correction in the saved history into a flashcard, pairing it
+ * with its stored schedule. Corrections that have never been reviewed are due
+ * immediately.
+ */
+export function buildReviewCards(
+  history: ConversationSession[],
+  schedules: Record<string, ReviewSchedule>,
+  now: Date = new Date()
+): ReviewCard[] {
+  const cards: ReviewCard[] = [];
+  for (const session of history) {
+    session.messages.forEach((msg, messageIndex) => {
+      msg.corrections?.forEach((correction, correctionIndex) => {
+        const id = getCardId(session.id, messageIndex, correctionIndex);
+        cards.push({
+          id,
+          sessionId: session.id,
+          correction,
+          schedule: schedules[id] ?? createInitialSchedule(now),
+        });
+      });
+    });
+  }
+  return cards;
+}
+
+export function getDueCards(cards: ReviewCard[], now: Date = new Date()): ReviewCard[] {
+  return cards
+    .filter(card => new Date(card.schedule.dueDate).getTime() <= now.getTime())
+    .sort((a, b) => a.schedule.dueDate.localeCompare(b.schedule.dueDate));
+}
+
+export function getNextDueDate(cards: ReviewCard[]): string | null {
+  if (cards.length === 0) return null;
+  return cards.reduce((earliest, card) =>
+    card.schedule.dueDate < earliest ? card.schedule.dueDate : earliest,
+    cards[0].schedule.dueDate
+  );
+}
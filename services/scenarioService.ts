@@ -0,0 +1,109 @@
+import { Scenario } from '../types';
+import { learnerKey } from './learnerService';
+
+const SCENARIOS_KEY = 'customScenarios';
+const SCENARIO_FORMAT = 'english-conversation-coach/scenario';
+
+export class ScenarioImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScenarioImportError';
+  }
+}
+
+export function createEmptyScenario(): Scenario {
+  return {
+    id: `scenario-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    title: '',
+    coachRole: '',
+    learnerRole: '',
+    setting: '',
+    goals: [],
+    targetVocabulary: [],
+    successCriteria: [],
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+export function loadScenarios(): Scenario[] {
+  try {
+    const saved = localStorage.getItem(learnerKey(SCENARIOS_KEY));
+    return saved ? JSON.parse(saved) : [];
+  } catch (e) {
+    console.error("Failed to load custom scenarios:", e);
+    localStorage.removeItem(learnerKey(SCENARIOS_KEY));
+    return [];
+  }
+}
+
+export function saveScenarios(scenarios: Scenario[]): void {
+  try {
+    localStorage.setItem(learnerKey(SCENARIOS_KEY), JSON.stringify(scenarios));
+  } catch (e) {
+    console.error("Failed to save custom scenarios:", e);
+  }
+}
+
+export function exportScenarioJson(scenario: Scenario): string {
+  return JSON.stringify({ format: SCENARIO_FORMAT, scenario }, null, 2);
+}
+
+function readStringList(value: unknown, field: string): string[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+    throw new ScenarioImportError(`"${field}" must be a list of text entries.`);
+  }
+  return value.map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Parses a shared scenario. The imported copy always gets a new id so it
+ * never replaces one of the learner's own scenarios.
+ */
+export function parseScenarioJson(text: string): Scenario {
+  let payload: any;
+  try {
+    payload = JSON.parse(text);
+  } catch {
+    throw new ScenarioImportError('The text is not valid JSON.');
+  }
+  const raw = payload?.format === SCENARIO_FORMAT ? payload.scenario : payload;
+  if (!raw || typeof raw !== 'object') {
+    throw new ScenarioImportError('No scenario found.');
+  }
+  if (typeof raw.title !== 'string' || !raw.title.trim()) {
+    throw new ScenarioImportError('A scenario needs a title.');
+  }
+  for (const field of ['coachRole', 'learnerRole', 'setting']) {
+    if (raw[field] !== undefined && typeof raw[field] !== 'string') {
+      throw new ScenarioImportError(`"${field}" must be text.`);
+    }
+  }
+
+  return {
+    ...createEmptyScenario(),
+    title: raw.title.trim(),
+    coachRole: raw.coachRole?.trim() ?? '',
+    learnerRole: raw.learnerRole?.trim() ?? '',
+    setting: raw.setting?.trim() ?? '',
+    goals: readStringList(raw.goals, 'goals'),
+    targetVocabulary: readStringList(raw.targetVocabulary, 'targetVocabulary'),
+    successCriteria: readStringList(raw.successCriteria, 'successCriteria'),
+  };
+}
+
+function bulletList(items: string[]): string {
+  return items.map(item => `    - ${item}`).join('\n');
+}
+
+/** Describes the role-play for the system prompt's "Current Settings" block. */
+export function buildScenarioInstructions(scenario: Scenario): string {
+  const lines = [`- Role-play Scenario: ${scenario.title}`];
+  if (scenario.setting) lines.push(`- Setting: ${scenario.setting}`);
+  if (scenario.coachRole) lines.push(`- Your role (stay in character): ${scenario.coachRole}`);
+  if (scenario.learnerRole) lines.push(`- The user's role: ${scenario.learnerRole}`);
+  if (scenario.goals.length > 0) lines.push(`- Goals the user must accomplish:\n${bulletList(scenario.goals)}`);
+  if (scenario.targetVocabulary.length > 0) lines.push(`- Target vocabulary to create opportunities for: ${scenario.targetVocabulary.join(', ')}`);
+  if (scenario.successCriteria.length > 0) lines.push(`- The role-play is successful when:\n${bulletList(scenario.successCriteria)}`);
+  return lines.join('\n');
+}
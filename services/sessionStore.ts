@@ -0,0 +1,364 @@
+import { ConversationSession, SavedWord } from '../types';
+import { DEFAULT_LEARNER_ID, getCurrentLearnerId } from './learnerService';
+
+const DB_NAME = 'englishConversationCoach';
+const DB_VERSION = 4;
+const SESSIONS_STORE = 'sessions';
+const AUDIO_CLIPS_STORE = 'audioClips';
+const WORD_LIST_STORE = 'wordList';
+const DATE_INDEX = 'date';
+const LEARNER_INDEX = 'learnerId';
+const LEGACY_HISTORY_KEY = 'conversationHistory';
+
+/** Version of the ConversationSession record shape written by this module. */
+export const SESSION_SCHEMA_VERSION = 3;
+
+export type SessionStoreErrorKind = 'quota' | 'unavailable' | 'conflict' | 'unknown';
+
+export class SessionStoreError extends Error {
+  kind: SessionStoreErrorKind;
+
+  constructor(kind: SessionStoreErrorKind, message: string) {
+    super(message);
+    this.name = 'SessionStoreError';
+    this.kind = kind;
+  }
+}
+
+export interface PageOptions {
+  offset?: number;
+  limit?: number;
+}
+
+export interface SessionPage {
+  sessions: ConversationSession[];
+  total: number;
+}
+
+type SessionMigration = (session: any) => any;
+
+// Keyed by the schema version a record is migrated *from*. Records saved by the
+// original localStorage implementation carry no schemaVersion and count as v1.
+const SESSION_MIGRATIONS: Record<number, SessionMigration> = {
+  // v1 stored `date` as a locale string from toLocaleString(), which cannot be
+  // parsed reliably. The id was always Date.now() at creation, so use that.
+  1: session => {
+    const parsed = Date.parse(session.date);
+    const timestamp = typeof session.id === 'number' && session.id > 0 ? session.id : parsed;
+    return {
+      ...session,
+      date: new Date(Number.isNaN(timestamp) ? Date.now() : timestamp).toISOString(),
+      schemaVersion: 2,
+    };
+  },
+  // v2 predates learners; everything saved until then belongs to the learner
+  // the old localStorage data was migrated into.
+  2: session => ({ ...session, learnerId: session.learnerId ?? DEFAULT_LEARNER_ID, schemaVersion: 3 }),
+};
+
+export function migrateSession(raw: any): ConversationSession {
+  let session = raw;
+  let version: number = session.schemaVersion ?? 1;
+  while (version < SESSION_SCHEMA_VERSION) {
+    const migrate = SESSION_MIGRATIONS[version];
+    if (!migrate) {
+      throw new SessionStoreError('unknown', `No migration from session schema v${version}.`);
+    }
+    session = migrate(session);
+    version = session.schemaVersion;
+  }
+  return session as ConversationSession;
+}
+
+function toStoreError(error: unknown): SessionStoreError {
+  if (error instanceof SessionStoreError) return error;
+  const domError = error as DOMException | null;
+  if (domError?.name === 'QuotaExceededError') {
+    return new SessionStoreError('quota', 'Your browser storage is full. Delete some old sessions to keep saving your progress.');
+  }
+  return new SessionStoreError('unknown', `Could not access saved sessions: ${domError?.message ?? String(error)}`);
+}
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(toStoreError(request.error));
+  });
+}
+
+function promisifyTransaction(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(toStoreError(tx.error));
+    tx.onabort = () => reject(toStoreError(tx.error));
+  });
+}
+
+async function importLegacyHistory(db: IDBDatabase): Promise<void> {
+  const saved = localStorage.getItem(LEGACY_HISTORY_KEY);
+  if (!saved) return;
+
+  let legacySessions: unknown;
+  try {
+    legacySessions = JSON.parse(saved);
+  } catch (e) {
+    console.error('Discarding unreadable legacy conversation history:', e);
+    localStorage.removeItem(LEGACY_HISTORY_KEY);
+    return;
+  }
+  // Anything but a list would throw below and fail every later openDb().
+  if (!Array.isArray(legacySessions)) {
+    console.error('Discarding legacy conversation history that is not a list.');
+    localStorage.removeItem(LEGACY_HISTORY_KEY);
+    return;
+  }
+
+  const tx = db.transaction(SESSIONS_STORE, 'readwrite');
+  const store = tx.objectStore(SESSIONS_STORE);
+  for (const session of legacySessions) {
+    if (!session || typeof session !== 'object') continue;
+    store.put(migrateSession(session));
+  }
+  await promisifyTransaction(tx);
+  localStorage.removeItem(LEGACY_HISTORY_KEY);
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new SessionStoreError('unavailable', 'This browser does not support saving sessions.'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      if (event.oldVersion < 1) {
+        const store = db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+        store.createIndex(DATE_INDEX, 'date');
+      }
+      if (event.oldVersion < 2) {
+        db.createObjectStore(AUDIO_CLIPS_STORE);
+      }
+      if (event.oldVersion < 3) {
+        db.createObjectStore(WORD_LIST_STORE, { keyPath: 'word' });
+      }
+      if (event.oldVersion < 4) {
+        // Word lists became per learner, which changes the key, so the store
+        // is rebuilt with the existing words given to the default learner.
+        const oldWords = request.transaction!.objectStore(WORD_LIST_STORE).getAll();
+        oldWords.onsuccess = () => {
+          db.deleteObjectStore(WORD_LIST_STORE);
+          const store = db.createObjectStore(WORD_LIST_STORE, { keyPath: [LEARNER_INDEX, 'word'] });
+          store.createIndex(LEARNER_INDEX, LEARNER_INDEX);
+          (oldWords.result as SavedWord[]).forEach(word => store.put({ ...word, learnerId: DEFAULT_LEARNER_ID }));
+        };
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(toStoreError(request.error));
+    request.onblocked = () => reject(new SessionStoreError('unavailable', 'Saved sessions are locked by another tab. Close other tabs of the app and reload.'));
+  }).then(async db => {
+    await importLegacyHistory(db);
+    return db;
+  });
+
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+}
+
+/** Walks sessions newest first, stopping early once `visit` returns false. */
+async function walkSessions(visit: (session: ConversationSession) => boolean): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(SESSIONS_STORE, 'readonly');
+  const request = tx.objectStore(SESSIONS_STORE).index(DATE_INDEX).openCursor(null, 'prev');
+  await new Promise<void>((resolve, reject) => {
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor || !visit(migrateSession(cursor.value))) {
+        resolve();
+        return;
+      }
+      cursor.continue();
+    };
+    request.onerror = () => reject(toStoreError(request.error));
+  });
+}
+
+function matchesQuery(session: ConversationSession, query: string): boolean {
+  const needle = query.toLowerCase();
+  return session.topic.toLowerCase().includes(needle)
+    || session.level.toLowerCase().includes(needle)
+    || (session.notes?.general ?? '').toLowerCase().includes(needle)
+    || session.messages.some(msg => msg.content.toLowerCase().includes(needle));
+}
+
+// Only the current learner's sessions are ever listed.
+async function collectPage(options: PageOptions, filter?: (session: ConversationSession) => boolean): Promise<SessionPage> {
+  const offset = options.offset ?? 0;
+  const limit = options.limit ?? Infinity;
+  const learnerId = getCurrentLearnerId();
+  const sessions: ConversationSession[] = [];
+  let total = 0;
+  await walkSessions(session => {
+    if (session.learnerId !== learnerId || (filter && !filter(session))) return true;
+    if (total >= offset && sessions.length < limit) {
+      sessions.push(session);
+    }
+    total += 1;
+    return true;
+  });
+  return { sessions, total };
+}
+
+/** Lists sessions newest first. Omit `limit` to load every session. */
+export function listSessions(options: PageOptions = {}): Promise<SessionPage> {
+  return collectPage(options);
+}
+
+/** Case-insensitive search across topic, level, notes and transcript text. */
+export function searchSessions(query: string, options: PageOptions = {}): Promise<SessionPage> {
+  const trimmed = query.trim();
+  return collectPage(options, trimmed ? session => matchesQuery(session, trimmed) : undefined);
+}
+
+/** Every session id in the store, whichever learner owns it. */
+export async function listSessionIds(): Promise<number[]> {
+  const db = await openDb();
+  const keys = await promisifyRequest(db.transaction(SESSIONS_STORE, 'readonly').objectStore(SESSIONS_STORE).getAllKeys());
+  return keys as number[];
+}
+
+export async function getSession(id: number): Promise<ConversationSession | null> {
+  const db = await openDb();
+  const result = await promisifyRequest(db.transaction(SESSIONS_STORE, 'readonly').objectStore(SESSIONS_STORE).get(id));
+  return result ? migrateSession(result) : null;
+}
+
+/**
+ * Saves a session for the current learner, including sessions imported from
+ * someone else. Ids are shared by every learner on the device, so a record
+ * another learner owns is never written over.
+ */
+export async function upsertSession(session: ConversationSession): Promise<void> {
+  const db = await openDb();
+  const learnerId = getCurrentLearnerId();
+  let ownedByOtherLearner = false;
+  try {
+    const tx = db.transaction(SESSIONS_STORE, 'readwrite');
+    const store = tx.objectStore(SESSIONS_STORE);
+    const request = store.get(session.id);
+    request.onsuccess = () => {
+      if (request.result && migrateSession(request.result).learnerId !== learnerId) {
+        ownedByOtherLearner = true;
+        return;
+      }
+      store.put({ ...session, learnerId, schemaVersion: SESSION_SCHEMA_VERSION });
+    };
+    await promisifyTransaction(tx);
+  } catch (e) {
+    throw toStoreError(e);
+  }
+  if (ownedByOtherLearner) {
+    throw new SessionStoreError('conflict', 'This session belongs to another learner on this device and was not saved.');
+  }
+}
+
+/** Deletes a session together with the audio clips its messages reference. */
+export async function deleteSession(id: number): Promise<void> {
+  const session = await getSession(id);
+  const db = await openDb();
+  const tx = db.transaction([SESSIONS_STORE, AUDIO_CLIPS_STORE], 'readwrite');
+  tx.objectStore(SESSIONS_STORE).delete(id);
+  const clips = tx.objectStore(AUDIO_CLIPS_STORE);
+  session?.messages.forEach(msg => {
+    if (msg.audioClipId) clips.delete(msg.audioClipId);
+  });
+  await promisifyTransaction(tx);
+}
+
+/** Deletes every session a learner owns, with their audio clips. */
+async function deleteLearnerSessions(db: IDBDatabase, learnerId: string): Promise<void> {
+  const tx = db.transaction([SESSIONS_STORE, AUDIO_CLIPS_STORE], 'readwrite');
+  const clips = tx.objectStore(AUDIO_CLIPS_STORE);
+  const request = tx.objectStore(SESSIONS_STORE).openCursor();
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    const session = migrateSession(cursor.value);
+    if (session.learnerId === learnerId) {
+      session.messages.forEach(msg => { if (msg.audioClipId) clips.delete(msg.audioClipId); });
+      cursor.delete();
+    }
+    cursor.continue();
+  };
+  await promisifyTransaction(tx);
+}
+
+/** Deletes the current learner's sessions. Other learners on the device keep theirs. */
+export async function clearSessions(): Promise<void> {
+  const db = await openDb();
+  await deleteLearnerSessions(db, getCurrentLearnerId());
+}
+
+/** Deletes everything a learner has stored here: sessions, audio and word list. */
+export async function deleteLearnerData(learnerId: string): Promise<void> {
+  const db = await openDb();
+  await deleteLearnerSessions(db, learnerId);
+  const tx = db.transaction(WORD_LIST_STORE, 'readwrite');
+  const request = tx.objectStore(WORD_LIST_STORE).index(LEARNER_INDEX).openKeyCursor(IDBKeyRange.only(learnerId));
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    tx.objectStore(WORD_LIST_STORE).delete(cursor.primaryKey);
+    cursor.continue();
+  };
+  await promisifyTransaction(tx);
+}
+
+export async function saveAudioClip(id: string, clip: Blob): Promise<void> {
+  const db = await openDb();
+  try {
+    const tx = db.transaction(AUDIO_CLIPS_STORE, 'readwrite');
+    tx.objectStore(AUDIO_CLIPS_STORE).put(clip, id);
+    await promisifyTransaction(tx);
+  } catch (e) {
+    throw toStoreError(e);
+  }
+}
+
+export async function getAudioClip(id: string): Promise<Blob | null> {
+  const db = await openDb();
+  const result = await promisifyRequest(db.transaction(AUDIO_CLIPS_STORE, 'readonly').objectStore(AUDIO_CLIPS_STORE).get(id));
+  return result instanceof Blob ? result : null;
+}
+
+/** The current learner's personal word list, oldest first. */
+export async function listSavedWords(): Promise<SavedWord[]> {
+  const db = await openDb();
+  const records = await promisifyRequest(db.transaction(WORD_LIST_STORE, 'readonly').objectStore(WORD_LIST_STORE).index(LEARNER_INDEX).getAll(getCurrentLearnerId()));
+  return records
+    .map(({ learnerId, ...word }) => word as SavedWord)
+    .sort((a, b) => a.addedAt.localeCompare(b.addedAt));
+}
+
+export async function saveWord(word: SavedWord): Promise<void> {
+  const db = await openDb();
+  try {
+    const tx = db.transaction(WORD_LIST_STORE, 'readwrite');
+    tx.objectStore(WORD_LIST_STORE).put({ ...word, learnerId: getCurrentLearnerId() });
+    await promisifyTransaction(tx);
+  } catch (e) {
+    throw toStoreError(e);
+  }
+}
+
+export async function deleteSavedWord(word: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(WORD_LIST_STORE, 'readwrite');
+  tx.objectStore(WORD_LIST_STORE).delete([getCurrentLearnerId(), word]);
+  await promisifyTransaction(tx);
+}
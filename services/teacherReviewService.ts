@@ -0,0 +1,55 @@
+import { ConversationSession, CorrectionVerdict, RubricCriterion, TeacherReview } from '../types';
+import { RUBRIC_CRITERION_LABELS, RUBRIC_MAX_SCORE } from '../constants';
+
+export function createTeacherReview(reviewer: string): TeacherReview {
+  return { reviewer, reviewedAt: new Date().toISOString(), comments: [], corrections: [], rubric: {}, summary: '' };
+}
+
+export function getMessageComment(review: TeacherReview, messageIndex: number): string {
+  return review.comments.find(comment => comment.messageIndex === messageIndex)?.text ?? '';
+}
+
+/** Returns a copy of the review with the comment on a message replaced. A blank comment removes it. */
+export function setMessageComment(review: TeacherReview, messageIndex: number, text: string): TeacherReview {
+  const comments = review.comments.filter(comment => comment.messageIndex !== messageIndex);
+  if (text.trim()) comments.push({ messageIndex, text });
+  comments.sort((a, b) => a.messageIndex - b.messageIndex);
+  return { ...review, comments };
+}
+
+export function getCorrectionVerdict(review: TeacherReview, messageIndex: number, correctionIndex: number): CorrectionVerdict | null {
+  return review.corrections.find(c => c.messageIndex === messageIndex && c.correctionIndex === correctionIndex)?.verdict ?? null;
+}
+
+/** Returns a copy of the review with a coach correction marked. `null` clears the mark. */
+export function setCorrectionVerdict(review: TeacherReview, messageIndex: number, correctionIndex: number, verdict: CorrectionVerdict | null): TeacherReview {
+  const corrections = review.corrections.filter(c => !(c.messageIndex === messageIndex && c.correctionIndex === correctionIndex));
+  if (verdict) corrections.push({ messageIndex, correctionIndex, verdict });
+  return { ...review, corrections };
+}
+
+export function getScoredCriteria(review: TeacherReview): RubricCriterion[] {
+  return (Object.keys(RUBRIC_CRITERION_LABELS) as RubricCriterion[]).filter(criterion => review.rubric[criterion] !== undefined);
+}
+
+/** One-line rubric summary for lists, e.g. "Fluency 4/5 · Accuracy 3/5". */
+export function formatRubric(review: TeacherReview): string {
+  return getScoredCriteria(review)
+    .map(criterion => `${RUBRIC_CRITERION_LABELS[criterion]} ${review.rubric[criterion]}/${RUBRIC_MAX_SCORE}`)
+    .join(' · ');
+}
+
+export function isReviewEmpty(review: TeacherReview): boolean {
+  return review.comments.length === 0
+    && review.corrections.length === 0
+    && getScoredCriteria(review).length === 0
+    && !review.summary.trim();
+}
+
+/**
+ * A session that comes back from a teacher is the learner's own session with
+ * a review attached. Anything else with a clashing id is a different session.
+ */
+export function isReviewedCopy(imported: ConversationSession, existing: ConversationSession): boolean {
+  return !!imported.review && imported.id === existing.id && imported.date === existing.date;
+}
@@ -0,0 +1,129 @@
+// Turn timing for the live session. The app reports what the audio pipeline
+// sees (speech on the microphone, typed turns, coach audio being scheduled)
+// and collects each turn's timings when the backend signals turnComplete.
+
+import { Message, TurnTiming } from '../types';
+
+export interface TurnTimer {
+  /** A microphone frame in which the learner was speaking and being sent. */
+  voiceFrame(now: number, durationMs: number): void;
+  typedTurn(now: number): void;
+  /** Coach audio queued to play from `startsAt` (epoch milliseconds). */
+  playbackScheduled(startsAt: number, durationMs: number): void;
+  /** Coach audio stopped early, because the learner interrupted or the connection dropped. */
+  playbackStopped(now: number): void;
+  /** Returns the timings of the turn that just completed and starts the next one. */
+  completeTurn(): { user: TurnTiming; coach: TurnTiming };
+  reset(): void;
+}
+
+export interface TalkTime {
+  learnerMs: number;
+  coachMs: number;
+  /** Learner's share of the talking, 0..1, or null before anyone has spoken. */
+  learnerShare: number | null;
+  /** Average pause before the learner answers, or null without any measured answers. */
+  averageResponseDelayMs: number | null;
+}
+
+export function createTurnTimer(): TurnTimer {
+  let speechStartedAt: number | null = null;
+  let speechEndedAt: number | null = null;
+  let voicedMs = 0;
+  let typedAt: number | null = null;
+  let playbackStartedAt: number | null = null;
+  let playbackMs = 0;
+  // When the coach audio queued so far finishes. Carries over into the next
+  // turn, as replies often keep playing after turnComplete arrives.
+  let playbackEndsAt = 0;
+  let previousPlaybackEndedAt: number | null = null;
+
+  const startTurn = () => {
+    speechStartedAt = null;
+    speechEndedAt = null;
+    voicedMs = 0;
+    typedAt = null;
+    playbackStartedAt = null;
+    playbackMs = 0;
+  };
+
+  return {
+    voiceFrame(now, durationMs) {
+      // Anything picked up while the coach is talking is most likely the
+      // coach's own voice coming back through the speakers.
+      if (now < playbackEndsAt) return;
+      speechStartedAt ??= now - durationMs;
+      speechEndedAt = now;
+      voicedMs += durationMs;
+    },
+    typedTurn(now) {
+      typedAt = now;
+    },
+    playbackScheduled(startsAt, durationMs) {
+      playbackStartedAt ??= startsAt;
+      playbackMs += durationMs;
+      playbackEndsAt = Math.max(playbackEndsAt, startsAt + durationMs);
+    },
+    playbackStopped(now) {
+      if (playbackEndsAt > now) {
+        if (playbackStartedAt !== null) playbackMs = Math.max(0, playbackMs - (playbackEndsAt - now));
+        playbackEndsAt = now;
+      }
+    },
+    completeTurn() {
+      const user: TurnTiming = {};
+      if (speechStartedAt !== null && speechEndedAt !== null) {
+        user.speechStartedAt = Math.round(speechStartedAt);
+        user.speechEndedAt = Math.round(speechEndedAt);
+        user.speakingMs = Math.round(voicedMs);
+        if (previousPlaybackEndedAt !== null && speechStartedAt >= previousPlaybackEndedAt) {
+          user.responseDelayMs = Math.round(speechStartedAt - previousPlaybackEndedAt);
+        }
+      }
+
+      const coach: TurnTiming = {};
+      if (playbackStartedAt !== null) {
+        coach.playbackStartedAt = Math.round(playbackStartedAt);
+        coach.speakingMs = Math.round(playbackMs);
+        const answeredAt = speechEndedAt ?? typedAt;
+        if (answeredAt !== null && playbackStartedAt >= answeredAt) {
+          coach.latencyMs = Math.round(playbackStartedAt - answeredAt);
+        }
+        previousPlaybackEndedAt = playbackEndsAt;
+      }
+
+      startTurn();
+      return { user, coach };
+    },
+    reset() {
+      startTurn();
+      playbackEndsAt = 0;
+      previousPlaybackEndedAt = null;
+    },
+  };
+}
+
+export function isTimingEmpty(timing: TurnTiming): boolean {
+  return Object.keys(timing).length === 0;
+}
+
+/** Measured speaking time for the learner and the coach. Turns recorded before timing existed are left out. */
+export function computeTalkTime(messages: Message[]): TalkTime {
+  let learnerMs = 0;
+  let coachMs = 0;
+  const responseDelays: number[] = [];
+  for (const msg of messages) {
+    const speakingMs = msg.timing?.speakingMs;
+    if (speakingMs === undefined) continue;
+    if (msg.role === 'user') learnerMs += speakingMs;
+    else coachMs += speakingMs;
+    if (msg.timing?.responseDelayMs !== undefined) responseDelays.push(msg.timing.responseDelayMs);
+  }
+  const total = learnerMs + coachMs;
+  return {
+    learnerMs,
+    coachMs,
+    learnerShare: total > 0 ? learnerMs / total : null,
+    averageResponseDelayMs: responseDelays.length > 0 ? responseDelays.reduce((sum, ms) => sum + ms, 0) / responseDelays.length : null,
+  };
+}
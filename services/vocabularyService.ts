@@ -0,0 +1,68 @@
+import { ConversationSession, DictionaryEntry, Message, SavedWord } from '../types';
+import { DICTIONARY } from '../dictionary';
+import { getSessionTimestamp, lemmatize, tokenize } from './analyticsService';
+
+export interface DictionaryLookup {
+  /** The dictionary form the word was found under, or the lemma if it was not found. */
+  word: string;
+  entry: DictionaryEntry | null;
+}
+
+export interface WordUsage {
+  correct: number;
+  incorrect: number;
+  /** Epoch milliseconds of the most recent use, if the word has been used since it was saved. */
+  lastUsedAt?: number;
+}
+
+/**
+ * Looks a tapped word up in the bundled dictionary, first as written and then
+ * by its lemma, so "postponed" finds "postpone".
+ */
+export function lookupWord(rawWord: string): DictionaryLookup {
+  const word = tokenize(rawWord)[0] ?? '';
+  if (DICTIONARY[word]) {
+    return { word, entry: DICTIONARY[word] };
+  }
+  const lemma = lemmatize(word);
+  // The lemmatizer strips a trailing "e" along with "-ed" and "-ing" ("arranged" -> "arrang").
+  const key = DICTIONARY[lemma] ? lemma : DICTIONARY[`${lemma}e`] ? `${lemma}e` : lemma;
+  return { word: key, entry: DICTIONARY[key] ?? null };
+}
+
+function usesWord(text: string, word: string): boolean {
+  return tokenize(text).some(token => token === word || lookupWord(token).word === word);
+}
+
+function getMessageTimestamp(message: Message, session: ConversationSession): number {
+  return message.startedAt ?? message.endedAt ?? getSessionTimestamp(session);
+}
+
+/**
+ * How often the learner has used a saved word since saving it. A use counts as
+ * incorrect when the coach's reply corrected that sentence and the word did not
+ * survive into the corrected version.
+ */
+export function computeWordUsage(savedWord: SavedWord, sessions: ConversationSession[]): WordUsage {
+  const since = Date.parse(savedWord.addedAt);
+  const usage: WordUsage = { correct: 0, incorrect: 0 };
+
+  for (const session of sessions) {
+    session.messages.forEach((message, index) => {
+      if (message.role !== 'user' || !usesWord(message.content, savedWord.word)) return;
+      const timestamp = getMessageTimestamp(message, session);
+      if (timestamp < since) return;
+
+      const reply = session.messages[index + 1];
+      const misused = reply?.role === 'ai' && (reply.corrections ?? []).some(correction =>
+        usesWord(correction.original, savedWord.word) && !usesWord(correction.corrected, savedWord.word));
+      if (misused) {
+        usage.incorrect += 1;
+      } else {
+        usage.correct += 1;
+      }
+      usage.lastUsedAt = Math.max(usage.lastUsedAt ?? 0, timestamp);
+    });
+  }
+  return usage;
+}
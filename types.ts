@@ -1,17 +1,363 @@
 export type MessageRole = 'user' | 'ai';
 
+export type CorrectionCategory =
+  | 'preposition'
+  | 'tense'
+  | 'word-order'
+  | 'article'
+  | 'agreement'
+  | 'word-choice'
+  | 'pronunciation'
+  | 'other';
+
+export interface Correction {
+  original: string;
+  corrected: string;
+  category: CorrectionCategory;
+  explanation: string;
+}
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+export interface ReviewSchedule {
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number;
+  dueDate: string;
+  lastReviewed?: string;
+}
+
+export interface ReviewCard {
+  id: string;
+  sessionId: number;
+  correction: Correction;
+  schedule: ReviewSchedule;
+}
+
+export type MessageModality = 'voice' | 'text';
+
+/**
+ * Timings of a spoken turn taken from the audio pipeline. The first
+ * transcription chunk and `turnComplete` are `Message.startedAt`/`endedAt`.
+ */
+export interface TurnTiming {
+  /** Learner turns: epoch milliseconds of the first microphone frame with speech. */
+  speechStartedAt?: number;
+  /** Learner turns: epoch milliseconds of the last microphone frame with speech. */
+  speechEndedAt?: number;
+  /** Coach turns: epoch milliseconds when the reply started playing. */
+  playbackStartedAt?: number;
+  /** Time the speaker was talking: voiced microphone time for the learner, audio played for the coach. */
+  speakingMs?: number;
+  /** Learner turns: pause between the coach's previous reply finishing and the learner starting to speak. */
+  responseDelayMs?: number;
+  /** Coach turns: time from the learner finishing (or sending a typed turn) to the reply starting to play. */
+  latencyMs?: number;
+}
+
 export interface Message {
   role: MessageRole;
   content: string;
+  /** How the turn was given. Missing on turns saved before typed input existed, which were all spoken. */
+  modality?: MessageModality;
+  corrections?: Correction[];
+  audioClipId?: string;
+  /** Epoch milliseconds when the first transcription of this turn arrived. */
+  startedAt?: number;
+  /** Epoch milliseconds when the turn ended. */
+  endedAt?: number;
+  timing?: TurnTiming;
+}
+
+export interface Scenario {
+  id: string;
+  title: string;
+  coachRole: string;
+  learnerRole: string;
+  setting: string;
+  goals: string[];
+  targetVocabulary: string[];
+  successCriteria: string[];
+  updatedAt: string;
+}
+
+export interface DictionaryEntry {
+  partOfSpeech: string;
+  definition: string;
+  example: string;
+}
+
+export interface SavedWord {
+  /** Dictionary form of the word, also its key in the word list. */
+  word: string;
+  /** Missing when the bundled dictionary has no entry for the word. */
+  entry?: DictionaryEntry;
+  /** ISO 8601 timestamp. */
+  addedAt: string;
+  /** The message the word was saved from, for context. */
+  context?: string;
+}
+
+export type DrillSource = 'corrections' | 'scenario' | 'built-in';
+
+/** One word of a drill attempt, aligned against the target sentence. */
+export type DrillWordResult =
+  | { type: 'match'; expected: string }
+  | { type: 'substituted'; expected: string; heard: string }
+  | { type: 'omitted'; expected: string }
+  | { type: 'extra'; heard: string };
+
+export interface DrillAttempt {
+  id: string;
+  target: string;
+  transcript: string;
+  words: DrillWordResult[];
+  /** 0-100. */
+  score: number;
+  source: DrillSource;
+  /** ISO 8601 timestamp. */
+  attemptedAt: string;
+}
+
+export type CefrLevel = 'A1' | 'A2' | 'B1' | 'B2' | 'C1' | 'C2';
+
+export interface RecurringMistake {
+  category: CorrectionCategory;
+  count: number;
+  /** One corrected sentence that illustrates the mistake. */
+  example?: string;
+}
+
+export interface SessionReport {
+  generatedAt: string;
+  /** `coach` reports were written by the model; `offline` ones are computed from the transcript alone. */
+  source: 'coach' | 'offline';
+  summary: string;
+  recurringMistakes: RecurringMistake[];
+  newVocabulary: string[];
+  suggestedPhrases: string[];
+  estimatedLevel: CefrLevel;
+  goals: string[];
+}
+
+export type LevelAssessmentSource = 'placement' | 'session';
+
+/** One point in the learner's level history, estimated from a saved session. */
+export interface LevelAssessment {
+  level: CefrLevel;
+  source: LevelAssessmentSource;
+  /** ISO 8601 timestamp. */
+  assessedAt: string;
+  sessionId: number;
+  wordsPerSentence: number;
+  correctionsPer100Words: number;
+  /** Distinct words per 100 words, over a fixed-size sample so long sessions are not penalised. */
+  lexicalRange: number;
+}
+
+/**
+ * What the coach is told about the learner before a conversation. Built from
+ * past sessions, but the learner can edit it before it is sent.
+ */
+export interface LearnerProfile {
+  /** Mistake areas to practise, e.g. "Prepositions (5 corrections, e.g. ...)". */
+  focusAreas: string[];
+  /** Words from the learner's word list for the coach to reuse. */
+  studyWords: string[];
+  goals: string[];
+  /** ISO 8601. Set once the learner edits the profile, after which it is no longer rebuilt automatically. */
+  editedAt?: string;
+}
+
+export type FeedbackStyle = 'detailed' | 'recast' | 'deferred' | 'fluency';
+
+export type SpeakingPace = 'slow' | 'normal' | 'fast';
+
+export interface FeedbackSettings {
+  style: FeedbackStyle;
+  /** Mistake types the coach points out; the rest are let pass. */
+  flaggedCategories: CorrectionCategory[];
+  pace: SpeakingPace;
+  /** Language the coach may use for short grammar explanations at A1-A2. Empty means English only; unset falls back to the learner's native language. */
+  explanationLanguage?: string;
+}
+
+/** When a course unit counts as done, judged from what the learner said in one session. */
+export interface UnitCompletionCriterion {
+  minUserTurns: number;
+  /** How many of the unit's target phrases the learner must use. */
+  minPhrasesUsed: number;
+}
+
+export interface CourseUnit {
+  id: string;
+  title: string;
+  /** One of `TOPICS`, for units that are a free conversation rather than a role-play. */
+  topic?: string;
+  scenario?: Scenario;
+  /** The `LEVELS` entry the unit is practised at. */
+  level: string;
+  objectives: string[];
+  targetPhrases: string[];
+  completion: UnitCompletionCriterion;
+}
+
+export interface Course {
+  id: string;
+  title: string;
+  description: string;
+  /** Unlocked one at a time, in order. */
+  units: CourseUnit[];
+}
+
+export interface CourseUnitRef {
+  courseId: string;
+  unitId: string;
+}
+
+export interface UnitCompletion extends CourseUnitRef {
+  sessionId: number;
+  completedAt: string;
+}
+
+export type PracticeModeId = 'open' | 'timed' | 'turns' | 'ielts-part2';
+
+/** What a structured session aims for. Sessions in the open mode have no goal. */
+export interface SessionGoal {
+  mode: PracticeModeId;
+  /** Minutes of conversation (after any preparation time), if the session is timed. */
+  minutes?: number;
+  /** Answers the learner should give, if the session has a turn target. */
+  turns?: number;
+  /** Silent preparation before the timed part, as in IELTS Speaking Part 2. */
+  prepSeconds?: number;
+}
+
+export interface GoalSettings {
+  mode: PracticeModeId;
+  /** Used by the timed mode. */
+  minutes: number;
+  /** Used by the turns mode. */
+  turns: number;
+  /** Minutes of practice a day that keep the streak going. */
+  dailyMinutes: number;
+}
+
+/** How the last practice run of a session measured up to its goal. */
+export interface SessionGoalResult {
+  goal: SessionGoal;
+  practisedMs: number;
+  userTurns: number;
+  met: boolean;
+}
+
+export type ExamPart = 'interview' | 'long-turn' | 'discussion';
+
+export type ExamCriterion = 'fluency' | 'lexical' | 'grammar' | 'pronunciation';
+
+/** Where a part of a speaking test begins in the session's messages. */
+export interface ExamPartStart {
+  part: ExamPart;
+  messageIndex: number;
+}
+
+export interface ExamCriterionScore {
+  criterion: ExamCriterion;
+  /** Whole band from 0 to 9, as examiners give them per criterion. */
+  band: number;
+  justification: string;
+  /** The learner's own words that back the band up, quoted from the transcript. */
+  quotes: string[];
+}
+
+export interface ExamResult {
+  generatedAt: string;
+  /** `coach` results were scored by the model; `offline` ones are estimated from the transcript alone. */
+  source: 'coach' | 'offline';
+  /** Criteria that could not be judged are left out. */
+  scores: ExamCriterionScore[];
+  /** Average of the criterion bands, rounded to the nearest half band (quarters round up), or null if nothing was scored. */
+  overallBand: number | null;
+  summary: string;
+}
+
+/** A simulated speaking test taken in a session. */
+export interface ExamRecord {
+  parts: ExamPartStart[];
+  /** False if the test was stopped before the examiner closed it. */
+  isComplete: boolean;
+  /** Missing until the test has been scored. */
+  result?: ExamResult;
+}
+
+/** One person using the app on a shared device. Their sessions, word list and settings are kept apart. */
+export interface Learner {
+  id: string;
+  name: string;
+  /** Used for grammar explanations until the learner picks a language in Settings. */
+  nativeLanguage?: string;
+  /** `LEVELS`, `TOPICS` and `COACH_VOICES` entries the app starts with. */
+  defaultLevel?: string;
+  defaultTopic?: string;
+  defaultVoice?: string;
+  /** SHA-256 of the learner's PIN, salted with their id. No PIN when unset. */
+  pinHash?: string;
+  createdAt: string;
+}
+
+export type RubricCriterion = 'fluency' | 'accuracy' | 'vocabulary' | 'interaction';
+
+export type CorrectionVerdict = 'agree' | 'disagree';
+
+export interface MessageComment {
+  /** Index into `ConversationSession.messages`. */
+  messageIndex: number;
+  text: string;
+}
+
+export interface CorrectionReview {
+  messageIndex: number;
+  /** Index into the message's `corrections`. */
+  correctionIndex: number;
+  verdict: CorrectionVerdict;
+}
+
+/** A teacher's annotations on a learner's session, made in review mode and sent back with the session. */
+export interface TeacherReview {
+  reviewer: string;
+  /** ISO 8601 timestamp of when the review was last saved. */
+  reviewedAt: string;
+  comments: MessageComment[];
+  corrections: CorrectionReview[];
+  /** Score from 1 to 5 per criterion. Criteria the teacher left unscored are missing. */
+  rubric: Partial<Record<RubricCriterion, number>>;
+  summary: string;
 }
 
 export interface ConversationSession {
   id: number;
+  /** ISO 8601 timestamp of when the session was first saved. */
   date: string;
+  schemaVersion?: number;
   level: string;
   topic: string;
   messages: Message[];
+  /** Snapshot of the role-play scenario the session was practised with. */
+  scenario?: Scenario;
   notes?: {
     general: string;
   }
-}
\ No newline at end of file
+  /** End-of-session report card, regenerated whenever the session is saved after practice. */
+  report?: SessionReport;
+  /** How the coach gave feedback the last time this session was practised. */
+  feedback?: FeedbackSettings;
+  /** The course unit this session was practising, if any. */
+  courseUnit?: CourseUnitRef;
+  /** Whose session this is on a shared device. */
+  learnerId?: string;
+  /** Feedback from a teacher who reviewed an export of this session. */
+  review?: TeacherReview;
+  goalResult?: SessionGoalResult;
+  /** The speaking test taken in this session, if it was one. */
+  exam?: ExamRecord;
+}